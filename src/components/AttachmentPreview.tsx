@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Download, FileText, Loader2 } from 'lucide-react';
+import { cn } from '@/utils/cn';
+import { Message } from '@/types';
+import { formatFileSize, isImageFile } from '@/lib/attachments';
+
+type AttachmentPreviewProps = {
+  message: Message;
+  isOwn: boolean;
+  fullUrl: string | null;
+  // 0..1 while bytes are moving, undefined otherwise
+  progress?: number;
+  onDownload: () => Promise<{ success: boolean; error?: string }>;
+};
+
+export function AttachmentPreview({ message, isOwn, fullUrl, progress, onDownload }: AttachmentPreviewProps) {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [error, setError] = useState('');
+  const attachment = message.attachment;
+  if (!attachment) return null;
+
+  const isImage = isImageFile(attachment.mimeType);
+  const imageSrc = isImage ? fullUrl || attachment.thumbnailUrl : undefined;
+  const inFlight = progress !== undefined && progress > 0 && progress < 1;
+
+  const handleDownload = async () => {
+    setError('');
+    setIsDownloading(true);
+    const result = await onDownload();
+    setIsDownloading(false);
+    if (!result.success) setError(result.error || 'Download failed');
+  };
+
+  return (
+    <div className="space-y-2 max-w-[260px]">
+      {imageSrc && (
+        <img
+          src={imageSrc}
+          alt={attachment.name}
+          className={cn('rounded-xl max-w-full max-h-64 object-cover', !fullUrl && 'blur-[1px]')}
+        />
+      )}
+
+      <div className="flex items-center gap-3">
+        {!imageSrc && (
+          <div className="w-10 h-10 rounded-xl bg-white/20 flex items-center justify-center flex-shrink-0">
+            <FileText className="w-5 h-5 text-white" />
+          </div>
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate">{attachment.name}</p>
+          <p className={cn('text-xs', isOwn ? 'text-white/70' : 'text-white/50')}>
+            {formatFileSize(attachment.size)}
+            {inFlight && ` · ${Math.round(progress! * 100)}%`}
+          </p>
+        </div>
+        <motion.button
+          onClick={handleDownload}
+          disabled={isDownloading}
+          className="w-9 h-9 rounded-full bg-white/20 flex items-center justify-center text-white flex-shrink-0 disabled:opacity-60"
+          whileHover={{ scale: 1.1 }}
+          whileTap={{ scale: 0.9 }}
+          aria-label={`Download ${attachment.name}`}
+        >
+          {isDownloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        </motion.button>
+      </div>
+
+      {inFlight && (
+        <div className="h-1 rounded-full bg-white/20 overflow-hidden">
+          <motion.div
+            className="h-full bg-white"
+            animate={{ width: `${progress! * 100}%` }}
+            transition={{ duration: 0.2 }}
+          />
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  );
+}
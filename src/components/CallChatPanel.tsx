@@ -0,0 +1,114 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { X, Send, MessageCircle } from 'lucide-react';
+import { cn } from '@/utils/cn';
+import { CallChatMessage } from '@/hooks/useWebRTC';
+import { ColorAvatar } from './ColorAvatar';
+
+type CallChatPanelProps = {
+  messages: CallChatMessage[];
+  currentUserId: string;
+  onSend: (content: string) => void;
+  onClose: () => void;
+  isMobile?: boolean;
+};
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+export function CallChatPanel({ messages, currentUserId, onSend, onClose, isMobile }: CallChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length]);
+
+  const handleSend = () => {
+    if (!draft.trim()) return;
+    onSend(draft);
+    setDraft('');
+  };
+
+  return (
+    <motion.div
+      className={cn(
+        'absolute z-20 flex flex-col backdrop-blur-xl bg-slate-900/90 border-white/20',
+        isMobile ? 'inset-x-0 bottom-0 h-[60vh] rounded-t-3xl border-t' : 'top-16 right-4 bottom-28 w-80 rounded-3xl border'
+      )}
+      initial={isMobile ? { y: '100%' } : { x: 40, opacity: 0 }}
+      animate={isMobile ? { y: 0 } : { x: 0, opacity: 1 }}
+      exit={isMobile ? { y: '100%' } : { x: 40, opacity: 0 }}
+      transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <h3 className="text-white font-semibold">Call chat</h3>
+        <button onClick={onClose} className="p-1.5 hover:bg-white/10 rounded-full transition-colors" aria-label="Close chat">
+          <X className="w-5 h-5 text-white/70" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+        {messages.length === 0 && (
+          <div className="h-full flex flex-col items-center justify-center text-center">
+            <MessageCircle className="w-10 h-10 text-white/20 mb-2" />
+            <p className="text-white/40 text-sm">Messages sent here are only seen by people in this call</p>
+          </div>
+        )}
+        {messages.map((msg, index) => {
+          const isOwn = msg.senderId === currentUserId;
+          const showSender = !isOwn && messages[index - 1]?.senderId !== msg.senderId;
+          return (
+            <div key={msg.id} className={cn('flex gap-2', isOwn ? 'justify-end' : 'justify-start')}>
+              {!isOwn && (
+                <div className="w-6 flex-shrink-0">
+                  {showSender && <ColorAvatar name={msg.senderName} color={msg.senderColor} size="xs" />}
+                </div>
+              )}
+              <div className={cn('max-w-[80%]', isOwn && 'text-right')}>
+                {showSender && <p className="text-white/50 text-xs mb-0.5">{msg.senderName}</p>}
+                <div
+                  className={cn(
+                    'inline-block px-3 py-2 rounded-2xl text-sm text-left break-words whitespace-pre-wrap',
+                    isOwn ? 'bg-purple-500 text-white rounded-br-md' : 'bg-white/10 text-white rounded-bl-md'
+                  )}
+                >
+                  {msg.content}
+                </div>
+                <p className="text-white/30 text-[10px] mt-0.5">{formatTime(msg.timestamp)}</p>
+              </div>
+            </div>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="p-3 border-t border-white/10 flex items-center gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSend();
+          }}
+          placeholder="Message everyone"
+          className="flex-1 px-4 py-2.5 bg-white/10 border border-white/20 rounded-xl text-white text-sm placeholder-white/40 focus:outline-none focus:border-purple-500"
+        />
+        <motion.button
+          onClick={handleSend}
+          disabled={!draft.trim()}
+          className={cn(
+            'w-10 h-10 rounded-xl flex items-center justify-center transition-all',
+            draft.trim() ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white' : 'bg-white/10 text-white/40'
+          )}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          aria-label="Send"
+        >
+          <Send className="w-4 h-4" />
+        </motion.button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Phone, PhoneIncoming, PhoneMissed, PhoneOutgoing, Video, Trash2 } from 'lucide-react';
+import { cn } from '@/utils/cn';
+import { GroupMember } from '@/types';
+import { CallRecord, formatCallDuration } from '@/lib/callHistory';
+import { ColorAvatar } from './ColorAvatar';
+import { GroupAvatar } from './GroupAvatar';
+
+type CallFilter = 'all' | 'missed' | 'incoming' | 'outgoing';
+
+type CallHistoryListProps = {
+  records: CallRecord[];
+  getParticipant: (userId: string) => GroupMember;
+  onCallBack: (record: CallRecord) => void;
+  onClear: () => void;
+  themeGradient: string;
+};
+
+const filters: { id: CallFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'missed', label: 'Missed' },
+  { id: 'incoming', label: 'Incoming' },
+  { id: 'outgoing', label: 'Outgoing' },
+];
+
+function matchesFilter(record: CallRecord, filter: CallFilter): boolean {
+  switch (filter) {
+    case 'all':
+      return true;
+    case 'missed':
+      return record.direction === 'incoming' && record.outcome === 'missed';
+    default:
+      return record.direction === filter;
+  }
+}
+
+function describeOutcome(record: CallRecord): string {
+  switch (record.outcome) {
+    case 'answered':
+      return formatCallDuration(record.duration);
+    case 'missed':
+      return record.direction === 'incoming' ? 'Missed' : 'No answer';
+    case 'rejected':
+      return 'Declined';
+    case 'busy':
+      return 'Busy';
+    case 'cancelled':
+      return 'Cancelled';
+    default:
+      return 'Ringing…';
+  }
+}
+
+function formatTimestamp(time: number): string {
+  const date = new Date(time);
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  const yesterday = new Date(now);
+  yesterday.setDate(now.getDate() - 1);
+  if (date.toDateString() === yesterday.toDateString()) return 'Yesterday';
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+export function CallHistoryList({ records, getParticipant, onCallBack, onClear, themeGradient }: CallHistoryListProps) {
+  const [filter, setFilter] = useState<CallFilter>('all');
+  const visible = records.filter(r => matchesFilter(r, filter));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="flex gap-1 flex-1 overflow-x-auto">
+          {filters.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => setFilter(id)}
+              className={cn(
+                'px-3 py-1.5 rounded-lg text-sm font-medium transition-colors whitespace-nowrap',
+                filter === id ? 'bg-white/20 text-white' : 'text-white/60 hover:text-white hover:bg-white/10'
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {records.length > 0 && (
+          <button
+            onClick={onClear}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-white/50 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span className="hidden sm:inline">Clear</span>
+          </button>
+        )}
+      </div>
+
+      {visible.length === 0 && (
+        <motion.div
+          className="flex flex-col items-center justify-center py-16"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+        >
+          <div className="w-24 h-24 rounded-full bg-white/10 flex items-center justify-center mb-4">
+            <Phone className="w-12 h-12 text-white/40" />
+          </div>
+          <h3 className="text-white/60 text-lg font-medium">
+            {records.length === 0 ? 'No calls yet' : 'Nothing here'}
+          </h3>
+          <p className="text-white/40 text-sm mt-1">
+            {records.length === 0 ? 'Calls you make and receive will show up here' : 'No calls match this filter'}
+          </p>
+        </motion.div>
+      )}
+
+      {visible.map((record, index) => {
+        const participants = record.participantIds.map(getParticipant);
+        const isMissed = record.outcome === 'missed' && record.direction === 'incoming';
+        const DirectionIcon = isMissed ? PhoneMissed : record.direction === 'incoming' ? PhoneIncoming : PhoneOutgoing;
+
+        return (
+          <motion.div
+            key={record.id}
+            className="group backdrop-blur-xl bg-white/10 rounded-3xl border border-white/20 p-4 hover:bg-white/15 transition-all"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: Math.min(index, 10) * 0.05 }}
+          >
+            <div className="flex items-center gap-4">
+              <div className="relative">
+                {participants.length > 1 ? (
+                  <GroupAvatar members={participants} size="lg" />
+                ) : participants[0] && (
+                  <ColorAvatar name={participants[0].displayName} color={participants[0].avatarColor} size="lg" />
+                )}
+                <div
+                  className={cn(
+                    'absolute -bottom-1 -right-1 w-6 h-6 rounded-full flex items-center justify-center',
+                    record.isVideo ? 'bg-purple-500' : 'bg-green-500'
+                  )}
+                  title={record.isVideo ? 'Video call' : 'Audio call'}
+                >
+                  {record.isVideo ? <Video className="w-3 h-3 text-white" /> : <Phone className="w-3 h-3 text-white" />}
+                </div>
+              </div>
+              <div className="flex-1 min-w-0">
+                <h3 className={cn('font-semibold truncate', isMissed ? 'text-red-400' : 'text-white')}>
+                  {participants.map(p => p.displayName).join(', ')}
+                </h3>
+                <div className="flex items-center gap-1.5 mt-1 text-sm text-white/50">
+                  <DirectionIcon className={cn('w-4 h-4 flex-shrink-0', isMissed && 'text-red-400')} />
+                  <span className="truncate">
+                    {describeOutcome(record)} · {formatTimestamp(record.startedAt)}
+                  </span>
+                </div>
+              </div>
+              <motion.button
+                onClick={() => onCallBack(record)}
+                className={`w-12 h-12 rounded-xl bg-gradient-to-r ${themeGradient} flex items-center justify-center text-white flex-shrink-0`}
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                title={record.isVideo ? 'Video call back' : 'Call back'}
+              >
+                {record.isVideo ? <Video className="w-5 h-5" /> : <Phone className="w-5 h-5" />}
+              </motion.button>
+            </div>
+          </motion.div>
+        );
+      })}
+    </div>
+  );
+}
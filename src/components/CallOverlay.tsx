@@ -14,11 +14,27 @@ import {
   MoreHorizontal,
   Maximize2,
   Grid3X3,
+  Hand,
+  Loader2,
+  SignalHigh,
+  SignalMedium,
+  SignalLow,
+  Pause,
+  Play,
+  ArrowLeftRight,
+  Circle,
+  Square,
 } from 'lucide-react';
 import { cn } from '@/utils/cn';
-import { Friend, Reaction } from '@/types';
+import { colorThemes, Friend, Reaction } from '@/types';
 import { useApp } from '@/context/AppContext';
-import { ColorAvatar } from './ColorAvatar';
+import { CallChatMessage, MediaState } from '@/hooks/useWebRTC';
+import { PeerStats, SignalQuality } from '@/lib/callStats';
+import { isRecordingSupported } from '@/lib/callRecorder';
+import { ColorAvatar, stringToColor } from './ColorAvatar';
+import { CallChatPanel } from './CallChatPanel';
+import { CallParticipantsPanel } from './CallParticipantsPanel';
+import { DeviceSettings } from './DeviceSettings';
 
 type CallOverlayProps = {
   participants: Friend[];
@@ -29,13 +45,101 @@ type CallOverlayProps = {
   isMuted: boolean;
   isCameraOff: boolean;
   isScreenSharing: boolean;
+  isHandRaised: boolean;
+  peerMediaStates: Map<string, MediaState>;
+  speakingIds: string[];
+  dominantSpeakerId: string | null;
+  chatMessages: CallChatMessage[];
+  reconnectingPeers: string[];
+  peerStats: Map<string, PeerStats>;
+  // User IDs present in the call room, including ours
+  roster: string[];
+  onAddParticipants: (userIds: string[]) => void;
+  // Who is waiting in the call we put on hold to take this one
+  heldCallName?: string | null;
+  onSwapCalls: () => void;
+  isOnHold: boolean;
+  onToggleHold: () => void;
+  isRecording: boolean;
+  // Other participants recording this call
+  recordingPeers: string[];
+  onToggleRecording: () => void;
   onToggleMute: () => void;
   onToggleCamera: () => void;
   onToggleScreenShare: () => Promise<void>;
+  onToggleHandRaise: () => void;
+  onSendChatMessage: (content: string) => void;
 };
 
 const callEmojis = ['👍', '👏', '❤️', '😂', '😮', '🔥', '🎉', '💯'];
 
+const signalStyles: Record<SignalQuality, { icon: typeof SignalHigh; className: string; label: string }> = {
+  good: { icon: SignalHigh, className: 'text-green-400', label: 'Good connection' },
+  fair: { icon: SignalMedium, className: 'text-amber-400', label: 'Unstable connection' },
+  poor: { icon: SignalLow, className: 'text-red-400', label: 'Poor connection' },
+};
+
+const candidateTypeLabels: Record<string, string> = {
+  host: 'direct',
+  srflx: 'direct (STUN)',
+  prflx: 'direct (STUN)',
+  relay: 'relayed (TURN)',
+};
+
+function formatStat(value: number | null, unit: string, digits = 0) {
+  return value === null ? '—' : `${value.toFixed(digits)} ${unit}`;
+}
+
+function SignalBadge({ quality, isExpanded, onClick }: { quality: SignalQuality; isExpanded: boolean; onClick: () => void }) {
+  const { icon: SignalIcon, className, label } = signalStyles[quality];
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        'absolute top-2 md:top-4 right-2 md:right-4 z-10 w-7 h-7 md:w-8 md:h-8 rounded-full flex items-center justify-center backdrop-blur-md transition-colors',
+        isExpanded ? 'bg-black/60' : 'bg-black/30 hover:bg-black/50'
+      )}
+      title={label}
+      aria-label={`${label}, show call statistics`}
+      aria-expanded={isExpanded}
+    >
+      <SignalIcon className={cn('w-4 h-4', className)} />
+    </button>
+  );
+}
+
+function StatsPanel({ stats }: { stats: PeerStats }) {
+  const pair = stats.candidatePair;
+  const rows: [string, string][] = [
+    ['Round trip', formatStat(stats.rttMs, 'ms')],
+    ['Jitter', formatStat(stats.jitterMs, 'ms', 1)],
+    ['Packet loss', `${(stats.packetLoss * 100).toFixed(1)}% in · ${(stats.outboundLoss * 100).toFixed(1)}% out`],
+    ['Bitrate', `${stats.inboundKbps} kbps in · ${stats.outboundKbps} kbps out`],
+    ['Video', stats.resolution ? `${stats.resolution} @ ${formatStat(stats.frameRate, 'fps')}` : '—'],
+    ['Route', pair ? `${candidateTypeLabels[pair.remoteType] ?? pair.remoteType} · ${pair.protocol.toUpperCase()}` : '—'],
+  ];
+  if (stats.sendLevel > 0) rows.push(['Sending', `reduced quality (step ${stats.sendLevel})`]);
+
+  return (
+    <motion.div
+      className="absolute top-10 md:top-14 right-2 md:right-4 z-10 w-60 max-w-[calc(100%-1rem)] backdrop-blur-xl bg-slate-800/90 border border-white/20 rounded-2xl p-3 shadow-xl"
+      initial={{ opacity: 0, y: -10, scale: 0.95 }}
+      animate={{ opacity: 1, y: 0, scale: 1 }}
+      exit={{ opacity: 0, y: -10, scale: 0.95 }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <dl className="space-y-1.5 text-xs">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-3">
+            <dt className="text-white/50 flex-shrink-0">{label}</dt>
+            <dd className="text-white text-right truncate">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </motion.div>
+  );
+}
+
 // Hook to detect mobile devices
 function useIsMobile() {
   const [isMobile, setIsMobile] = useState(false);
@@ -59,20 +163,41 @@ function VideoTile({
   isLocal,
   isMuted,
   isCameraOff,
+  isScreenSharing,
+  isHandRaised,
+  isSpeaking,
+  isReconnecting,
+  isPending,
+  isOnHold,
   isMain,
   isMobile,
   participantCount,
+  reactions = [],
+  sinkId,
+  stats,
 }: {
   stream: MediaStream | null;
   participant: Friend;
   isLocal?: boolean;
   isMuted?: boolean;
   isCameraOff?: boolean;
+  isScreenSharing?: boolean;
+  isHandRaised?: boolean;
+  isSpeaking?: boolean;
+  isReconnecting?: boolean;
+  // Invited but not in the room yet
+  isPending?: boolean;
+  isOnHold?: boolean;
   isMain?: boolean;
   isMobile?: boolean;
   participantCount?: number;
+  reactions?: Reaction[];
+  // Speaker to play this participant through ('' = system default)
+  sinkId?: string;
+  stats?: PeerStats;
 }) {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const [showStats, setShowStats] = useState(false);
 
   useEffect(() => {
     if (videoRef.current && stream) {
@@ -80,6 +205,12 @@ function VideoTile({
     }
   }, [stream]);
 
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || isLocal || sinkId === undefined || !('setSinkId' in video)) return;
+    video.setSinkId(sinkId).catch((err) => console.warn('[DEVICES] setSinkId failed:', err));
+  }, [sinkId, isLocal, stream]);
+
   // Determine aspect ratio based on device and participant count
   const getAspectRatioClass = () => {
     if (isMobile) {
@@ -118,22 +249,8 @@ function VideoTile({
         transition={{ duration: 3, repeat: Infinity, ease: 'easeInOut' }}
       />
 
-      {isCameraOff || !stream ? (
-        <div className="absolute inset-0 flex flex-col items-center justify-center bg-slate-800">
-          <ColorAvatar
-            name={participant.displayName}
-            color={participant.avatarColor}
-            size={isMobile ? 'lg' : 'xl'}
-            showBorder
-            borderGradient={participant.colorTheme.gradient}
-            animate
-          />
-          <p className="text-white font-medium mt-2 md:mt-4 text-sm md:text-base">{isLocal ? 'You' : participant.displayName}</p>
-          {isCameraOff && (
-            <p className="text-white/50 text-xs md:text-sm mt-1">Camera off</p>
-          )}
-        </div>
-      ) : (
+      {/* Kept mounted while the camera is off: it is also what plays the participant's audio */}
+      {stream && (
         <video
           ref={videoRef}
           autoPlay
@@ -141,7 +258,8 @@ function VideoTile({
           muted={isLocal}
           className={cn(
             "absolute inset-0 w-full h-full",
-            isMobile ? "object-cover" : "object-cover"
+            isMobile ? "object-cover" : "object-cover",
+            isCameraOff && "invisible"
           )}
           style={{
             // Mirror local video for selfie view
@@ -150,6 +268,61 @@ function VideoTile({
         />
       )}
 
+      {(isCameraOff || !stream) && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center bg-slate-800">
+          <ColorAvatar
+            name={participant.displayName}
+            color={participant.avatarColor}
+            size={isMobile ? 'lg' : 'xl'}
+            showBorder
+            borderGradient={participant.colorTheme.gradient}
+            animate
+          />
+          <p className="text-white font-medium mt-2 md:mt-4 text-sm md:text-base">{isLocal ? 'You' : participant.displayName}</p>
+          {isPending ? (
+            <motion.p
+              className="text-white/50 text-xs md:text-sm mt-1"
+              animate={{ opacity: [1, 0.4, 1] }}
+              transition={{ duration: 1.5, repeat: Infinity }}
+            >
+              Ringing…
+            </motion.p>
+          ) : isCameraOff && (
+            <p className="text-white/50 text-xs md:text-sm mt-1">Camera off</p>
+          )}
+        </div>
+      )}
+
+      {/* Reconnecting */}
+      <AnimatePresence>
+        {isReconnecting && (
+          <motion.div
+            className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-slate-900/70 backdrop-blur-sm"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <Loader2 className="w-6 h-6 md:w-8 md:h-8 text-white animate-spin" />
+            <p className="text-white/80 text-xs md:text-sm font-medium">Reconnecting…</p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* On Hold */}
+      <AnimatePresence>
+        {isOnHold && !isReconnecting && (
+          <motion.div
+            className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-slate-900/70 backdrop-blur-sm"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <Pause className="w-6 h-6 md:w-8 md:h-8 text-amber-300" />
+            <p className="text-white/80 text-xs md:text-sm font-medium">On hold</p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Participant Info */}
       <div className="absolute bottom-2 md:bottom-4 left-2 md:left-4 right-2 md:right-4 flex items-center justify-between">
         <div className="flex items-center gap-1.5 md:gap-2 backdrop-blur-md bg-black/30 rounded-full px-2 md:px-3 py-1 md:py-1.5">
@@ -157,26 +330,78 @@ function VideoTile({
             {isLocal ? 'You' : participant.displayName}
           </span>
           {isMuted && <MicOff className="w-3 md:w-4 h-3 md:h-4 text-red-400" />}
+          {isScreenSharing && <ScreenShare className="w-3 md:w-4 h-3 md:h-4 text-purple-300" />}
         </div>
       </div>
 
+      {/* Raised Hand */}
+      <AnimatePresence>
+        {isHandRaised && (
+          <motion.div
+            className="absolute top-2 md:top-4 left-2 md:left-4 flex items-center gap-1.5 backdrop-blur-md bg-amber-500/80 rounded-full px-2 md:px-3 py-1 md:py-1.5"
+            initial={{ opacity: 0, scale: 0.5 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.5 }}
+          >
+            <motion.span
+              animate={{ rotate: [0, 15, -10, 15, 0] }}
+              transition={{ duration: 1.2, repeat: Infinity, repeatDelay: 1.5 }}
+            >
+              <Hand className="w-3 md:w-4 h-3 md:h-4 text-white" />
+            </motion.span>
+            {!isMobile && <span className="text-white text-xs md:text-sm font-medium">Hand raised</span>}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Connection Quality */}
+      {stats && (
+        <SignalBadge quality={stats.quality} isExpanded={showStats} onClick={() => setShowStats(!showStats)} />
+      )}
+      <AnimatePresence>
+        {stats && showStats && <StatsPanel stats={stats} />}
+      </AnimatePresence>
+
       {/* Speaking Indicator */}
-      <motion.div
-        className="absolute inset-0 border-2 md:border-4 rounded-2xl md:rounded-3xl pointer-events-none"
-        animate={{
-          borderColor: ['rgba(139, 92, 246, 0)', 'rgba(139, 92, 246, 0.5)', 'rgba(139, 92, 246, 0)'],
-        }}
-        transition={{ duration: 2, repeat: Infinity }}
-      />
+      <AnimatePresence>
+        {isSpeaking && (
+          <motion.div
+            className="absolute inset-0 border-2 md:border-4 rounded-2xl md:rounded-3xl pointer-events-none"
+            initial={{ opacity: 0 }}
+            animate={{
+              opacity: 1,
+              borderColor: ['rgba(139, 92, 246, 0.5)', 'rgba(139, 92, 246, 0.9)', 'rgba(139, 92, 246, 0.5)'],
+            }}
+            exit={{ opacity: 0 }}
+            transition={{ opacity: { duration: 0.2 }, borderColor: { duration: 1, repeat: Infinity } }}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Reactions sent by this participant */}
+      <div className="absolute inset-0 pointer-events-none overflow-hidden">
+        <AnimatePresence>
+          {reactions.map((reaction) => (
+            <FloatingReaction key={reaction.id} reaction={reaction} spread={isMobile ? 40 : 80} />
+          ))}
+        </AnimatePresence>
+      </div>
     </motion.div>
   );
 }
 
-function FloatingReaction({ reaction }: { reaction: Reaction }) {
+// Stable horizontal offset in [-spread, spread] so a reaction doesn't jump on re-render
+function getReactionOffset(id: string, spread: number) {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  return ((Math.abs(hash) % 1000) / 1000) * spread * 2 - spread;
+}
+
+function FloatingReaction({ reaction, spread = 100 }: { reaction: Reaction; spread?: number }) {
   return (
     <motion.div
       className="absolute text-5xl pointer-events-none"
-      initial={{ opacity: 1, y: 0, x: Math.random() * 200 - 100, scale: 0 }}
+      initial={{ opacity: 1, y: 0, x: getReactionOffset(reaction.id, spread), scale: 0 }}
       animate={{
         opacity: [1, 1, 0],
         y: -200,
@@ -200,18 +425,46 @@ export function CallOverlay({
   isMuted,
   isCameraOff,
   isScreenSharing,
+  isHandRaised,
+  peerMediaStates,
+  speakingIds,
+  dominantSpeakerId,
+  chatMessages,
+  reconnectingPeers,
+  peerStats,
+  roster,
+  onAddParticipants,
+  heldCallName,
+  onSwapCalls,
+  isOnHold,
+  onToggleHold,
+  isRecording,
+  recordingPeers,
+  onToggleRecording,
   onToggleMute,
   onToggleCamera,
   onToggleScreenShare,
+  onToggleHandRaise,
+  onSendChatMessage,
 }: CallOverlayProps) {
-  const { user, reactions, addReaction } = useApp();
+  const { user, friends, reactions, addReaction, devicePreferences } = useApp();
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [showChat, setShowChat] = useState(false);
+  const [readChatCount, setReadChatCount] = useState(0);
+  const [showDeviceMenu, setShowDeviceMenu] = useState(false);
+  const [showParticipants, setShowParticipants] = useState(false);
+  // Recorders whose notice we've already acknowledged
+  const [acknowledgedRecorders, setAcknowledgedRecorders] = useState<string[]>([]);
   const [callDuration, setCallDuration] = useState(0);
   const [layout, setLayout] = useState<'grid' | 'spotlight'>('grid');
   const isMobile = useIsMobile();
   const totalParticipants = participants.length + 1;
 
+  // Someone who stops and starts again gets a fresh notice
+  useEffect(() => {
+    setAcknowledgedRecorders((prev) => prev.filter((id) => recordingPeers.includes(id)));
+  }, [recordingPeers]);
+
   useEffect(() => {
     if (callState === 'connected') {
       const interval = setInterval(() => {
@@ -239,11 +492,23 @@ export function CallOverlay({
     if (count === 1) return 'grid-cols-1';
     if (count === 2) return 'grid-cols-2';
     if (count <= 4) return 'grid-cols-2 grid-rows-2';
-    return 'grid-cols-3 grid-rows-2';
+    if (count <= 6) return 'grid-cols-3 grid-rows-2';
+    // Larger (SFU) calls
+    if (count <= 9) return 'grid-cols-3 grid-rows-3';
+    return 'grid-cols-4 auto-rows-fr';
   };
 
+  // Everything is read while the panel is open
+  useEffect(() => {
+    if (showChat) setReadChatCount(chatMessages.length);
+  }, [showChat, chatMessages.length]);
+
   if (!user) return null;
 
+  const unreadChatCount = showChat
+    ? 0
+    : chatMessages.slice(readChatCount).filter((m) => m.senderId !== user.id).length;
+
   const localParticipant: Friend = {
     id: user.id,
     username: user.username,
@@ -255,6 +520,32 @@ export function CallOverlay({
     unreadCount: 0,
   };
 
+  const tileUserIds = callState === 'connected' ? [user.id, ...participants.map((p) => p.id)] : [];
+  // Spotlight follows whoever last held the floor, falling back to the first remote participant
+  const spotlightId = participants.some((p) => p.id === dominantSpeakerId) ? dominantSpeakerId : participants[0]?.id;
+  const reactionsFrom = (userId: string) => reactions.filter((reaction) => reaction.userId === userId);
+
+  // The roster is empty until presence first syncs; until then nobody counts as pending
+  const isPending = (userId: string) => roster.length > 0 && !roster.includes(userId) && !remoteStreams.has(userId);
+  const toRosterEntry = (userId: string): Friend =>
+    userId === user.id ? localParticipant : participants.find((p) => p.id === userId) ?? friends.find((f) => f.id === userId) ?? {
+      id: userId,
+      username: 'unknown',
+      displayName: 'Unknown User',
+      avatarColor: stringToColor(userId),
+      colorTheme: colorThemes[0],
+      status: 'online',
+      lastSeen: new Date(),
+      unreadCount: 0,
+    };
+  const inCall = roster.length > 0 ? roster.map(toRosterEntry) : [localParticipant];
+  const invited = participants.filter((p) => isPending(p.id));
+  const recorderNames = recordingPeers.map((id) => toRosterEntry(id).displayName).join(', ');
+  const showRecordingNotice = recordingPeers.some((id) => !acknowledgedRecorders.includes(id));
+  const addCandidates = friends.filter(
+    (f) => f.status === 'online' && !roster.includes(f.id) && !participants.some((p) => p.id === f.id)
+  );
+
   return (
     <motion.div
       className="fixed inset-0 z-50 bg-slate-900"
@@ -265,10 +556,10 @@ export function CallOverlay({
       {/* Background Gradient */}
       <div className="absolute inset-0 bg-gradient-to-br from-purple-900/30 via-slate-900 to-cyan-900/30" />
 
-      {/* Floating Reactions */}
+      {/* Floating Reactions without a visible tile (e.g. while ringing) */}
       <div className="absolute inset-0 pointer-events-none overflow-hidden">
         <AnimatePresence>
-          {reactions.map((reaction) => (
+          {reactions.filter((reaction) => !tileUserIds.includes(reaction.userId)).map((reaction) => (
             <FloatingReaction key={reaction.id} reaction={reaction} />
           ))}
         </AnimatePresence>
@@ -374,24 +665,41 @@ export function CallOverlay({
               isLocal
               isMuted={isMuted}
               isCameraOff={isCameraOff}
+              isScreenSharing={isScreenSharing}
+              isHandRaised={isHandRaised}
+              isSpeaking={speakingIds.includes(user.id)}
+              isOnHold={isOnHold}
               isMain={layout === 'spotlight' && participants.length === 0}
               isMobile={isMobile}
               participantCount={totalParticipants}
+              reactions={reactionsFrom(user.id)}
             />
 
             {/* Remote Videos */}
-            {participants.map((participant, index) => (
-              <VideoTile
-                key={participant.id}
-                stream={remoteStreams.get(participant.id) || null}
-                participant={participant}
-                isMuted={false}
-                isCameraOff={!remoteStreams.has(participant.id)}
-                isMain={layout === 'spotlight' && index === 0}
-                isMobile={isMobile}
-                participantCount={totalParticipants}
-              />
-            ))}
+            {participants.map((participant) => {
+              const mediaState = peerMediaStates.get(participant.id);
+              return (
+                <VideoTile
+                  key={participant.id}
+                  stream={remoteStreams.get(participant.id) || null}
+                  participant={participant}
+                  isMuted={mediaState?.isMuted ?? false}
+                  isCameraOff={!remoteStreams.has(participant.id) || (mediaState?.isCameraOff ?? false)}
+                  isScreenSharing={mediaState?.isScreenSharing}
+                  isHandRaised={mediaState?.isHandRaised}
+                  isSpeaking={speakingIds.includes(participant.id)}
+                  isReconnecting={reconnectingPeers.includes(participant.id)}
+                  isPending={isPending(participant.id)}
+                  isOnHold={mediaState?.isOnHold}
+                  isMain={layout === 'spotlight' && participant.id === spotlightId}
+                  isMobile={isMobile}
+                  participantCount={totalParticipants}
+                  reactions={reactionsFrom(participant.id)}
+                  sinkId={devicePreferences.audiooutput}
+                  stats={peerStats.get(participant.id)}
+                />
+              );
+            })}
           </div>
         </div>
       )}
@@ -433,6 +741,29 @@ export function CallOverlay({
               </div>
             )}
           </div>
+          {heldCallName && (
+            <button
+              onClick={onSwapCalls}
+              className="flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-amber-500/20 text-amber-300 text-xs font-medium max-w-[9rem] sm:max-w-[14rem] hover:bg-amber-500/30 transition-colors"
+              title="Switch to the held call"
+            >
+              <ArrowLeftRight className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate">{heldCallName} on hold</span>
+            </button>
+          )}
+          {(isRecording || recordingPeers.length > 0) && (
+            <div
+              className="flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-red-500/20 text-red-300 text-xs font-semibold max-w-[9rem] sm:max-w-[14rem]"
+              title={isRecording ? 'You are recording this call' : `${recorderNames} recording`}
+            >
+              <motion.span
+                className="w-2 h-2 rounded-full bg-red-500 flex-shrink-0"
+                animate={{ opacity: [1, 0.3, 1] }}
+                transition={{ duration: 1.5, repeat: Infinity }}
+              />
+              <span className="truncate">REC</span>
+            </div>
+          )}
         </div>
 
         <div className="flex items-center gap-1.5 md:gap-2">
@@ -445,22 +776,116 @@ export function CallOverlay({
             {layout === 'grid' ? <Maximize2 className="w-4 md:w-5 h-4 md:h-5" /> : <Grid3X3 className="w-4 md:w-5 h-4 md:h-5" />}
           </motion.button>
           <motion.button
-            className="hidden sm:flex w-8 md:w-10 h-8 md:h-10 rounded-lg md:rounded-xl bg-white/10 items-center justify-center text-white hover:bg-white/20 transition-all"
+            onClick={() => { setShowParticipants(!showParticipants); setShowDeviceMenu(false); }}
+            className={cn(
+              'relative w-8 md:w-10 h-8 md:h-10 rounded-lg md:rounded-xl flex items-center justify-center text-white transition-all',
+              showParticipants ? 'bg-white/30' : 'bg-white/10 hover:bg-white/20'
+            )}
             whileHover={{ scale: 1.1 }}
             whileTap={{ scale: 0.9 }}
+            aria-label="Participants"
           >
             <Users className="w-4 md:w-5 h-4 md:h-5" />
+            {invited.length > 0 && (
+              <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-amber-400 animate-pulse" />
+            )}
           </motion.button>
           <motion.button
-            className="w-8 md:w-10 h-8 md:h-10 rounded-lg md:rounded-xl bg-white/10 flex items-center justify-center text-white hover:bg-white/20 transition-all"
+            onClick={() => { setShowDeviceMenu(!showDeviceMenu); setShowParticipants(false); }}
+            className={cn(
+              'w-8 md:w-10 h-8 md:h-10 rounded-lg md:rounded-xl flex items-center justify-center text-white transition-all',
+              showDeviceMenu ? 'bg-white/30' : 'bg-white/10 hover:bg-white/20'
+            )}
             whileHover={{ scale: 1.1 }}
             whileTap={{ scale: 0.9 }}
+            aria-label="Devices"
           >
             <MoreHorizontal className="w-4 md:w-5 h-4 md:h-5" />
           </motion.button>
         </div>
       </motion.div>
 
+      {/* Device Menu */}
+      <AnimatePresence>
+        {showDeviceMenu && (
+          <>
+            <div className="absolute inset-0 z-20" onClick={() => setShowDeviceMenu(false)} />
+            <motion.div
+              className="absolute top-16 md:top-20 right-3 md:right-6 z-30 w-72 max-w-[calc(100vw-1.5rem)] backdrop-blur-xl bg-slate-800/90 border border-white/20 rounded-2xl p-4 shadow-xl"
+              initial={{ opacity: 0, y: -10, scale: 0.95 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: -10, scale: 0.95 }}
+            >
+              <h4 className="text-white font-semibold text-sm mb-3">Devices</h4>
+              <DeviceSettings compact />
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+
+      {/* Participants */}
+      <AnimatePresence>
+        {showParticipants && (
+          <>
+            <div className="absolute inset-0 z-20" onClick={() => setShowParticipants(false)} />
+            <CallParticipantsPanel
+              inCall={inCall}
+              invited={invited}
+              candidates={addCandidates}
+              currentUserId={user.id}
+              onInvite={onAddParticipants}
+            />
+          </>
+        )}
+      </AnimatePresence>
+
+      {/* Recording Consent */}
+      <AnimatePresence>
+        {showRecordingNotice && (
+          <motion.div
+            className="absolute top-16 md:top-20 left-1/2 -translate-x-1/2 z-30 w-[calc(100%-1.5rem)] max-w-md backdrop-blur-xl bg-slate-800/90 border border-red-500/40 rounded-2xl p-4 shadow-xl"
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+          >
+            <div className="flex items-start gap-3">
+              <Circle className="w-4 h-4 mt-0.5 text-red-500 fill-red-500 flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="text-white text-sm font-medium">{recorderNames} started recording this call</p>
+                <p className="text-white/50 text-xs mt-1">Your voice and video are being recorded. Leave if you don't agree.</p>
+              </div>
+            </div>
+            <div className="flex gap-2 mt-3">
+              <button
+                onClick={onEndCall}
+                className="flex-1 py-2 rounded-xl bg-white/10 text-white text-sm font-medium hover:bg-white/20 transition-colors"
+              >
+                Leave call
+              </button>
+              <button
+                onClick={() => setAcknowledgedRecorders(recordingPeers)}
+                className="flex-1 py-2 rounded-xl bg-gradient-to-r from-purple-500 to-pink-500 text-white text-sm font-medium"
+              >
+                Continue
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Call Chat */}
+      <AnimatePresence>
+        {showChat && (
+          <CallChatPanel
+            messages={chatMessages}
+            currentUserId={user.id}
+            onSend={onSendChatMessage}
+            onClose={() => setShowChat(false)}
+            isMobile={isMobile}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Emoji Picker */}
       <AnimatePresence>
         {showEmojiPicker && (
@@ -547,13 +972,65 @@ export function CallOverlay({
             <Smile className="w-5 h-5 md:w-6 md:h-6" />
           </motion.button>
 
+          <motion.button
+            onClick={onToggleHandRaise}
+            className={cn(
+              'w-12 h-12 md:w-14 md:h-14 rounded-xl md:rounded-2xl flex items-center justify-center transition-all',
+              isHandRaised ? 'bg-amber-500 text-white' : 'bg-white/10 text-white hover:bg-white/20'
+            )}
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
+            aria-label={isHandRaised ? 'Lower hand' : 'Raise hand'}
+          >
+            <Hand className="w-5 h-5 md:w-6 md:h-6" />
+          </motion.button>
+
+          {callState === 'connected' && !isMobile && isRecordingSupported() && (
+            <motion.button
+              onClick={onToggleRecording}
+              className={cn(
+                'w-12 h-12 md:w-14 md:h-14 rounded-xl md:rounded-2xl flex items-center justify-center transition-all',
+                isRecording ? 'bg-red-500 text-white' : 'bg-white/10 text-white hover:bg-white/20'
+              )}
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+              aria-label={isRecording ? 'Stop recording' : 'Record call'}
+            >
+              {isRecording ? <Square className="w-5 h-5 md:w-6 md:h-6 fill-white" /> : <Circle className="w-5 h-5 md:w-6 md:h-6 text-red-400 fill-red-400" />}
+            </motion.button>
+          )}
+
+          {callState === 'connected' && (
+            <motion.button
+              onClick={onToggleHold}
+              className={cn(
+                'w-12 h-12 md:w-14 md:h-14 rounded-xl md:rounded-2xl flex items-center justify-center transition-all',
+                isOnHold ? 'bg-amber-500 text-white' : 'bg-white/10 text-white hover:bg-white/20'
+              )}
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+              aria-label={isOnHold ? 'Resume call' : 'Hold call'}
+            >
+              {isOnHold ? <Play className="w-5 h-5 md:w-6 md:h-6" /> : <Pause className="w-5 h-5 md:w-6 md:h-6" />}
+            </motion.button>
+          )}
+
           <motion.button
             onClick={() => setShowChat(!showChat)}
-            className="w-12 h-12 md:w-14 md:h-14 rounded-xl md:rounded-2xl bg-white/10 flex items-center justify-center text-white hover:bg-white/20 transition-all"
+            className={cn(
+              'relative w-12 h-12 md:w-14 md:h-14 rounded-xl md:rounded-2xl flex items-center justify-center text-white transition-all',
+              showChat ? 'bg-white/30' : 'bg-white/10 hover:bg-white/20'
+            )}
             whileHover={{ scale: 1.1 }}
             whileTap={{ scale: 0.9 }}
+            aria-label="Call chat"
           >
             <MessageCircle className="w-5 h-5 md:w-6 md:h-6" />
+            {unreadChatCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+                {unreadChatCount > 9 ? '9+' : unreadChatCount}
+              </span>
+            )}
           </motion.button>
 
           <motion.button
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, UserPlus } from 'lucide-react';
+import { cn } from '@/utils/cn';
+import { Friend } from '@/types';
+import { ColorAvatar } from './ColorAvatar';
+
+type CallParticipantsPanelProps = {
+  // People present in the room, per the call channel's roster
+  inCall: Friend[];
+  // Invited but not (yet) in the room
+  invited: Friend[];
+  // Friends who could be added
+  candidates: Friend[];
+  currentUserId: string;
+  onInvite: (userIds: string[]) => void;
+};
+
+// Roster popover for a running call, with an "Add people" picker
+export function CallParticipantsPanel({ inCall, invited, candidates, currentUserId, onInvite }: CallParticipantsPanelProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const toggle = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  };
+
+  const handleInvite = () => {
+    if (selected.length === 0) return;
+    onInvite(selected);
+    setSelected([]);
+  };
+
+  return (
+    <motion.div
+      className="absolute top-16 md:top-20 right-3 md:right-6 z-30 w-72 max-w-[calc(100vw-1.5rem)] max-h-[70vh] flex flex-col backdrop-blur-xl bg-slate-800/90 border border-white/20 rounded-2xl shadow-xl"
+      initial={{ opacity: 0, y: -10, scale: 0.95 }}
+      animate={{ opacity: 1, y: 0, scale: 1 }}
+      exit={{ opacity: 0, y: -10, scale: 0.95 }}
+    >
+      <div className="p-4 space-y-4 overflow-y-auto">
+        <div>
+          <h4 className="text-white font-semibold text-sm mb-2">In call ({inCall.length})</h4>
+          <div className="space-y-2">
+            {inCall.map(person => (
+              <div key={person.id} className="flex items-center gap-2">
+                <ColorAvatar name={person.displayName} color={person.avatarColor} size="sm" />
+                <span className="text-white text-sm truncate">
+                  {person.id === currentUserId ? 'You' : person.displayName}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {invited.length > 0 && (
+          <div>
+            <h4 className="text-white/60 font-semibold text-xs uppercase tracking-wide mb-2">Ringing</h4>
+            <div className="space-y-2">
+              {invited.map(person => (
+                <div key={person.id} className="flex items-center gap-2 opacity-60">
+                  <ColorAvatar name={person.displayName} color={person.avatarColor} size="sm" />
+                  <span className="text-white text-sm truncate flex-1">{person.displayName}</span>
+                  <motion.span
+                    className="text-white/60 text-xs"
+                    animate={{ opacity: [1, 0.4, 1] }}
+                    transition={{ duration: 1.5, repeat: Infinity }}
+                  >
+                    Calling…
+                  </motion.span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <h4 className="text-white/60 font-semibold text-xs uppercase tracking-wide mb-2">Add people</h4>
+          {candidates.length === 0 ? (
+            <p className="text-white/40 text-sm">No other friends online</p>
+          ) : (
+            <div className="space-y-1">
+              {candidates.map(friend => {
+                const isSelected = selected.includes(friend.id);
+                return (
+                  <button
+                    key={friend.id}
+                    onClick={() => toggle(friend.id)}
+                    className={cn(
+                      'w-full flex items-center gap-2 p-2 rounded-xl transition-colors text-left',
+                      isSelected ? 'bg-white/20' : 'hover:bg-white/10'
+                    )}
+                  >
+                    <ColorAvatar name={friend.displayName} color={friend.avatarColor} size="sm" />
+                    <span className="text-white text-sm truncate flex-1">{friend.displayName}</span>
+                    <div className={cn(
+                      'w-5 h-5 rounded-full border-2 flex items-center justify-center flex-shrink-0',
+                      isSelected ? 'bg-green-500 border-green-500' : 'border-white/30'
+                    )}>
+                      {isSelected && <Check className="w-3 h-3 text-white" />}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {candidates.length > 0 && (
+        <div className="p-3 border-t border-white/10">
+          <button
+            onClick={handleInvite}
+            disabled={selected.length === 0}
+            className="w-full py-2 rounded-xl bg-gradient-to-r from-purple-500 to-pink-500 text-white text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-40"
+          >
+            <UserPlus className="w-4 h-4" />
+            {selected.length > 1 ? `Invite ${selected.length} people` : 'Invite'}
+          </button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
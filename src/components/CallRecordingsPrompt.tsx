@@ -0,0 +1,60 @@
+import { motion } from 'framer-motion';
+import { Download, Film, X } from 'lucide-react';
+import { CallRecording } from '@/hooks/useCallRecording';
+import { formatFileSize } from '@/lib/attachments';
+
+type CallRecordingsPromptProps = {
+  recordings: CallRecording[];
+  onDismiss: () => void;
+};
+
+function formatLength(seconds: number) {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+// Offered once the call is over; recordings only live in memory until downloaded
+export function CallRecordingsPrompt({ recordings, onDismiss }: CallRecordingsPromptProps) {
+  return (
+    <motion.div
+      className="fixed bottom-24 md:bottom-6 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-md backdrop-blur-xl bg-slate-800/90 border border-white/20 rounded-2xl p-4 shadow-xl"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-white font-semibold text-sm flex items-center gap-2">
+          <Film className="w-4 h-4" />
+          {recordings.length > 1 ? 'Call recordings ready' : 'Call recording ready'}
+        </h4>
+        <button
+          onClick={onDismiss}
+          className="p-1.5 rounded-lg text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+          aria-label="Discard recordings"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="space-y-2">
+        {recordings.map(recording => (
+          <a
+            key={recording.url}
+            href={recording.url}
+            download={recording.filename}
+            className="flex items-center gap-3 p-2.5 rounded-xl bg-white/5 hover:bg-white/10 transition-colors"
+          >
+            <div className="min-w-0 flex-1">
+              <p className="text-white text-sm truncate">{recording.filename}</p>
+              <p className="text-white/40 text-xs">
+                {formatLength(recording.duration)} · {formatFileSize(recording.size)}
+              </p>
+            </div>
+            <Download className="w-4 h-4 text-white/70 flex-shrink-0" />
+          </a>
+        ))}
+      </div>
+      <p className="text-white/40 text-xs mt-3">Recordings are discarded when you close this.</p>
+    </motion.div>
+  );
+}
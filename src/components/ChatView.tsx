@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   ArrowLeft,
@@ -13,50 +13,244 @@ import {
   X,
   UserMinus,
   Trash2,
+  Loader2,
+  Clock,
+  Check,
+  CheckCheck,
+  AlertCircle,
+  RotateCw,
+  ChevronLeft,
+  Upload,
+  MoreHorizontal,
+  Reply,
+  Pencil,
+  Ban,
+  Users,
 } from 'lucide-react';
 import { cn } from '@/utils/cn';
-import { Friend } from '@/types';
-import { useApp } from '@/context/AppContext';
-import { ColorAvatar } from './ColorAvatar';
+import { colorThemes, Conversation, Message } from '@/types';
+import { DeleteScope, useApp } from '@/context/AppContext';
+import { getMessagePreview } from '@/lib/messageStore';
+import { useVoiceRecorder, VoiceClip } from '@/hooks/useVoiceRecorder';
+import { ColorAvatar, stringToColor } from './ColorAvatar';
+import { GroupAvatar } from './GroupAvatar';
+import { GroupMembersModal } from './GroupMembersModal';
+import { VoiceWaveform } from './VoiceWaveform';
+import { VoiceNotePlayer } from './VoiceNotePlayer';
+import { AttachmentPreview } from './AttachmentPreview';
+import { GifPicker } from './GifPicker';
+import { MessageActions } from './MessageActions';
+import { MessageReactionBar } from './MessageReactionBar';
 
 type ChatViewProps = {
-  friend: Friend;
+  conversation: Conversation;
   onBack: () => void;
   onCall: (video: boolean) => void;
   onRemoveFriend: (friendId: string) => void;
 };
 
+// Horizontal drag (px) away from the mic button that cancels a voice note
+const SLIDE_TO_CANCEL_PX = 80;
+
+// How long a touch must rest on a message to open its action menu
+const LONG_PRESS_MS = 500;
+
 const emojis = ['😀', '😂', '😍', '🥳', '🤔', '😎', '🔥', '💯', '❤️', '👍', '🎉', '✨', '🙌', '😭', '🤣', '💀'];
 
-export function ChatView({ friend, onBack, onCall, onRemoveFriend }: ChatViewProps) {
-  const { messages, sendMessage, user, showEmojiPicker, setShowEmojiPicker, friendTyping, setIsTyping } = useApp();
+export function ChatView({ conversation, onBack, onCall, onRemoveFriend }: ChatViewProps) {
+  const {
+    messages,
+    hasMoreMessages,
+    isLoadingMessages,
+    loadOlderMessages,
+    sendMessage,
+    retryMessage,
+    editMessage,
+    deleteMessage,
+    toggleMessageReaction,
+    sendAttachment,
+    downloadAttachment,
+    getAttachmentUrl,
+    transferProgress,
+    markMessagesRead,
+    user,
+    showEmojiPicker,
+    setShowEmojiPicker,
+    friendTyping,
+    setIsTyping,
+    friends,
+    addGroupMembers,
+    removeGroupMember,
+  } = useApp();
+  const { friend, group } = conversation;
+  const themeGradient = friend?.colorTheme.gradient ?? user?.colorTheme.gradient ?? colorThemes[0].gradient;
+  const [showMembers, setShowMembers] = useState(false);
+
+  // Group members aren't necessarily friends, so fall back to the group's own profile snapshot
+  const getMemberName = (memberId: string) => {
+    if (memberId === user?.id) return 'You';
+    if (friend?.id === memberId) return friend.displayName;
+    return group?.members.find(m => m.id === memberId)?.displayName ?? 'Someone';
+  };
+  const getMemberColor = (memberId: string) => {
+    if (friend?.id === memberId) return friend.avatarColor;
+    return group?.members.find(m => m.id === memberId)?.avatarColor ?? stringToColor(memberId);
+  };
   const [inputValue, setInputValue] = useState('');
-  const [isRecording, setIsRecording] = useState(false);
+  const [slideOffset, setSlideOffset] = useState(0);
+  const slideStartXRef = useRef<number | null>(null);
   const [showMenu, setShowMenu] = useState(false);
   const [showRemoveConfirm, setShowRemoveConfirm] = useState(false);
+  const [showGifPicker, setShowGifPicker] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [attachmentError, setAttachmentError] = useState('');
+  const [actionMessageId, setActionMessageId] = useState<string | null>(null);
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [editing, setEditing] = useState<Message | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  // Only follow the conversation when a newer message arrives, not when older history is prepended
+  const lastMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [lastMessageId]);
+
+  // Send read receipts only for incoming messages that have actually been on screen
+  const unreadIncomingIds = messages
+    .filter(m => m.senderId !== user?.id && !m.read)
+    .map(m => m.id)
+    .join(',');
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container || !unreadIncomingIds) return;
+
+    const seen = new Set<string>();
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+    const flush = () => {
+      flushTimer = null;
+      if (document.visibilityState !== 'visible' || seen.size === 0) return;
+      markMessagesRead(Array.from(seen));
+      seen.clear();
+    };
+
+    const observer = new IntersectionObserver((entries) => {
+      entries.forEach(entry => {
+        const id = (entry.target as HTMLElement).dataset.messageId;
+        if (entry.isIntersecting && id) seen.add(id);
+      });
+      if (!flushTimer) flushTimer = setTimeout(flush, 300);
+    }, { root: container, threshold: 0.6 });
+
+    unreadIncomingIds.split(',').forEach(id => {
+      const el = container.querySelector(`[data-message-id="${id}"]`);
+      if (el) observer.observe(el);
+    });
+
+    // Messages seen while the tab was hidden are acknowledged when it comes back
+    document.addEventListener('visibilitychange', flush);
+    return () => {
+      observer.disconnect();
+      document.removeEventListener('visibilitychange', flush);
+      if (flushTimer) clearTimeout(flushTimer);
+    };
+  }, [unreadIncomingIds, markMessagesRead]);
+
+  const handleScroll = async () => {
+    const container = scrollContainerRef.current;
+    if (!container || container.scrollTop > 80 || !hasMoreMessages || isLoadingMessages) return;
+
+    // Keep the viewport anchored on the same message after older ones are prepended
+    const previousHeight = container.scrollHeight;
+    await loadOlderMessages();
+    requestAnimationFrame(() => {
+      container.scrollTop += container.scrollHeight - previousHeight;
+    });
+  };
+
+  // Extra fields for the next outgoing message when replying
+  const replyExtras = replyTo ? { replyToId: replyTo.id } : undefined;
 
-  const handleSend = async () => {
+  const handleSend = () => {
     if (!inputValue.trim()) return;
-    await sendMessage(inputValue, 'text');
+    if (editing) {
+      editMessage(editing.id, inputValue);
+      setEditing(null);
+      setInputValue('');
+      return;
+    }
     setInputValue('');
+    sendMessage(inputValue, 'text', undefined, replyExtras);
+    setReplyTo(null);
     setIsTyping(false);
   };
 
+  const startReply = (message: Message) => {
+    setEditing(null);
+    setReplyTo(message);
+    inputRef.current?.focus();
+  };
+
+  const startEdit = (message: Message) => {
+    setReplyTo(null);
+    setEditing(message);
+    setInputValue(message.content);
+    inputRef.current?.focus();
+  };
+
+  const cancelComposerMode = () => {
+    if (editing) setInputValue('');
+    setEditing(null);
+    setReplyTo(null);
+  };
+
+  const handleDeleteMessage = (message: Message, scope: DeleteScope) => {
+    deleteMessage(message.id, scope);
+    if (editing?.id === message.id) cancelComposerMode();
+    if (replyTo?.id === message.id) setReplyTo(null);
+  };
+
+  // Bring the quoted message into view and flash it
+  const jumpToMessage = (messageId: string) => {
+    const el = scrollContainerRef.current?.querySelector(`[data-message-id="${messageId}"]`);
+    if (!el) return;
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(messageId);
+    setTimeout(() => setHighlightedId(current => (current === messageId ? null : current)), 1500);
+  };
+
+  // Touch and hold opens the action menu on devices without hover
+  const handleBubblePointerDown = (e: React.PointerEvent, messageId: string) => {
+    if (e.pointerType === 'mouse') return;
+    longPressTimerRef.current = setTimeout(() => setActionMessageId(messageId), LONG_PRESS_MS);
+  };
+
+  const cancelLongPress = () => {
+    if (longPressTimerRef.current) {
+      clearTimeout(longPressTimerRef.current);
+      longPressTimerRef.current = null;
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setInputValue(e.target.value);
     setIsTyping(true);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && (editing || replyTo)) {
+      cancelComposerMode();
+      return;
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -67,12 +261,96 @@ export function ChatView({ friend, onBack, onCall, onRemoveFriend }: ChatViewPro
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
-  const handleEmojiClick = async (emoji: string) => {
-    await sendMessage(emoji, 'emoji');
+  const renderStatus = (message: Message) => {
+    switch (message.status) {
+      case 'pending':
+        return <Clock className="w-3 h-3" aria-label="Sending" />;
+      case 'failed':
+        return <AlertCircle className="w-3 h-3 text-red-300" aria-label="Failed to send" />;
+    }
+    if (message.read) return <CheckCheck className="w-3.5 h-3.5 text-cyan-300" aria-label="Read" />;
+    if (message.delivered) return <CheckCheck className="w-3.5 h-3.5" aria-label="Delivered" />;
+    return <Check className="w-3 h-3" aria-label="Sent" />;
+  };
+
+  const handleFiles = async (files: FileList | File[]) => {
+    setAttachmentError('');
+    for (const file of Array.from(files)) {
+      const result = await sendAttachment(file);
+      if (!result.success) setAttachmentError(result.error || 'Failed to send file');
+    }
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files?.length) handleFiles(e.target.files);
+    e.target.value = '';
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    if (e.clipboardData.files.length > 0) {
+      e.preventDefault();
+      handleFiles(e.clipboardData.files);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files.length > 0) handleFiles(e.dataTransfer.files);
+  };
+
+  const handleVoiceRecorded = useCallback((clip: VoiceClip) => {
+    sendMessage('Voice message', 'voice', clip.dataUrl, {
+      duration: clip.duration,
+      waveform: clip.waveform,
+      replyToId: replyTo?.id,
+    });
+    setReplyTo(null);
+  }, [sendMessage, replyTo]);
+
+  const recorder = useVoiceRecorder({ maxDuration: 60, onRecorded: handleVoiceRecorded });
+  const isRecording = recorder.isRecording;
+
+  // Hold the mic to record, release to send, slide left to cancel
+  const handleMicPointerDown = (e: React.PointerEvent<HTMLButtonElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    slideStartXRef.current = e.clientX;
+    setSlideOffset(0);
+    recorder.start();
+  };
+
+  const handleMicPointerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (slideStartXRef.current === null) return;
+    const offset = Math.max(0, slideStartXRef.current - e.clientX);
+    setSlideOffset(offset);
+    if (offset > SLIDE_TO_CANCEL_PX) {
+      slideStartXRef.current = null;
+      setSlideOffset(0);
+      recorder.cancel();
+    }
+  };
+
+  const handleMicPointerUp = () => {
+    if (slideStartXRef.current === null) return;
+    slideStartXRef.current = null;
+    setSlideOffset(0);
+    recorder.finish();
+  };
+
+  const handleEmojiClick = (emoji: string) => {
+    sendMessage(emoji, 'emoji', undefined, replyExtras);
     setShowEmojiPicker(false);
+    setReplyTo(null);
   };
 
   const handleRemoveFriend = () => {
+    if (!friend) return;
     onRemoveFriend(friend.id);
     setShowRemoveConfirm(false);
     setShowMenu(false);
@@ -80,7 +358,27 @@ export function ChatView({ friend, onBack, onCall, onRemoveFriend }: ChatViewPro
   };
 
   return (
-    <div className="flex flex-col h-screen bg-gradient-to-br from-slate-900 via-purple-900/50 to-slate-900">
+    <div
+      className="relative flex flex-col h-screen bg-gradient-to-br from-slate-900 via-purple-900/50 to-slate-900"
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => { if (e.currentTarget === e.target) setIsDragging(false); }}
+      onDrop={handleDrop}
+    >
+      {/* Drop Zone */}
+      <AnimatePresence>
+        {isDragging && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-4 z-40 rounded-3xl border-2 border-dashed border-white/40 bg-slate-900/80 backdrop-blur-sm flex flex-col items-center justify-center pointer-events-none"
+          >
+            <Upload className="w-10 h-10 text-white/70 mb-3" />
+            <p className="text-white font-medium">Drop files to send to {conversation.name}</p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Header */}
       <motion.div
         className="backdrop-blur-xl bg-white/5 border-b border-white/10 px-3 md:px-4 py-2 md:py-3 flex items-center gap-2 md:gap-4 safe-area-pt"
@@ -97,17 +395,21 @@ export function ChatView({ friend, onBack, onCall, onRemoveFriend }: ChatViewPro
         </motion.button>
 
         <div className="flex items-center gap-2 md:gap-3 flex-1 min-w-0">
-          <ColorAvatar
-            name={friend.displayName}
-            color={friend.avatarColor}
-            size="sm"
-            showBorder
-            borderGradient={friend.colorTheme.gradient}
-            status={friend.status}
-            animate={friend.status === 'online'}
-          />
+          {group ? (
+            <GroupAvatar members={group.members} size="sm" />
+          ) : friend && (
+            <ColorAvatar
+              name={friend.displayName}
+              color={friend.avatarColor}
+              size="sm"
+              showBorder
+              borderGradient={friend.colorTheme.gradient}
+              status={friend.status}
+              animate={friend.status === 'online'}
+            />
+          )}
           <div className="min-w-0">
-            <h2 className="text-white font-semibold text-sm md:text-base truncate">{friend.displayName}</h2>
+            <h2 className="text-white font-semibold text-sm md:text-base truncate">{conversation.name}</h2>
             <p className="text-white/50 text-xs md:text-sm truncate">
               {friendTyping ? (
                 <motion.span
@@ -117,10 +419,12 @@ export function ChatView({ friend, onBack, onCall, onRemoveFriend }: ChatViewPro
                 >
                   typing...
                 </motion.span>
-              ) : friend.status === 'online' ? (
+              ) : group ? (
+                `${group.members.length} members`
+              ) : friend?.status === 'online' ? (
                 'Active now'
               ) : (
-                `Last seen ${formatTime(friend.lastSeen)}`
+                friend && `Last seen ${formatTime(friend.lastSeen)}`
               )}
             </p>
           </div>
@@ -137,14 +441,14 @@ export function ChatView({ friend, onBack, onCall, onRemoveFriend }: ChatViewPro
           </motion.button>
           <motion.button
             onClick={() => onCall(true)}
-            className={`w-9 md:w-10 h-9 md:h-10 rounded-lg md:rounded-xl bg-gradient-to-r ${friend.colorTheme.gradient} flex items-center justify-center text-white transition-all`}
+            className={`w-9 md:w-10 h-9 md:h-10 rounded-lg md:rounded-xl bg-gradient-to-r ${themeGradient} flex items-center justify-center text-white transition-all`}
             whileHover={{ scale: 1.1 }}
             whileTap={{ scale: 0.9 }}
           >
             <Video className="w-4 md:w-5 h-4 md:h-5" />
           </motion.button>
           
-          {/* More menu with remove friend option */}
+          {/* More menu: remove friend, or group members */}
           <div className="relative">
             <motion.button
               onClick={() => setShowMenu(!showMenu)}
@@ -163,16 +467,29 @@ export function ChatView({ friend, onBack, onCall, onRemoveFriend }: ChatViewPro
                   exit={{ opacity: 0, scale: 0.9, y: -10 }}
                   className="absolute right-0 top-12 z-50 backdrop-blur-xl bg-slate-800/90 border border-white/20 rounded-2xl overflow-hidden shadow-2xl min-w-[200px]"
                 >
-                  <button
-                    onClick={() => {
-                      setShowRemoveConfirm(true);
-                      setShowMenu(false);
-                    }}
-                    className="w-full px-4 py-3 text-left text-red-400 hover:bg-red-500/20 flex items-center gap-3 transition-colors"
-                  >
-                    <UserMinus className="w-5 h-5" />
-                    <span>Remove Friend</span>
-                  </button>
+                  {group ? (
+                    <button
+                      onClick={() => {
+                        setShowMembers(true);
+                        setShowMenu(false);
+                      }}
+                      className="w-full px-4 py-3 text-left text-white hover:bg-white/10 flex items-center gap-3 transition-colors"
+                    >
+                      <Users className="w-5 h-5" />
+                      <span>Members</span>
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => {
+                        setShowRemoveConfirm(true);
+                        setShowMenu(false);
+                      }}
+                      className="w-full px-4 py-3 text-left text-red-400 hover:bg-red-500/20 flex items-center gap-3 transition-colors"
+                    >
+                      <UserMinus className="w-5 h-5" />
+                      <span>Remove Friend</span>
+                    </button>
+                  )}
                 </motion.div>
               )}
             </AnimatePresence>
@@ -180,9 +497,26 @@ export function ChatView({ friend, onBack, onCall, onRemoveFriend }: ChatViewPro
         </div>
       </motion.div>
 
+      {group && user && (
+        <GroupMembersModal
+          isOpen={showMembers}
+          onClose={() => setShowMembers(false)}
+          group={group}
+          currentUserId={user.id}
+          friends={friends}
+          onAddMembers={(ids) => addGroupMembers(group.id, ids)}
+          onRemoveMember={(id) => removeGroupMember(group.id, id)}
+          onLeave={() => {
+            removeGroupMember(group.id, user.id);
+            onBack();
+          }}
+          themeGradient={themeGradient}
+        />
+      )}
+
       {/* Remove Friend Confirmation Modal */}
       <AnimatePresence>
-        {showRemoveConfirm && (
+        {showRemoveConfirm && friend && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -235,24 +569,40 @@ export function ChatView({ friend, onBack, onCall, onRemoveFriend }: ChatViewPro
       </AnimatePresence>
 
       {/* Messages - Desktop aligned */}
-      <div className="flex-1 overflow-y-auto p-4 md:p-6 lg:p-8">
+      <div
+        ref={scrollContainerRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-y-auto p-4 md:p-6 lg:p-8"
+      >
         <div className="max-w-3xl mx-auto space-y-4">
-          {messages.length === 0 ? (
+          {isLoadingMessages && (
+            <div className="flex justify-center py-2">
+              <Loader2 className="w-5 h-5 text-white/40 animate-spin" />
+            </div>
+          )}
+
+          {messages.length === 0 && !isLoadingMessages ? (
             <motion.div
               className="flex flex-col items-center justify-center h-full text-center py-20"
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
             >
-              <ColorAvatar
-                name={friend.displayName}
-                color={friend.avatarColor}
-                size="xl"
-                showBorder
-                borderGradient={friend.colorTheme.gradient}
-                animate
-              />
-              <h3 className="text-white font-semibold text-lg mt-4">{friend.displayName}</h3>
-              <p className="text-white/50 text-sm mt-1">@{friend.username}</p>
+              {group ? (
+                <GroupAvatar members={group.members} size="xl" />
+              ) : friend && (
+                <ColorAvatar
+                  name={friend.displayName}
+                  color={friend.avatarColor}
+                  size="xl"
+                  showBorder
+                  borderGradient={friend.colorTheme.gradient}
+                  animate
+                />
+              )}
+              <h3 className="text-white font-semibold text-lg mt-4">{conversation.name}</h3>
+              <p className="text-white/50 text-sm mt-1">
+                {group ? group.members.map(m => m.displayName).join(', ') : `@${friend?.username}`}
+              </p>
               <p className="text-white/40 text-sm mt-4">
                 Start the conversation by sending a message!
               </p>
@@ -261,44 +611,141 @@ export function ChatView({ friend, onBack, onCall, onRemoveFriend }: ChatViewPro
             <AnimatePresence>
               {messages.map((message, index) => {
                 const isOwn = message.senderId === user?.id;
+                const repliedTo = message.replyToId ? messages.find(m => m.id === message.replyToId) : undefined;
                 return (
                   <motion.div
                     key={message.id}
+                    data-message-id={message.id}
                     initial={{ opacity: 0, y: 20, scale: 0.9 }}
                     animate={{ opacity: 1, y: 0, scale: 1 }}
                     exit={{ opacity: 0, y: -20, scale: 0.9 }}
                     transition={{ delay: index * 0.02 }}
-                    className={cn('flex', isOwn ? 'justify-end' : 'justify-start')}
+                    className={cn('flex flex-col gap-1', isOwn ? 'items-end' : 'items-start')}
                   >
-                    <div className={cn('flex items-end gap-2', isOwn ? 'flex-row-reverse' : 'flex-row')}>
+                    <div className={cn('group flex items-end gap-2', isOwn ? 'flex-row-reverse' : 'flex-row')}>
                       {!isOwn && (
                         <ColorAvatar
-                          name={friend.displayName}
-                          color={friend.avatarColor}
+                          name={getMemberName(message.senderId)}
+                          color={getMemberColor(message.senderId)}
                           size="sm"
                         />
                       )}
                       <motion.div
                         className={cn(
-                          'px-4 py-3 max-w-md lg:max-w-lg',
+                          'px-4 py-3 max-w-md lg:max-w-lg transition-shadow select-none md:select-text',
                           isOwn
-                            ? `bg-gradient-to-r ${friend.colorTheme.gradient} text-white rounded-2xl rounded-br-md`
-                            : 'bg-white/10 backdrop-blur-xl text-white border border-white/10 rounded-2xl rounded-bl-md'
+                            ? `bg-gradient-to-r ${themeGradient} text-white rounded-2xl rounded-br-md`
+                            : 'bg-white/10 backdrop-blur-xl text-white border border-white/10 rounded-2xl rounded-bl-md',
+                          highlightedId === message.id && 'ring-2 ring-white/70'
                         )}
                         whileHover={{ scale: 1.01 }}
+                        onPointerDown={(e) => handleBubblePointerDown(e, message.id)}
+                        onPointerUp={cancelLongPress}
+                        onPointerLeave={cancelLongPress}
+                        onPointerCancel={cancelLongPress}
+                        onContextMenu={(e) => {
+                          e.preventDefault();
+                          setActionMessageId(message.id);
+                        }}
                       >
-                        {message.type === 'gif' ? (
+                        {group && !isOwn && (
+                          <p className="text-xs font-semibold mb-1" style={{ color: getMemberColor(message.senderId) }}>
+                            {getMemberName(message.senderId)}
+                          </p>
+                        )}
+                        {message.replyToId && (
+                          <button
+                            onClick={() => jumpToMessage(message.replyToId!)}
+                            className={cn(
+                              'block w-full text-left mb-2 pl-2 border-l-2 rounded-sm text-xs',
+                              isOwn ? 'border-white/60 text-white/80' : 'border-purple-400 text-white/60'
+                            )}
+                          >
+                            <span className="block font-semibold">
+                              {repliedTo ? getMemberName(repliedTo.senderId) : 'Reply'}
+                            </span>
+                            <span className="block truncate max-w-[240px]">
+                              {repliedTo ? getMessagePreview(repliedTo) : 'Original message not loaded'}
+                            </span>
+                          </button>
+                        )}
+                        {message.deletedAt ? (
+                          <p className={cn('flex items-center gap-1.5 text-sm italic', isOwn ? 'text-white/70' : 'text-white/50')}>
+                            <Ban className="w-4 h-4" />
+                            This message was deleted
+                          </p>
+                        ) : message.type === 'voice' && message.fileUrl ? (
+                          <VoiceNotePlayer
+                            src={message.fileUrl}
+                            duration={message.duration}
+                            waveform={message.waveform}
+                          />
+                        ) : message.type === 'file' && message.attachment ? (
+                          <AttachmentPreview
+                            message={message}
+                            isOwn={isOwn}
+                            fullUrl={getAttachmentUrl(message)}
+                            progress={message.attachment.transferId ? transferProgress[message.attachment.transferId] : undefined}
+                            onDownload={() => downloadAttachment(message)}
+                          />
+                        ) : message.type === 'gif' ? (
                           <img src={message.content} alt="GIF" className="rounded-xl max-w-[200px]" />
                         ) : message.type === 'emoji' ? (
                           <span className="text-4xl">{message.content}</span>
                         ) : (
                           <p className="text-sm md:text-base break-words">{message.content}</p>
                         )}
-                        <p className={cn('text-xs mt-1', isOwn ? 'text-white/70' : 'text-white/40')}>
-                          {formatTime(message.createdAt)}
-                        </p>
+                        <div className={cn('flex items-center gap-1 text-xs mt-1', isOwn ? 'text-white/70 justify-end' : 'text-white/40')}>
+                          {message.editedAt && !message.deletedAt && <span>edited ·</span>}
+                          <span>{formatTime(message.createdAt)}</span>
+                          {isOwn && renderStatus(message)}
+                        </div>
+                        {isOwn && message.status === 'failed' && (
+                          <button
+                            onClick={() => retryMessage(message.id)}
+                            className="flex items-center gap-1 text-xs mt-1 text-red-200 hover:text-white transition-colors"
+                          >
+                            <RotateCw className="w-3 h-3" />
+                            Not sent. Tap to retry
+                          </button>
+                        )}
                       </motion.div>
+
+                      <div className="relative self-center">
+                        <button
+                          onClick={() => setActionMessageId(message.id)}
+                          className="w-7 h-7 rounded-full bg-white/10 text-white/70 hover:text-white hover:bg-white/20 flex items-center justify-center opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                          aria-label="Message actions"
+                        >
+                          <MoreHorizontal className="w-4 h-4" />
+                        </button>
+                        <AnimatePresence>
+                          {actionMessageId === message.id && (
+                            <MessageActions
+                              message={message}
+                              isOwn={isOwn}
+                              currentUserId={user?.id || ''}
+                              onReact={(emoji) => toggleMessageReaction(message.id, emoji)}
+                              onReply={() => startReply(message)}
+                              onEdit={() => startEdit(message)}
+                              onDelete={(scope) => handleDeleteMessage(message, scope)}
+                              onClose={() => setActionMessageId(null)}
+                            />
+                          )}
+                        </AnimatePresence>
+                      </div>
                     </div>
+                    {message.reactions && message.reactions.length > 0 && user && (
+                      <div className={cn(!isOwn && 'ml-10')}>
+                        <MessageReactionBar
+                          reactions={message.reactions}
+                          currentUserId={user.id}
+                          isOwn={isOwn}
+                          getName={getMemberName}
+                          onToggle={(emoji) => toggleMessageReaction(message.id, emoji)}
+                        />
+                      </div>
+                    )}
                   </motion.div>
                 );
               })}
@@ -314,11 +761,15 @@ export function ChatView({ friend, onBack, onCall, onRemoveFriend }: ChatViewPro
                 exit={{ opacity: 0, y: 10 }}
                 className="flex items-center gap-2"
               >
-                <ColorAvatar
-                  name={friend.displayName}
-                  color={friend.avatarColor}
-                  size="sm"
-                />
+                {group ? (
+                  <GroupAvatar members={group.members} size="sm" />
+                ) : friend && (
+                  <ColorAvatar
+                    name={friend.displayName}
+                    color={friend.avatarColor}
+                    size="sm"
+                  />
+                )}
                 <div className="bg-white/10 backdrop-blur-xl rounded-2xl rounded-bl-md px-4 py-3 border border-white/10">
                   <div className="flex gap-1">
                     {[0, 1, 2].map((i) => (
@@ -371,15 +822,60 @@ export function ChatView({ friend, onBack, onCall, onRemoveFriend }: ChatViewPro
         )}
       </AnimatePresence>
 
+      {/* GIF & Sticker Picker */}
+      <AnimatePresence>
+        {showGifPicker && user && (
+          <GifPicker
+            userId={user.id}
+            onSelect={(item) => {
+              sendMessage(item.url, 'gif', undefined, replyExtras);
+              setShowGifPicker(false);
+              setReplyTo(null);
+            }}
+            onClose={() => setShowGifPicker(false)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Input Area - Desktop aligned */}
       <motion.div
         className="backdrop-blur-xl bg-white/5 border-t border-white/10 p-3 md:p-4 safe-area-pb"
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
       >
+        {/* Reply / edit context */}
+        <AnimatePresence>
+          {(replyTo || editing) && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="max-w-3xl mx-auto mb-2 overflow-hidden"
+            >
+              <div className="flex items-center gap-3 px-3 py-2 rounded-xl bg-white/10 border-l-2 border-purple-400">
+                {editing ? <Pencil className="w-4 h-4 text-purple-300 flex-shrink-0" /> : <Reply className="w-4 h-4 text-purple-300 flex-shrink-0" />}
+                <div className="flex-1 min-w-0 text-xs">
+                  <p className="text-purple-300 font-semibold">
+                    {editing
+                      ? 'Editing message'
+                      : `Replying to ${replyTo!.senderId === user?.id ? 'yourself' : getMemberName(replyTo!.senderId)}`}
+                  </p>
+                  <p className="text-white/60 truncate">{getMessagePreview((editing || replyTo)!)}</p>
+                </div>
+                <button onClick={cancelComposerMode} className="text-white/60 hover:text-white" aria-label="Cancel">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         <div className="max-w-3xl mx-auto flex items-center gap-2 md:gap-3">
           <motion.button
-            onClick={() => setShowEmojiPicker(!showEmojiPicker)}
+            onClick={() => {
+              setShowEmojiPicker(!showEmojiPicker);
+              setShowGifPicker(false);
+            }}
             className="w-9 md:w-10 h-9 md:h-10 rounded-lg md:rounded-xl bg-white/10 flex items-center justify-center text-white hover:bg-white/20 transition-all flex-shrink-0"
             whileHover={{ scale: 1.1 }}
             whileTap={{ scale: 0.9 }}
@@ -387,29 +883,77 @@ export function ChatView({ friend, onBack, onCall, onRemoveFriend }: ChatViewPro
             <Smile className="w-5 h-5" />
           </motion.button>
 
+          <motion.button
+            onClick={() => {
+              setShowGifPicker(!showGifPicker);
+              setShowEmojiPicker(false);
+            }}
+            className={cn(
+              'w-9 md:w-10 h-9 md:h-10 rounded-lg md:rounded-xl flex items-center justify-center text-xs font-extrabold transition-all flex-shrink-0',
+              showGifPicker ? 'bg-white/30 text-white' : 'bg-white/10 text-white hover:bg-white/20'
+            )}
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
+            title="GIFs & stickers"
+          >
+            GIF
+          </motion.button>
+
           <div className="flex-1 relative min-w-0">
-            <input
-              type="text"
-              value={inputValue}
-              onChange={handleInputChange}
-              onKeyDown={handleKeyPress}
-              placeholder="Type a message..."
-              className="w-full px-3 md:px-4 py-2.5 md:py-3 bg-white/10 border border-white/20 rounded-xl md:rounded-2xl text-white text-sm md:text-base placeholder-white/40 focus:outline-none focus:border-purple-500 focus:ring-2 focus:ring-purple-500/20 transition-all"
-            />
+            {isRecording ? (
+              <div className="flex items-center justify-between gap-3 px-3 md:px-4 py-1 bg-red-500/10 border border-red-500/30 rounded-xl md:rounded-2xl overflow-hidden">
+                <VoiceWaveform
+                  isRecording
+                  levels={recorder.liveLevels}
+                  duration={recorder.elapsed}
+                  className="min-w-0"
+                />
+                <span
+                  className="flex items-center gap-1 text-white/50 text-xs md:text-sm whitespace-nowrap"
+                  style={{ opacity: 1 - slideOffset / SLIDE_TO_CANCEL_PX }}
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                  Slide to cancel · max {recorder.maxDuration}s
+                </span>
+              </div>
+            ) : (
+              <input
+                ref={inputRef}
+                type="text"
+                value={inputValue}
+                onChange={handleInputChange}
+                onKeyDown={handleKeyPress}
+                onPaste={handlePaste}
+                placeholder={editing ? 'Edit message...' : 'Type a message...'}
+                className="w-full px-3 md:px-4 py-2.5 md:py-3 bg-white/10 border border-white/20 rounded-xl md:rounded-2xl text-white text-sm md:text-base placeholder-white/40 focus:outline-none focus:border-purple-500 focus:ring-2 focus:ring-purple-500/20 transition-all"
+              />
+            )}
+            {(recorder.error || attachmentError) && (
+              <p className="absolute -top-6 left-2 text-red-400 text-xs truncate max-w-full">
+                {recorder.error || attachmentError}
+              </p>
+            )}
           </div>
 
+          <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFileInputChange} />
+          <input ref={imageInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleFileInputChange} />
+
           <motion.button
+            onClick={() => fileInputRef.current?.click()}
             className="w-10 h-10 rounded-xl bg-white/10 flex items-center justify-center text-white hover:bg-white/20 transition-all hidden md:flex flex-shrink-0"
             whileHover={{ scale: 1.1 }}
             whileTap={{ scale: 0.9 }}
+            title="Attach a file"
           >
             <Paperclip className="w-5 h-5" />
           </motion.button>
 
           <motion.button
+            onClick={() => imageInputRef.current?.click()}
             className="w-10 h-10 rounded-xl bg-white/10 flex items-center justify-center text-white hover:bg-white/20 transition-all hidden md:flex flex-shrink-0"
             whileHover={{ scale: 1.1 }}
             whileTap={{ scale: 0.9 }}
+            title="Send an image"
           >
             <Image className="w-5 h-5" />
           </motion.button>
@@ -417,7 +961,7 @@ export function ChatView({ friend, onBack, onCall, onRemoveFriend }: ChatViewPro
           {inputValue ? (
             <motion.button
               onClick={handleSend}
-              className={`w-10 md:w-12 h-10 md:h-12 rounded-xl md:rounded-2xl bg-gradient-to-r ${friend.colorTheme.gradient} flex items-center justify-center text-white transition-all shadow-lg flex-shrink-0`}
+              className={`w-10 md:w-12 h-10 md:h-12 rounded-xl md:rounded-2xl bg-gradient-to-r ${themeGradient} flex items-center justify-center text-white transition-all shadow-lg flex-shrink-0`}
               whileHover={{ scale: 1.1 }}
               whileTap={{ scale: 0.9 }}
               initial={{ scale: 0 }}
@@ -427,14 +971,16 @@ export function ChatView({ friend, onBack, onCall, onRemoveFriend }: ChatViewPro
             </motion.button>
           ) : (
             <motion.button
-              onMouseDown={() => setIsRecording(true)}
-              onMouseUp={() => setIsRecording(false)}
-              onMouseLeave={() => setIsRecording(false)}
+              onPointerDown={handleMicPointerDown}
+              onPointerMove={handleMicPointerMove}
+              onPointerUp={handleMicPointerUp}
+              onPointerCancel={() => { slideStartXRef.current = null; recorder.cancel(); }}
+              style={{ x: -Math.min(slideOffset, SLIDE_TO_CANCEL_PX), touchAction: 'none' }}
               className={cn(
                 'w-10 md:w-12 h-10 md:h-12 rounded-xl md:rounded-2xl flex items-center justify-center text-white transition-all flex-shrink-0',
                 isRecording
                   ? 'bg-red-500 shadow-lg shadow-red-500/50'
-                  : `bg-gradient-to-r ${friend.colorTheme.gradient} shadow-lg`
+                  : `bg-gradient-to-r ${themeGradient} shadow-lg`
               )}
               whileHover={{ scale: 1.1 }}
               whileTap={{ scale: 0.9 }}
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Users, Check } from 'lucide-react';
+import { cn } from '@/utils/cn';
+import { Friend } from '@/types';
+import { ColorAvatar } from './ColorAvatar';
+
+type CreateGroupModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  friends: Friend[];
+  onCreate: (name: string, friendIds: string[]) => void;
+  themeGradient: string;
+};
+
+export function CreateGroupModal({ isOpen, onClose, friends, onCreate, themeGradient }: CreateGroupModalProps) {
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const canCreate = name.trim().length > 0 && selected.length > 0;
+
+  const toggleFriend = (friendId: string) => {
+    setSelected(prev => (prev.includes(friendId) ? prev.filter(id => id !== friendId) : [...prev, friendId]));
+  };
+
+  const handleClose = () => {
+    setName('');
+    setSelected([]);
+    onClose();
+  };
+
+  const handleCreate = () => {
+    if (!canCreate) return;
+    onCreate(name, selected);
+    handleClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+          onClick={handleClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0, y: 20 }}
+            animate={{ scale: 1, opacity: 1, y: 0 }}
+            exit={{ scale: 0.9, opacity: 0, y: 20 }}
+            onClick={(e) => e.stopPropagation()}
+            className="w-full max-w-md bg-gray-900/90 backdrop-blur-xl rounded-3xl border border-white/10 overflow-hidden"
+          >
+            {/* Header */}
+            <div className={`bg-gradient-to-r ${themeGradient} p-4 sm:p-6`}>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 sm:w-12 sm:h-12 rounded-2xl bg-white/20 flex items-center justify-center">
+                    <Users className="w-5 h-5 sm:w-6 sm:h-6 text-white" />
+                  </div>
+                  <div>
+                    <h2 className="text-lg sm:text-xl font-bold text-white">New Group</h2>
+                    <p className="text-white/70 text-xs sm:text-sm">Name it and pick some friends</p>
+                  </div>
+                </div>
+                <button onClick={handleClose} className="p-2 hover:bg-white/20 rounded-full transition-colors">
+                  <X className="w-5 h-5 sm:w-6 sm:h-6 text-white" />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-4 sm:p-6 pb-0">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Group name"
+                maxLength={48}
+                autoFocus
+                className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-white/40 focus:outline-none focus:border-purple-500"
+              />
+            </div>
+
+            {/* Friend Selection */}
+            <div className="p-4 sm:p-6 max-h-72 overflow-y-auto space-y-2">
+              {friends.length === 0 ? (
+                <p className="text-gray-400 text-center py-6">Add friends first to start a group</p>
+              ) : (
+                friends.map(friend => {
+                  const isSelected = selected.includes(friend.id);
+                  return (
+                    <motion.button
+                      key={friend.id}
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      onClick={() => toggleFriend(friend.id)}
+                      className={cn(
+                        'w-full flex items-center gap-3 p-3 rounded-2xl transition-all',
+                        isSelected ? `bg-gradient-to-r ${themeGradient} shadow-lg` : 'bg-white/5 hover:bg-white/10'
+                      )}
+                    >
+                      <ColorAvatar color={friend.avatarColor} name={friend.displayName} size="md" />
+                      <div className="flex-1 text-left">
+                        <p className="font-medium text-white">{friend.displayName}</p>
+                        <p className={cn('text-sm', isSelected ? 'text-white/70' : 'text-gray-400')}>@{friend.username}</p>
+                      </div>
+                      <div
+                        className={cn(
+                          'w-6 h-6 rounded-full flex items-center justify-center transition-all',
+                          isSelected ? 'bg-white text-gray-900' : 'bg-white/10 border border-white/20'
+                        )}
+                      >
+                        {isSelected && <Check className="w-4 h-4" />}
+                      </div>
+                    </motion.button>
+                  );
+                })
+              )}
+            </div>
+
+            <div className="p-4 sm:p-6 pt-2 border-t border-white/10">
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={handleCreate}
+                disabled={!canCreate}
+                className={cn(
+                  'w-full py-3 sm:py-4 rounded-2xl font-semibold transition-all',
+                  canCreate ? `bg-gradient-to-r ${themeGradient} text-white` : 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                )}
+              >
+                Create group{selected.length > 0 && ` with ${selected.length} friend${selected.length > 1 ? 's' : ''}`}
+              </motion.button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -16,6 +16,7 @@ import {
   UserPlus,
   X,
   UsersRound,
+  PhoneOff,
 } from 'lucide-react';
 import { cn } from '@/utils/cn';
 import { useApp } from '@/context/AppContext';
@@ -24,11 +25,28 @@ import { ChatView } from './ChatView';
 import { CallOverlay } from './CallOverlay';
 import { IncomingCallModal } from './IncomingCallModal';
 import { GroupCallModal } from './GroupCallModal';
+import { PreCallLobby } from './PreCallLobby';
+import { RejoinCallBanner } from './RejoinCallBanner';
+import { CallRecordingsPrompt } from './CallRecordingsPrompt';
+import { CreateGroupModal } from './CreateGroupModal';
+import { GroupAvatar } from './GroupAvatar';
+import { CallHistoryList } from './CallHistoryList';
 import { ColorAvatar, stringToColor } from './ColorAvatar';
-import { Friend, colorThemes } from '@/types';
+import { toDirectConversation, toGroupConversation } from '@/lib/groups';
+import { CallRecord } from '@/lib/callHistory';
+import { JoinOptions } from '@/hooks/useWebRTC';
+import { Conversation, Friend, GroupMember, colorThemes } from '@/types';
 
 type Tab = 'friends' | 'messages' | 'calls';
 
+const HOLD_TONE_INTERVAL_MS = 4000;
+
+// A call waiting in the pre-call lobby
+type PendingCall =
+  | { direction: 'outgoing'; targetIds: string[]; isVideo: boolean }
+  | { direction: 'incoming'; isVideo: boolean }
+  | { direction: 'rejoin'; isVideo: boolean };
+
 interface DashboardProps {
   onLogout: () => void;
 }
@@ -37,6 +55,8 @@ export function Dashboard({ onLogout }: DashboardProps) {
   const {
     user,
     friends,
+    groups,
+    createGroup,
     activeChat,
     setActiveChat,
     callState,
@@ -45,19 +65,48 @@ export function Dashboard({ onLogout }: DashboardProps) {
     isMuted,
     isCameraOff,
     isScreenSharing,
+    isHandRaised,
+    isOnHold,
+    peerMediaStates,
+    callChatMessages,
+    reconnectingPeers,
+    recordingPeers,
+    isRecording,
+    startRecording,
+    stopRecording,
+    callRecordings,
+    dismissCallRecordings,
+    peerStats,
+    speakingIds,
+    dominantSpeakerId,
     incomingCall,
     initiateCall,
     acceptCall,
     rejectCall,
     endCall,
+    callRoster,
+    addParticipants,
+    rejoinableCall,
+    heldCall,
+    busyPeers,
+    answerWaitingCall,
+    swapCalls,
+    toggleHold,
+    rejoinCall,
+    dismissRejoin,
     toggleMute,
     toggleCamera,
     toggleScreenShare,
+    toggleHandRaise,
+    sendCallChatMessage,
     currentCallTargets,
+    callHistory,
+    clearCallHistory,
     addFriend,
     removeFriend,
     copyUserIdToClipboard,
     playSound,
+    showPreCallLobby,
     isConnected,
     connectionError,
   } = useApp();
@@ -70,6 +119,8 @@ export function Dashboard({ onLogout }: DashboardProps) {
   const [addFriendError, setAddFriendError] = useState('');
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [showGroupCall, setShowGroupCall] = useState(false);
+  const [showCreateGroup, setShowCreateGroup] = useState(false);
+  const [pendingCall, setPendingCall] = useState<PendingCall | null>(null);
 
   // Get call participants as Friend objects
   const callParticipants: Friend[] = currentCallTargets.map(targetId => {
@@ -108,11 +159,89 @@ export function Dashboard({ onLogout }: DashboardProps) {
   const onlineFriends = filteredFriends.filter((f) => f.status === 'online');
   const offlineFriends = filteredFriends.filter((f) => f.status !== 'online');
 
-  const handleStartCall = async (friend: Friend, video: boolean) => {
-    await initiateCall([friend.id], video);
+  // Every outgoing call goes through here so the lobby can step in first
+  const startCall = async (targetIds: string[], video: boolean) => {
+    if (showPreCallLobby) {
+      setPendingCall({ direction: 'outgoing', targetIds, isVideo: video });
+      return;
+    }
+    await initiateCall(targetIds, video);
     playSound('ring');
   };
 
+  const handleAcceptCall = () => {
+    if (!incomingCall) return;
+    // A waiting call is answered from within the current one, so the lobby is skipped
+    if (callState !== 'idle') {
+      answerWaitingCall('end');
+      return;
+    }
+    if (showPreCallLobby) {
+      setPendingCall({ direction: 'incoming', isVideo: incomingCall.isVideo });
+      return;
+    }
+    acceptCall();
+  };
+
+  const handleJoinFromLobby = async (options: JoinOptions) => {
+    const call = pendingCall;
+    setPendingCall(null);
+    if (!call) return;
+    if (call.direction === 'incoming') {
+      await acceptCall(options);
+    } else if (call.direction === 'rejoin') {
+      await rejoinCall(options);
+    } else {
+      await initiateCall(call.targetIds, call.isVideo, options);
+      playSound('ring');
+    }
+  };
+
+  const handleRejoinCall = () => {
+    if (!rejoinableCall) return;
+    if (showPreCallLobby) {
+      setPendingCall({ direction: 'rejoin', isVideo: rejoinableCall.isVideo });
+      return;
+    }
+    rejoinCall();
+  };
+
+  const getCallName = (userIds: string[]) => userIds.map(id => getCallParticipant(id).displayName).join(', ');
+
+  const handleStartCall = async (friend: Friend, video: boolean) => {
+    await startCall([friend.id], video);
+  };
+
+  // Calls every other member of the conversation at once
+  const handleConversationCall = async (conversation: Conversation, video: boolean) => {
+    if (conversation.memberIds.length === 0) return;
+    await startCall(conversation.memberIds, video);
+  };
+
+  // Call log participants may be friends, group members we don't know directly, or strangers
+  const getCallParticipant = (userId: string): GroupMember => {
+    const friend = friends.find(f => f.id === userId);
+    if (friend) return { id: friend.id, displayName: friend.displayName, avatarColor: friend.avatarColor };
+    for (const group of groups) {
+      const member = group.members.find(m => m.id === userId);
+      if (member) return member;
+    }
+    return { id: userId, displayName: 'Unknown User', avatarColor: stringToColor(userId) };
+  };
+
+  const handleCallBack = async (record: CallRecord) => {
+    await startCall(record.participantIds, record.isVideo);
+  };
+
+  const openDirectChat = (friend: Friend) => {
+    if (user) setActiveChat(toDirectConversation(user.id, friend));
+  };
+
+  const handleCreateGroup = (name: string, friendIds: string[]) => {
+    const group = createGroup(name, friendIds);
+    if (group && user) setActiveChat(toGroupConversation(user.id, group));
+  };
+
   const handleCopyId = () => {
     copyUserIdToClipboard();
     setCopied(true);
@@ -136,28 +265,108 @@ export function Dashboard({ onLogout }: DashboardProps) {
   };
 
   const handleStartGroupCall = async (friendIds: string[], isVideo: boolean) => {
-    await initiateCall(friendIds, isVideo);
-    playSound('ring');
+    await startCall(friendIds, isVideo);
   };
 
   // Play sound on incoming call
   useEffect(() => {
     if (incomingCall) {
-      playSound('ring');
+      playSound(callState === 'idle' ? 'ring' : 'waiting');
     }
   }, [incomingCall, playSound]);
 
+  useEffect(() => {
+    if (busyPeers.length > 0) playSound('busy');
+  }, [busyPeers, playSound]);
+
+  // Remind us the call is held until it's resumed
+  useEffect(() => {
+    if (!isOnHold) return;
+    playSound('hold');
+    const interval = setInterval(() => playSound('hold'), HOLD_TONE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isOnHold, playSound]);
+
+  // The caller gave up, the ring timed out or the call emptied while we were still in the lobby
+  useEffect(() => {
+    if (pendingCall?.direction === 'incoming' && !incomingCall) setPendingCall(null);
+    if (pendingCall?.direction === 'rejoin' && !rejoinableCall) setPendingCall(null);
+  }, [pendingCall, incomingCall, rejoinableCall]);
+
   if (!user) return null;
 
+  const lobby = (
+    <AnimatePresence>
+      {pendingCall && (
+        <PreCallLobby
+          title={pendingCall.direction === 'incoming'
+            ? `${incomingCall?.fromUser.displayName ?? 'Someone'} is calling`
+            : pendingCall.direction === 'rejoin'
+              ? `Rejoin call with ${getCallName(rejoinableCall?.participants ?? [])}`
+              : `Call ${getCallName(pendingCall.targetIds)}`}
+          subtitle={pendingCall.isVideo ? 'Check your camera and mic before joining' : 'Check your mic before joining'}
+          isVideo={pendingCall.isVideo}
+          joinLabel={pendingCall.direction === 'outgoing' ? 'Start call' : 'Join'}
+          onJoin={handleJoinFromLobby}
+          onCancel={() => setPendingCall(null)}
+          themeGradient={user.colorTheme.gradient}
+        />
+      )}
+    </AnimatePresence>
+  );
+
+  const rejoinBanner = (
+    <AnimatePresence>
+      {rejoinableCall && callState === 'idle' && !incomingCall && !pendingCall && (
+        <RejoinCallBanner
+          names={rejoinableCall.participants.map(id => getCallParticipant(id).displayName)}
+          isVideo={rejoinableCall.isVideo}
+          onRejoin={handleRejoinCall}
+          onDismiss={dismissRejoin}
+        />
+      )}
+    </AnimatePresence>
+  );
+
+  const busyNotice = (
+    <AnimatePresence>
+      {busyPeers.length > 0 && (
+        <motion.div
+          className="fixed top-4 left-1/2 -translate-x-1/2 z-[110] flex items-center gap-2 px-4 py-2.5 rounded-2xl backdrop-blur-xl bg-slate-800/90 border border-white/20 shadow-xl text-white text-sm"
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -20 }}
+        >
+          <PhoneOff className="w-4 h-4 text-red-400" />
+          {getCallName(busyPeers)} {busyPeers.length > 1 ? 'are' : 'is'} busy
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+
+  const recordingsPrompt = (
+    <AnimatePresence>
+      {callRecordings.length > 0 && callState === 'idle' && (
+        <CallRecordingsPrompt recordings={callRecordings} onDismiss={dismissCallRecordings} />
+      )}
+    </AnimatePresence>
+  );
+
   // Show Chat View
   if (activeChat) {
     return (
-      <ChatView
-        friend={activeChat}
-        onBack={() => setActiveChat(null)}
-        onCall={(video) => handleStartCall(activeChat, video)}
-        onRemoveFriend={removeFriend}
-      />
+      <>
+        {lobby}
+        {rejoinBanner}
+        {busyNotice}
+        {recordingsPrompt}
+        <ChatView
+          conversation={activeChat}
+          onBack={() => setActiveChat(null)}
+          onCall={(video) => handleConversationCall(activeChat, video)}
+          onRemoveFriend={removeFriend}
+        />
+      </>
     );
   }
 
@@ -177,21 +386,46 @@ export function Dashboard({ onLogout }: DashboardProps) {
             isMuted={isMuted}
             isCameraOff={isCameraOff}
             isScreenSharing={isScreenSharing}
+            isHandRaised={isHandRaised}
+            peerMediaStates={peerMediaStates}
+            chatMessages={callChatMessages}
+            reconnectingPeers={reconnectingPeers}
+            peerStats={peerStats}
+            roster={callRoster}
+            onAddParticipants={addParticipants}
+            heldCallName={heldCall ? getCallName(heldCall.peerIds) : null}
+            onSwapCalls={swapCalls}
+            isOnHold={isOnHold}
+            onToggleHold={toggleHold}
+            isRecording={isRecording}
+            recordingPeers={recordingPeers}
+            onToggleRecording={() => (isRecording ? stopRecording() : startRecording())}
+            speakingIds={speakingIds}
+            dominantSpeakerId={dominantSpeakerId}
             onToggleMute={toggleMute}
             onToggleCamera={toggleCamera}
             onToggleScreenShare={toggleScreenShare}
+            onToggleHandRaise={toggleHandRaise}
+            onSendChatMessage={sendCallChatMessage}
           />
         )}
       </AnimatePresence>
 
+      {lobby}
+      {rejoinBanner}
+      {busyNotice}
+      {recordingsPrompt}
+
       {/* Incoming Call Modal */}
       <AnimatePresence>
         {incomingCall && incomingCaller && (
           <IncomingCallModal
             caller={incomingCaller}
             isVideo={incomingCall.isVideo}
-            onAccept={acceptCall}
+            onAccept={handleAcceptCall}
             onReject={rejectCall}
+            isWaiting={inCall}
+            onHoldAndAccept={() => answerWaitingCall('hold')}
           />
         )}
       </AnimatePresence>
@@ -205,6 +439,15 @@ export function Dashboard({ onLogout }: DashboardProps) {
         themeGradient={user.colorTheme.gradient}
       />
 
+      {/* Create Group Chat Modal */}
+      <CreateGroupModal
+        isOpen={showCreateGroup}
+        onClose={() => setShowCreateGroup(false)}
+        friends={friends}
+        onCreate={handleCreateGroup}
+        themeGradient={user.colorTheme.gradient}
+      />
+
       {/* Add Friend Modal */}
       <AnimatePresence>
         {showAddFriend && (
@@ -594,7 +837,7 @@ export function Dashboard({ onLogout }: DashboardProps) {
                               >
                                 <FriendCard
                                   friend={friend}
-                                  onChat={() => setActiveChat(friend)}
+                                  onChat={() => openDirectChat(friend)}
                                   onCall={(video) => handleStartCall(friend, video)}
                                   onRemove={removeFriend}
                                 />
@@ -621,7 +864,7 @@ export function Dashboard({ onLogout }: DashboardProps) {
                               >
                                 <FriendCard
                                   friend={friend}
-                                  onChat={() => setActiveChat(friend)}
+                                  onChat={() => openDirectChat(friend)}
                                   onCall={(video) => handleStartCall(friend, video)}
                                   onRemove={removeFriend}
                                 />
@@ -657,7 +900,70 @@ export function Dashboard({ onLogout }: DashboardProps) {
                   exit={{ opacity: 0, x: -20 }}
                   className="space-y-3"
                 >
-                  {friends.length === 0 ? (
+                  {friends.length > 0 && (
+                    <div className="flex justify-end">
+                      <motion.button
+                        onClick={() => setShowCreateGroup(true)}
+                        className="px-4 py-2 rounded-xl bg-white/10 text-white text-sm font-medium flex items-center gap-2 hover:bg-white/20 transition-all"
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                      >
+                        <UsersRound className="w-4 h-4" />
+                        New group
+                      </motion.button>
+                    </div>
+                  )}
+
+                  {groups.map((group, index) => {
+                    const conversation = toGroupConversation(user.id, group);
+                    return (
+                      <motion.div
+                        key={group.id}
+                        onClick={() => setActiveChat(conversation)}
+                        className="group backdrop-blur-xl bg-white/10 rounded-3xl border border-white/20 p-4 hover:bg-white/15 transition-all cursor-pointer"
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ delay: index * 0.05 }}
+                        whileHover={{ scale: 1.01 }}
+                      >
+                        <div className="flex items-center gap-4">
+                          <GroupAvatar members={group.members} size="lg" />
+                          <div className="flex-1 min-w-0">
+                            <h3 className="text-white font-semibold truncate">{group.name}</h3>
+                            <p className="text-white/50 text-sm truncate mt-1">
+                              {group.members.map(m => (m.id === user.id ? 'You' : m.displayName)).join(', ')}
+                            </p>
+                          </div>
+                          <motion.button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleConversationCall(conversation, false);
+                            }}
+                            className="w-10 h-10 rounded-xl bg-white/10 flex items-center justify-center text-white hover:bg-white/20 transition-all"
+                            whileHover={{ scale: 1.1 }}
+                            whileTap={{ scale: 0.9 }}
+                            title="Call everyone"
+                          >
+                            <Phone className="w-4 h-4" />
+                          </motion.button>
+                          <motion.button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleConversationCall(conversation, true);
+                            }}
+                            className={`w-10 h-10 rounded-xl bg-gradient-to-r ${user.colorTheme.gradient} flex items-center justify-center text-white transition-all`}
+                            whileHover={{ scale: 1.1 }}
+                            whileTap={{ scale: 0.9 }}
+                            title="Video call everyone"
+                          >
+                            <Video className="w-4 h-4" />
+                          </motion.button>
+                        </div>
+                      </motion.div>
+                    );
+                  })}
+
+                  {friends.length === 0 && groups.length === 0 ? (
                     <motion.div
                       className="flex flex-col items-center justify-center py-16"
                       initial={{ opacity: 0 }}
@@ -673,7 +979,7 @@ export function Dashboard({ onLogout }: DashboardProps) {
                     friends.map((friend, index) => (
                       <motion.div
                         key={friend.id}
-                        onClick={() => setActiveChat(friend)}
+                        onClick={() => openDirectChat(friend)}
                         className="group backdrop-blur-xl bg-white/10 rounded-3xl border border-white/20 p-4 hover:bg-white/15 transition-all cursor-pointer"
                         initial={{ opacity: 0, y: 20 }}
                         animate={{ opacity: 1, y: 0 }}
@@ -720,72 +1026,14 @@ export function Dashboard({ onLogout }: DashboardProps) {
                   initial={{ opacity: 0, x: 20 }}
                   animate={{ opacity: 1, x: 0 }}
                   exit={{ opacity: 0, x: -20 }}
-                  className="space-y-3"
                 >
-                  {friends.length === 0 ? (
-                    <motion.div
-                      className="flex flex-col items-center justify-center py-16"
-                      initial={{ opacity: 0 }}
-                      animate={{ opacity: 1 }}
-                    >
-                      <div className="w-24 h-24 rounded-full bg-white/10 flex items-center justify-center mb-4">
-                        <Phone className="w-12 h-12 text-white/40" />
-                      </div>
-                      <h3 className="text-white/60 text-lg font-medium">No calls yet</h3>
-                      <p className="text-white/40 text-sm mt-1">Add friends to start calling</p>
-                    </motion.div>
-                  ) : (
-                    friends.map((friend, index) => (
-                      <motion.div
-                        key={friend.id}
-                        className="group backdrop-blur-xl bg-white/10 rounded-3xl border border-white/20 p-4 hover:bg-white/15 transition-all"
-                        initial={{ opacity: 0, y: 20 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        transition={{ delay: index * 0.05 }}
-                      >
-                        <div className="flex items-center gap-4">
-                          <div className="relative">
-                            <ColorAvatar
-                              name={friend.displayName}
-                              color={friend.avatarColor}
-                              size="lg"
-                              showBorder
-                              borderGradient={friend.colorTheme.gradient}
-                            />
-                            <div className="absolute -bottom-1 -right-1 w-6 h-6 rounded-full bg-purple-500 flex items-center justify-center">
-                              <Video className="w-3 h-3 text-white" />
-                            </div>
-                          </div>
-                          <div className="flex-1">
-                            <h3 className="text-white font-semibold">{friend.displayName}</h3>
-                            <div className="flex items-center gap-2 mt-1">
-                              <span className="text-white/50 text-sm">
-                                {friend.status === 'online' ? 'Available' : 'Offline'}
-                              </span>
-                            </div>
-                          </div>
-                          <div className="flex gap-2">
-                            <motion.button
-                              onClick={() => handleStartCall(friend, false)}
-                              className="w-12 h-12 rounded-xl bg-white/10 flex items-center justify-center text-white opacity-0 group-hover:opacity-100 transition-opacity"
-                              whileHover={{ scale: 1.1 }}
-                              whileTap={{ scale: 0.9 }}
-                            >
-                              <Phone className="w-5 h-5" />
-                            </motion.button>
-                            <motion.button
-                              onClick={() => handleStartCall(friend, true)}
-                              className={`w-12 h-12 rounded-xl bg-gradient-to-r ${friend.colorTheme.gradient} flex items-center justify-center text-white opacity-0 group-hover:opacity-100 transition-opacity`}
-                              whileHover={{ scale: 1.1 }}
-                              whileTap={{ scale: 0.9 }}
-                            >
-                              <Video className="w-5 h-5" />
-                            </motion.button>
-                          </div>
-                        </div>
-                      </motion.div>
-                    ))
-                  )}
+                  <CallHistoryList
+                    records={callHistory}
+                    getParticipant={getCallParticipant}
+                    onCallBack={handleCallBack}
+                    onClear={clearCallHistory}
+                    themeGradient={user.colorTheme.gradient}
+                  />
                 </motion.div>
               )}
             </AnimatePresence>
@@ -0,0 +1,92 @@
+import { useEffect, useRef } from 'react';
+import { Camera, Mic, Volume2, VideoOff } from 'lucide-react';
+import { cn } from '@/utils/cn';
+import { useApp } from '@/context/AppContext';
+import { useAudioLevel } from '@/hooks/useAudioLevel';
+import { useMediaPreview } from '@/hooks/useMediaPreview';
+import { getDeviceLabel } from '@/lib/mediaDevices';
+
+type DeviceSettingsProps = {
+  // Open a camera/mic preview; leave off during calls where the call's own stream is already live
+  showPreview?: boolean;
+  compact?: boolean;
+};
+
+const deviceRows: { kind: MediaDeviceKind; label: string; icon: typeof Mic }[] = [
+  { kind: 'videoinput', label: 'Camera', icon: Camera },
+  { kind: 'audioinput', label: 'Microphone', icon: Mic },
+  { kind: 'audiooutput', label: 'Speaker', icon: Volume2 },
+];
+
+export function DeviceSettings({ showPreview, compact }: DeviceSettingsProps) {
+  const { mediaDevices, devicePreferences, setPreferredDevice, canSelectAudioOutput, videoEffects } = useApp();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { stream: previewStream, error: previewError } = useMediaPreview({
+    enabled: !!showPreview,
+    video: true,
+    preferences: devicePreferences,
+    effects: videoEffects,
+  });
+  const level = useAudioLevel(previewStream);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = previewStream;
+  }, [previewStream]);
+
+  const visibleRows = deviceRows.filter(row => row.kind !== 'audiooutput' || canSelectAudioOutput);
+
+  return (
+    <div className={cn(compact ? 'space-y-3' : 'space-y-4')}>
+      {showPreview && (
+        <div className="space-y-3">
+          <div className="relative aspect-video rounded-xl overflow-hidden bg-slate-800 border border-white/10">
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              className="absolute inset-0 w-full h-full object-cover"
+              style={{ transform: 'scaleX(-1)' }}
+            />
+            {!previewStream && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center text-white/40 text-sm gap-2 p-4 text-center">
+                <VideoOff className="w-8 h-8" />
+                {previewError || 'Starting camera…'}
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <Mic className="w-4 h-4 text-white/60 flex-shrink-0" />
+            <div className="flex-1 h-2 rounded-full bg-white/10 overflow-hidden">
+              <div
+                className="h-full rounded-full bg-gradient-to-r from-green-400 to-emerald-500 transition-[width] duration-75"
+                style={{ width: `${Math.round(level * 100)}%` }}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {visibleRows.map(({ kind, label, icon: Icon }) => (
+        <div key={kind} className={cn(!compact && 'p-4 bg-white/5 rounded-xl border border-white/10')}>
+          <label className="flex items-center gap-2 text-white/70 text-sm font-medium mb-2">
+            <Icon className="w-4 h-4" />
+            {label}
+          </label>
+          <select
+            value={devicePreferences[kind]}
+            onChange={(e) => setPreferredDevice(kind, e.target.value)}
+            className="w-full px-3 py-2.5 bg-white/10 border border-white/20 rounded-xl text-white text-sm focus:outline-none focus:border-purple-500 [&>option]:bg-slate-800"
+          >
+            <option value="">System default</option>
+            {mediaDevices[kind].map((device, index) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {getDeviceLabel(device, index)}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  );
+}
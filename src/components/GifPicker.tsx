@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Search, Star, X, Clock, Sparkles } from 'lucide-react';
+import { cn } from '@/utils/cn';
+import {
+  loadFavoriteStickers,
+  loadRecentStickers,
+  pushRecentSticker,
+  saveFavoriteStickers,
+  searchStickers,
+  StickerItem,
+} from '@/lib/stickers';
+
+type GifPickerProps = {
+  userId: string;
+  onSelect: (item: StickerItem) => void;
+  onClose: () => void;
+};
+
+type PickerTab = 'browse' | 'recents' | 'favorites';
+
+export function GifPicker({ userId, onSelect, onClose }: GifPickerProps) {
+  const [tab, setTab] = useState<PickerTab>('browse');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<StickerItem[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [favorites, setFavorites] = useState<StickerItem[]>(() => loadFavoriteStickers(userId));
+  const [recents, setRecents] = useState<StickerItem[]>(() => loadRecentStickers(userId));
+
+  // Debounced search across all providers
+  useEffect(() => {
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(() => {
+      searchStickers(query)
+        .then(items => { if (!cancelled) setResults(items); })
+        .finally(() => { if (!cancelled) setIsSearching(false); });
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const isFavorite = (item: StickerItem) => favorites.some(f => f.id === item.id);
+
+  const toggleFavorite = (item: StickerItem) => {
+    const next = isFavorite(item) ? favorites.filter(f => f.id !== item.id) : [item, ...favorites];
+    setFavorites(next);
+    saveFavoriteStickers(userId, next);
+  };
+
+  const handleSelect = (item: StickerItem) => {
+    setRecents(pushRecentSticker(userId, item));
+    onSelect(item);
+  };
+
+  const items = tab === 'browse' ? results : tab === 'recents' ? recents : favorites;
+
+  const tabs: { id: PickerTab; label: string; icon: typeof Star }[] = [
+    { id: 'browse', label: 'Browse', icon: Sparkles },
+    { id: 'recents', label: 'Recent', icon: Clock },
+    { id: 'favorites', label: 'Favorites', icon: Star },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className="mx-4 md:mx-auto md:max-w-3xl mb-2 backdrop-blur-xl bg-white/10 rounded-2xl border border-white/20 p-4"
+    >
+      <div className="flex items-center gap-2 mb-3">
+        <div className="flex gap-1 flex-1">
+          {tabs.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={cn(
+                'flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors',
+                tab === id ? 'bg-white/20 text-white' : 'text-white/60 hover:text-white hover:bg-white/10'
+              )}
+            >
+              <Icon className="w-4 h-4" />
+              <span className="hidden sm:inline">{label}</span>
+            </button>
+          ))}
+        </div>
+        <button onClick={onClose} className="text-white/60 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {tab === 'browse' && (
+        <div className="relative mb-3">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/40" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search stickers & GIFs..."
+            autoFocus
+            className="w-full pl-9 pr-4 py-2 bg-white/10 border border-white/20 rounded-xl text-white text-sm placeholder-white/40 focus:outline-none focus:border-purple-500"
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-4 sm:grid-cols-6 gap-2 max-h-64 overflow-y-auto">
+        {items.map(item => (
+          <div key={item.id} className="relative group">
+            <motion.button
+              onClick={() => handleSelect(item)}
+              className="w-full aspect-square rounded-xl bg-white/5 hover:bg-white/10 p-1 transition-colors"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              title={item.title}
+            >
+              <img src={item.url} alt={item.title} className="w-full h-full object-contain" loading="lazy" />
+            </motion.button>
+            <button
+              onClick={() => toggleFavorite(item)}
+              className={cn(
+                'absolute top-1 right-1 w-6 h-6 rounded-full bg-black/40 flex items-center justify-center transition-opacity',
+                isFavorite(item) ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+              )}
+              aria-label={isFavorite(item) ? 'Remove from favorites' : 'Add to favorites'}
+            >
+              <Star className={cn('w-3.5 h-3.5', isFavorite(item) ? 'fill-amber-400 text-amber-400' : 'text-white')} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {items.length === 0 && !(tab === 'browse' && isSearching) && (
+        <p className="text-white/40 text-sm text-center py-6">
+          {tab === 'browse' && 'No stickers found'}
+          {tab === 'recents' && 'Stickers you send will show up here'}
+          {tab === 'favorites' && 'Tap the star on a sticker to save it'}
+        </p>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,44 @@
+import { cn } from '@/utils/cn';
+import { GroupMember } from '@/types';
+import { ColorAvatar } from './ColorAvatar';
+
+type GroupAvatarProps = {
+  members: GroupMember[];
+  size?: 'sm' | 'lg' | 'xl';
+  className?: string;
+};
+
+// Outer box plus the avatar size used for each stacked member
+const layouts = {
+  sm: { box: 'w-10 h-10', member: 'xs' as const, offset: 'translate-x-2 translate-y-2' },
+  lg: { box: 'w-14 h-14', member: 'sm' as const, offset: 'translate-x-4 translate-y-4' },
+  xl: { box: 'w-20 h-20', member: 'md' as const, offset: 'translate-x-8 translate-y-8' },
+};
+
+// Two overlapping member avatars with a "+N" badge for the rest
+export function GroupAvatar({ members, size = 'lg', className }: GroupAvatarProps) {
+  const layout = layouts[size];
+  const [first, second] = members;
+  const extra = members.length - 2;
+
+  return (
+    <div className={cn('relative flex-shrink-0', layout.box, className)}>
+      {first && (
+        <ColorAvatar name={first.displayName} color={first.avatarColor} size={layout.member} className="absolute top-0 left-0" />
+      )}
+      {second && (
+        <ColorAvatar
+          name={second.displayName}
+          color={second.avatarColor}
+          size={layout.member}
+          className={cn('absolute top-0 left-0 ring-2 ring-slate-900 rounded-2xl', layout.offset)}
+        />
+      )}
+      {extra > 0 && (
+        <div className="absolute -bottom-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-slate-800 border border-white/20 flex items-center justify-center text-[10px] font-bold text-white">
+          +{extra}
+        </div>
+      )}
+    </div>
+  );
+}
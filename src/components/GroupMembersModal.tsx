@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, UserPlus, UserMinus, LogOut, Crown, Check } from 'lucide-react';
+import { cn } from '@/utils/cn';
+import { ChatGroup, Friend } from '@/types';
+import { ColorAvatar } from './ColorAvatar';
+import { GroupAvatar } from './GroupAvatar';
+
+type GroupMembersModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  group: ChatGroup;
+  currentUserId: string;
+  friends: Friend[];
+  onAddMembers: (friendIds: string[]) => void;
+  onRemoveMember: (memberId: string) => void;
+  onLeave: () => void;
+  themeGradient: string;
+};
+
+export function GroupMembersModal({
+  isOpen,
+  onClose,
+  group,
+  currentUserId,
+  friends,
+  onAddMembers,
+  onRemoveMember,
+  onLeave,
+  themeGradient,
+}: GroupMembersModalProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const isOwner = group.ownerId === currentUserId;
+  const candidates = friends.filter(f => !group.members.some(m => m.id === f.id));
+
+  const handleClose = () => {
+    setIsAdding(false);
+    setSelected([]);
+    onClose();
+  };
+
+  const handleAdd = () => {
+    if (selected.length === 0) return;
+    onAddMembers(selected);
+    setSelected([]);
+    setIsAdding(false);
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+          onClick={handleClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0, y: 20 }}
+            animate={{ scale: 1, opacity: 1, y: 0 }}
+            exit={{ scale: 0.9, opacity: 0, y: 20 }}
+            onClick={(e) => e.stopPropagation()}
+            className="w-full max-w-md bg-gray-900/90 backdrop-blur-xl rounded-3xl border border-white/10 overflow-hidden"
+          >
+            {/* Header */}
+            <div className={`bg-gradient-to-r ${themeGradient} p-4 sm:p-6`}>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3 min-w-0">
+                  <GroupAvatar members={group.members} size="lg" />
+                  <div className="min-w-0">
+                    <h2 className="text-lg sm:text-xl font-bold text-white truncate">{group.name}</h2>
+                    <p className="text-white/70 text-xs sm:text-sm">{group.members.length} members</p>
+                  </div>
+                </div>
+                <button onClick={handleClose} className="p-2 hover:bg-white/20 rounded-full transition-colors">
+                  <X className="w-5 h-5 sm:w-6 sm:h-6 text-white" />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-4 sm:p-6 max-h-80 overflow-y-auto space-y-2">
+              {isAdding ? (
+                candidates.length === 0 ? (
+                  <p className="text-gray-400 text-center py-6">All your friends are already here</p>
+                ) : (
+                  candidates.map(friend => {
+                    const isSelected = selected.includes(friend.id);
+                    return (
+                      <button
+                        key={friend.id}
+                        onClick={() => setSelected(prev => (isSelected ? prev.filter(id => id !== friend.id) : [...prev, friend.id]))}
+                        className={cn(
+                          'w-full flex items-center gap-3 p-3 rounded-2xl transition-all',
+                          isSelected ? `bg-gradient-to-r ${themeGradient}` : 'bg-white/5 hover:bg-white/10'
+                        )}
+                      >
+                        <ColorAvatar color={friend.avatarColor} name={friend.displayName} size="sm" />
+                        <span className="flex-1 text-left font-medium text-white">{friend.displayName}</span>
+                        <div
+                          className={cn(
+                            'w-6 h-6 rounded-full flex items-center justify-center',
+                            isSelected ? 'bg-white text-gray-900' : 'bg-white/10 border border-white/20'
+                          )}
+                        >
+                          {isSelected && <Check className="w-4 h-4" />}
+                        </div>
+                      </button>
+                    );
+                  })
+                )
+              ) : (
+                group.members.map(member => (
+                  <div key={member.id} className="flex items-center gap-3 p-3 rounded-2xl bg-white/5">
+                    <ColorAvatar color={member.avatarColor} name={member.displayName} size="sm" />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-white truncate">
+                        {member.displayName}
+                        {member.id === currentUserId && <span className="text-white/40 font-normal"> (you)</span>}
+                      </p>
+                    </div>
+                    {member.id === group.ownerId && <Crown className="w-4 h-4 text-amber-400" aria-label="Owner" />}
+                    {isOwner && member.id !== currentUserId && (
+                      <button
+                        onClick={() => onRemoveMember(member.id)}
+                        className="p-2 rounded-xl text-red-400 hover:bg-red-500/20 transition-colors"
+                        aria-label={`Remove ${member.displayName}`}
+                      >
+                        <UserMinus className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="p-4 sm:p-6 pt-2 border-t border-white/10 flex gap-3">
+              {isAdding ? (
+                <>
+                  <button
+                    onClick={() => setIsAdding(false)}
+                    className="flex-1 py-3 rounded-2xl bg-white/10 text-white font-medium hover:bg-white/20 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleAdd}
+                    disabled={selected.length === 0}
+                    className={cn(
+                      'flex-1 py-3 rounded-2xl font-semibold transition-all',
+                      selected.length > 0 ? `bg-gradient-to-r ${themeGradient} text-white` : 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                    )}
+                  >
+                    Add {selected.length > 0 ? selected.length : ''}
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => setIsAdding(true)}
+                    className="flex-1 py-3 rounded-2xl bg-white/10 text-white font-medium hover:bg-white/20 transition-colors flex items-center justify-center gap-2"
+                  >
+                    <UserPlus className="w-4 h-4" />
+                    Add people
+                  </button>
+                  <button
+                    onClick={() => {
+                      onLeave();
+                      handleClose();
+                    }}
+                    className="flex-1 py-3 rounded-2xl bg-red-500/20 text-red-400 font-medium hover:bg-red-500/30 transition-colors flex items-center justify-center gap-2"
+                  >
+                    <LogOut className="w-4 h-4" />
+                    Leave group
+                  </button>
+                </>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,5 +1,5 @@
 import { motion } from 'framer-motion';
-import { Phone, PhoneOff, Video } from 'lucide-react';
+import { Pause, Phone, PhoneOff, Video } from 'lucide-react';
 import { Friend } from '@/types';
 import { ColorAvatar } from './ColorAvatar';
 
@@ -8,9 +8,66 @@ type IncomingCallModalProps = {
   isVideo: boolean;
   onAccept: () => void;
   onReject: () => void;
+  // Call waiting: shown over a call in progress, where accepting ends it
+  isWaiting?: boolean;
+  onHoldAndAccept?: () => void;
 };
 
-export function IncomingCallModal({ caller, isVideo, onAccept, onReject }: IncomingCallModalProps) {
+// Compact card for a second call, leaving the current one visible underneath
+function WaitingCallCard({ caller, isVideo, onAccept, onReject, onHoldAndAccept }: IncomingCallModalProps) {
+  return (
+    <motion.div
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-[100] w-[calc(100%-2rem)] max-w-sm backdrop-blur-xl bg-slate-800/95 border border-white/20 rounded-2xl p-4 shadow-2xl"
+      initial={{ opacity: 0, y: -20, scale: 0.95 }}
+      animate={{ opacity: 1, y: 0, scale: 1 }}
+      exit={{ opacity: 0, y: -20, scale: 0.95 }}
+    >
+      <div className="flex items-center gap-3">
+        <ColorAvatar name={caller.displayName} color={caller.avatarColor} size="md" />
+        <div className="min-w-0 flex-1">
+          <p className="text-white font-semibold truncate">{caller.displayName}</p>
+          <motion.p
+            className="text-white/60 text-sm flex items-center gap-1.5"
+            animate={{ opacity: [1, 0.5, 1] }}
+            transition={{ duration: 1.5, repeat: Infinity }}
+          >
+            {isVideo ? <Video className="w-3.5 h-3.5" /> : <Phone className="w-3.5 h-3.5" />}
+            {isVideo ? 'Video call waiting…' : 'Voice call waiting…'}
+          </motion.p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mt-4">
+        <button
+          onClick={onReject}
+          className="flex flex-col items-center gap-1 py-2 rounded-xl bg-white/10 text-white/80 text-xs font-medium hover:bg-white/20 transition-colors"
+        >
+          <PhoneOff className="w-4 h-4 text-red-400" />
+          Decline
+        </button>
+        <button
+          onClick={onHoldAndAccept}
+          className="flex flex-col items-center gap-1 py-2 rounded-xl bg-white/10 text-white/80 text-xs font-medium hover:bg-white/20 transition-colors"
+        >
+          <Pause className="w-4 h-4 text-amber-400" />
+          Hold &amp; accept
+        </button>
+        <button
+          onClick={onAccept}
+          className="flex flex-col items-center gap-1 py-2 rounded-xl bg-gradient-to-r from-green-500 to-emerald-600 text-white text-xs font-medium"
+        >
+          <Phone className="w-4 h-4" />
+          End &amp; accept
+        </button>
+      </div>
+    </motion.div>
+  );
+}
+
+export function IncomingCallModal(props: IncomingCallModalProps) {
+  if (props.isWaiting) return <WaitingCallCard {...props} />;
+  const { caller, isVideo, onAccept, onReject } = props;
+
   return (
     <motion.div
       className="fixed inset-0 z-[100] bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center"
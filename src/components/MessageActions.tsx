@@ -0,0 +1,84 @@
+import { motion } from 'framer-motion';
+import { Reply, Pencil, Trash2, EyeOff } from 'lucide-react';
+import { cn } from '@/utils/cn';
+import { Message } from '@/types';
+import { DeleteScope } from '@/context/AppContext';
+
+// Quick reactions offered at the top of the menu
+const QUICK_REACTIONS = ['❤️', '😂', '😮', '😢', '👍', '🔥'];
+
+type MessageActionsProps = {
+  message: Message;
+  isOwn: boolean;
+  currentUserId: string;
+  onReact: (emoji: string) => void;
+  onReply: () => void;
+  onEdit: () => void;
+  onDelete: (scope: DeleteScope) => void;
+  onClose: () => void;
+};
+
+export function MessageActions({ message, isOwn, currentUserId, onReact, onReply, onEdit, onDelete, onClose }: MessageActionsProps) {
+  const isDeleted = !!message.deletedAt;
+  const actions = [
+    { id: 'reply', label: 'Reply', icon: Reply, show: !isDeleted, onClick: onReply },
+    { id: 'edit', label: 'Edit', icon: Pencil, show: isOwn && !isDeleted && message.type === 'text', onClick: onEdit },
+    { id: 'delete-me', label: 'Delete for me', icon: EyeOff, show: true, onClick: () => onDelete('me') },
+    { id: 'delete-everyone', label: 'Delete for everyone', icon: Trash2, show: isOwn && !isDeleted, onClick: () => onDelete('everyone') },
+  ].filter(action => action.show);
+
+  return (
+    <>
+      {/* Click-away layer */}
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9, y: -10 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: -10 }}
+        className={cn(
+          'absolute top-full mt-1 z-50 backdrop-blur-xl bg-slate-800/90 border border-white/20 rounded-2xl overflow-hidden shadow-2xl min-w-[240px]',
+          isOwn ? 'right-0' : 'left-0'
+        )}
+      >
+        {!isDeleted && (
+          <div className="flex justify-between gap-1 px-2 py-2 border-b border-white/10">
+            {QUICK_REACTIONS.map(emoji => {
+              const reacted = message.reactions?.some(r => r.userId === currentUserId && r.emoji === emoji);
+              return (
+                <motion.button
+                  key={emoji}
+                  onClick={() => {
+                    onReact(emoji);
+                    onClose();
+                  }}
+                  className={cn('text-xl w-9 h-9 rounded-full transition-colors', reacted ? 'bg-purple-500/40' : 'hover:bg-white/10')}
+                  whileHover={{ scale: 1.25 }}
+                  whileTap={{ scale: 0.9 }}
+                  aria-label={`React with ${emoji}`}
+                >
+                  {emoji}
+                </motion.button>
+              );
+            })}
+          </div>
+        )}
+        {actions.map(({ id, label, icon: Icon, onClick }) => (
+          <button
+            key={id}
+            onClick={() => {
+              onClick();
+              onClose();
+            }}
+            className={cn(
+              'w-full px-4 py-3 text-left flex items-center gap-3 transition-colors',
+              id.startsWith('delete') ? 'text-red-400 hover:bg-red-500/20' : 'text-white hover:bg-white/10'
+            )}
+          >
+            <Icon className="w-5 h-5" />
+            <span>{label}</span>
+          </button>
+        ))}
+      </motion.div>
+    </>
+  );
+}
@@ -0,0 +1,71 @@
+import { motion, AnimatePresence } from 'framer-motion';
+import { cn } from '@/utils/cn';
+import { Reaction } from '@/types';
+
+type MessageReactionBarProps = {
+  reactions: Reaction[];
+  currentUserId: string;
+  isOwn: boolean;
+  // Resolves a user id to the name shown in the "who reacted" tooltip
+  getName: (userId: string) => string;
+  onToggle: (emoji: string) => void;
+};
+
+type ReactionGroup = {
+  emoji: string;
+  userIds: string[];
+  firstAt: number;
+};
+
+// One chip per emoji, ordered by when that emoji was first used
+function groupReactions(reactions: Reaction[]): ReactionGroup[] {
+  const groups = new Map<string, ReactionGroup>();
+  reactions.forEach(r => {
+    const group = groups.get(r.emoji);
+    if (group) {
+      group.userIds.push(r.userId);
+      group.firstAt = Math.min(group.firstAt, r.timestamp);
+    } else {
+      groups.set(r.emoji, { emoji: r.emoji, userIds: [r.userId], firstAt: r.timestamp });
+    }
+  });
+  return Array.from(groups.values()).sort((a, b) => a.firstAt - b.firstAt);
+}
+
+export function MessageReactionBar({ reactions, currentUserId, isOwn, getName, onToggle }: MessageReactionBarProps) {
+  const groups = groupReactions(reactions);
+  if (groups.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap gap-1 -mt-1', isOwn ? 'justify-end' : 'justify-start')}>
+      <AnimatePresence initial={false}>
+        {groups.map(group => {
+          const mine = group.userIds.includes(currentUserId);
+          const names = group.userIds.map(id => (id === currentUserId ? 'You' : getName(id)));
+          return (
+            <motion.button
+              key={group.emoji}
+              layout
+              initial={{ scale: 0 }}
+              animate={{ scale: 1 }}
+              exit={{ scale: 0 }}
+              onClick={() => onToggle(group.emoji)}
+              className={cn(
+                'flex items-center gap-1 px-2 py-0.5 rounded-full text-sm border backdrop-blur-xl transition-colors',
+                mine
+                  ? 'bg-purple-500/30 border-purple-400/60 text-white'
+                  : 'bg-white/10 border-white/10 text-white/80 hover:bg-white/20'
+              )}
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+              title={`${names.join(', ')} reacted with ${group.emoji}`}
+            >
+              <span>{group.emoji}</span>
+              <span className="text-xs font-medium">{group.userIds.length}</span>
+            </motion.button>
+          );
+        })}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Server, KeyRound, Activity, Check, X, Loader2 } from 'lucide-react';
+import { cn } from '@/utils/cn';
+import { useApp } from '@/context/AppContext';
+import { IceCandidateType, IceDiagnostics, parseIceServers, runIceDiagnostics } from '@/lib/iceConfig';
+
+const candidateRows: { type: IceCandidateType; label: string; hint: string }[] = [
+  { type: 'host', label: 'Local (host)', hint: 'Direct connections on the same network' },
+  { type: 'srflx', label: 'Public (STUN)', hint: 'Direct connections across most home networks' },
+  { type: 'relay', label: 'Relay (TURN)', hint: 'Needed behind strict NATs and firewalls' },
+];
+
+// STUN/TURN overrides plus a check of which candidate types this network can actually gather
+export function NetworkSettings() {
+  const { iceOverride, setIceOverride, getIceConfiguration } = useApp();
+  const [serversText, setServersText] = useState(
+    () => (iceOverride.iceServers?.length ? JSON.stringify(iceOverride.iceServers, null, 2) : '')
+  );
+  const [tokenUrl, setTokenUrl] = useState(iceOverride.turnTokenUrl ?? '');
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [diagnostics, setDiagnostics] = useState<IceDiagnostics | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleSave = () => {
+    let iceServers: RTCIceServer[] | undefined;
+    if (serversText.trim()) {
+      try {
+        iceServers = parseIceServers(serversText);
+      } catch (err) {
+        setParseError(err instanceof Error ? err.message : 'Invalid JSON');
+        return;
+      }
+    }
+    setParseError(null);
+    setIceOverride({ ...iceOverride, iceServers, turnTokenUrl: tokenUrl.trim() || undefined });
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  const handleReset = () => {
+    setServersText('');
+    setTokenUrl('');
+    setParseError(null);
+    setIceOverride({});
+  };
+
+  const handleRunDiagnostics = async () => {
+    setIsRunning(true);
+    setDiagnostics(null);
+    try {
+      setDiagnostics(await runIceDiagnostics(await getIceConfiguration()));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 bg-white/5 rounded-xl border border-white/10">
+        <label className="flex items-center gap-2 text-white/70 text-sm font-medium mb-2">
+          <Server className="w-4 h-4" />
+          ICE Servers
+        </label>
+        <textarea
+          value={serversText}
+          onChange={(e) => setServersText(e.target.value)}
+          rows={5}
+          spellCheck={false}
+          placeholder='[{ "urls": "turn:turn.example.com:3478", "username": "…", "credential": "…" }]'
+          className="w-full px-3 py-2.5 bg-white/10 border border-white/20 rounded-xl text-white text-xs font-mono placeholder-white/30 focus:outline-none focus:border-purple-500 resize-y"
+        />
+        {parseError && <p className="text-red-400 text-xs mt-2">{parseError}</p>}
+        <p className="text-white/40 text-xs mt-2">Leave empty to use the app defaults.</p>
+      </div>
+
+      <div className="p-4 bg-white/5 rounded-xl border border-white/10">
+        <label className="flex items-center gap-2 text-white/70 text-sm font-medium mb-2">
+          <KeyRound className="w-4 h-4" />
+          TURN Credential Endpoint
+        </label>
+        <input
+          type="url"
+          value={tokenUrl}
+          onChange={(e) => setTokenUrl(e.target.value)}
+          placeholder="https://example.com/api/turn-credentials"
+          className="w-full px-3 py-2.5 bg-white/10 border border-white/20 rounded-xl text-white text-sm placeholder-white/30 focus:outline-none focus:border-purple-500"
+        />
+        <p className="text-white/40 text-xs mt-2">Short-lived credentials are fetched before each call.</p>
+      </div>
+
+      <div className="flex items-center justify-between p-4 bg-white/5 rounded-xl border border-white/10">
+        <div>
+          <h4 className="text-white font-medium">Relay Only</h4>
+          <p className="text-white/50 text-sm">Send all call media through TURN, hiding your IP from peers</p>
+        </div>
+        <button
+          role="switch"
+          aria-checked={!!iceOverride.relayOnly}
+          onClick={() => setIceOverride({ ...iceOverride, relayOnly: !iceOverride.relayOnly })}
+          className={cn(
+            'w-12 h-6 rounded-full relative cursor-pointer transition-colors flex-shrink-0',
+            iceOverride.relayOnly ? 'bg-green-500' : 'bg-white/20'
+          )}
+        >
+          <div
+            className={cn(
+              'absolute top-1 w-4 h-4 bg-white rounded-full transition-all',
+              iceOverride.relayOnly ? 'right-1' : 'left-1'
+            )}
+          />
+        </button>
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={handleReset}
+          className="flex-1 py-2.5 rounded-xl bg-white/10 text-white text-sm font-medium hover:bg-white/20 transition-colors"
+        >
+          Reset
+        </button>
+        <button
+          onClick={handleSave}
+          className="flex-1 py-2.5 rounded-xl bg-gradient-to-r from-purple-500 to-pink-500 text-white text-sm font-medium flex items-center justify-center gap-2"
+        >
+          {saved && <Check className="w-4 h-4" />}
+          {saved ? 'Saved' : 'Save'}
+        </button>
+      </div>
+
+      {/* ICE diagnostics */}
+      <div className="p-4 bg-white/5 rounded-xl border border-white/10">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-white font-medium flex items-center gap-2">
+            <Activity className="w-4 h-4" />
+            ICE Diagnostics
+          </h4>
+          <button
+            onClick={handleRunDiagnostics}
+            disabled={isRunning}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-white/70 bg-white/10 hover:bg-white/20 hover:text-white transition-colors disabled:opacity-50"
+          >
+            {isRunning && <Loader2 className="w-4 h-4 animate-spin" />}
+            {isRunning ? 'Testing…' : 'Run test'}
+          </button>
+        </div>
+
+        {diagnostics ? (
+          <div className="space-y-2">
+            {candidateRows.map(({ type, label, hint }) => {
+              const ok = diagnostics.found[type] > 0;
+              return (
+                <div key={type} className="flex items-center gap-3">
+                  <div className={cn(
+                    'w-6 h-6 rounded-full flex items-center justify-center flex-shrink-0',
+                    ok ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'
+                  )}>
+                    {ok ? <Check className="w-3.5 h-3.5" /> : <X className="w-3.5 h-3.5" />}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-white text-sm">{label}</p>
+                    <p className="text-white/40 text-xs">{hint}</p>
+                  </div>
+                </div>
+              );
+            })}
+            {diagnostics.error && <p className="text-amber-400 text-xs pt-1 break-all">{diagnostics.error}</p>}
+            <p className="text-white/40 text-xs pt-1">
+              {diagnostics.candidates.length} candidates in {(diagnostics.durationMs / 1000).toFixed(1)}s
+            </p>
+          </div>
+        ) : (
+          <p className="text-white/50 text-sm">
+            Check whether your network can reach the configured STUN and TURN servers.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { X, Mic, MicOff, Video, VideoOff, Volume2, Phone } from 'lucide-react';
+import { cn } from '@/utils/cn';
+import { useApp } from '@/context/AppContext';
+import { useAudioLevel } from '@/hooks/useAudioLevel';
+import { useMediaPreview } from '@/hooks/useMediaPreview';
+import { JoinOptions } from '@/hooks/useWebRTC';
+import { ColorAvatar } from './ColorAvatar';
+import { DeviceSettings } from './DeviceSettings';
+import { VideoEffectsSettings } from './VideoEffectsSettings';
+
+type PreCallLobbyProps = {
+  title: string;
+  subtitle: string;
+  isVideo: boolean;
+  joinLabel: string;
+  onJoin: (options: JoinOptions) => void;
+  onCancel: () => void;
+  themeGradient: string;
+};
+
+// Green room shown before placing or answering a call
+export function PreCallLobby({ title, subtitle, isVideo, joinLabel, onJoin, onCancel, themeGradient }: PreCallLobbyProps) {
+  const { user, devicePreferences, videoEffects, playSound, showPreCallLobby, setShowPreCallLobby } = useApp();
+  const [startMuted, setStartMuted] = useState(false);
+  const [startCameraOff, setStartCameraOff] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const { stream, error } = useMediaPreview({
+    enabled: true,
+    video: isVideo,
+    preferences: devicePreferences,
+    effects: videoEffects,
+  });
+  const level = useAudioLevel(stream);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  // Mirror the toggles on the preview so the meter and picture show what peers will get
+  useEffect(() => {
+    stream?.getAudioTracks().forEach(t => { t.enabled = !startMuted; });
+    stream?.getVideoTracks().forEach(t => { t.enabled = !startCameraOff; });
+  }, [stream, startMuted, startCameraOff]);
+
+  if (!user) return null;
+
+  const showVideo = isVideo && !startCameraOff && !!stream;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[110] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+      onClick={onCancel}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.9, opacity: 0, y: 20 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-gray-900/90 backdrop-blur-xl rounded-3xl border border-white/10"
+      >
+        {/* Header */}
+        <div className={`bg-gradient-to-r ${themeGradient} p-4 sm:p-6`}>
+          <div className="flex items-center justify-between">
+            <div className="min-w-0">
+              <h2 className="text-lg sm:text-xl font-bold text-white truncate">{title}</h2>
+              <p className="text-white/70 text-xs sm:text-sm">{subtitle}</p>
+            </div>
+            <button onClick={onCancel} className="p-2 hover:bg-white/20 rounded-full transition-colors">
+              <X className="w-5 h-5 sm:w-6 sm:h-6 text-white" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-4">
+          {/* Preview */}
+          <div className="relative aspect-video rounded-2xl overflow-hidden bg-slate-800 border border-white/10">
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              className={cn('absolute inset-0 w-full h-full object-cover', !showVideo && 'invisible')}
+              style={{ transform: 'scaleX(-1)' }}
+            />
+            {!showVideo && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 p-4 text-center">
+                <ColorAvatar name={user.displayName} color={user.avatarColor} size="xl" />
+                <p className="text-white/50 text-sm">
+                  {error || (!isVideo ? 'Audio call' : startCameraOff ? 'Camera off' : 'Starting camera…')}
+                </p>
+              </div>
+            )}
+
+            <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex gap-3">
+              <motion.button
+                onClick={() => setStartMuted(!startMuted)}
+                className={cn(
+                  'w-12 h-12 rounded-xl flex items-center justify-center transition-all',
+                  startMuted ? 'bg-red-500 text-white' : 'bg-black/40 backdrop-blur-md text-white hover:bg-black/60'
+                )}
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                aria-label={startMuted ? 'Join unmuted' : 'Join muted'}
+              >
+                {startMuted ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
+              </motion.button>
+              {isVideo && (
+                <motion.button
+                  onClick={() => setStartCameraOff(!startCameraOff)}
+                  className={cn(
+                    'w-12 h-12 rounded-xl flex items-center justify-center transition-all',
+                    startCameraOff ? 'bg-red-500 text-white' : 'bg-black/40 backdrop-blur-md text-white hover:bg-black/60'
+                  )}
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  aria-label={startCameraOff ? 'Join with camera on' : 'Join with camera off'}
+                >
+                  {startCameraOff ? <VideoOff className="w-5 h-5" /> : <Video className="w-5 h-5" />}
+                </motion.button>
+              )}
+            </div>
+          </div>
+
+          {/* Mic level and speaker test */}
+          <div className="flex items-center gap-3">
+            <Mic className="w-4 h-4 text-white/60 flex-shrink-0" />
+            <div className="flex-1 h-2 rounded-full bg-white/10 overflow-hidden">
+              <div
+                className="h-full rounded-full bg-gradient-to-r from-green-400 to-emerald-500 transition-[width] duration-75"
+                style={{ width: `${Math.round(level * 100)}%` }}
+              />
+            </div>
+            <button
+              onClick={() => playSound('test')}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-white/70 bg-white/10 hover:bg-white/20 hover:text-white transition-colors flex-shrink-0"
+            >
+              <Volume2 className="w-4 h-4" />
+              Test speaker
+            </button>
+          </div>
+
+          <DeviceSettings compact />
+
+          {isVideo && <VideoEffectsSettings compact />}
+
+          <label className="flex items-center gap-2 text-white/60 text-sm cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={showPreCallLobby}
+              onChange={(e) => setShowPreCallLobby(e.target.checked)}
+              className="accent-purple-500"
+            />
+            Show this preview before every call
+          </label>
+        </div>
+
+        <div className="p-4 sm:p-6 pt-2 border-t border-white/10 flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-3 rounded-2xl bg-white/10 text-white font-medium hover:bg-white/20 transition-colors"
+          >
+            Cancel
+          </button>
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={() => onJoin({ startMuted, startCameraOff: isVideo && startCameraOff })}
+            className={`flex-1 py-3 rounded-2xl font-semibold bg-gradient-to-r ${themeGradient} text-white flex items-center justify-center gap-2`}
+          >
+            <Phone className="w-4 h-4" />
+            {joinLabel}
+          </motion.button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,50 @@
+import { motion } from 'framer-motion';
+import { Phone, Video, X } from 'lucide-react';
+
+type RejoinCallBannerProps = {
+  // Names of the people still in the call
+  names: string[];
+  isVideo: boolean;
+  onRejoin: () => void;
+  onDismiss: () => void;
+};
+
+// Shown after leaving a call that others are still in
+export function RejoinCallBanner({ names, isVideo, onRejoin, onDismiss }: RejoinCallBannerProps) {
+  const label = names.length > 2 ? `${names.slice(0, 2).join(', ')} +${names.length - 2}` : names.join(', ');
+
+  return (
+    <motion.div
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-md flex items-center gap-3 backdrop-blur-xl bg-slate-800/90 border border-white/20 rounded-2xl pl-4 pr-2 py-2 shadow-xl"
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+    >
+      <motion.div
+        className="w-2.5 h-2.5 bg-green-500 rounded-full flex-shrink-0"
+        animate={{ scale: [1, 1.2, 1], opacity: [1, 0.6, 1] }}
+        transition={{ duration: 1.5, repeat: Infinity }}
+      />
+      <div className="min-w-0 flex-1">
+        <p className="text-white text-sm font-medium">Call in progress</p>
+        <p className="text-white/50 text-xs truncate">{label}</p>
+      </div>
+      <motion.button
+        onClick={onRejoin}
+        className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-gradient-to-r from-green-500 to-emerald-500 text-white text-sm font-medium flex-shrink-0"
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+      >
+        {isVideo ? <Video className="w-4 h-4" /> : <Phone className="w-4 h-4" />}
+        Rejoin
+      </motion.button>
+      <button
+        onClick={onDismiss}
+        className="p-2 rounded-lg text-white/50 hover:text-white hover:bg-white/10 transition-colors flex-shrink-0"
+        aria-label="Dismiss"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </motion.div>
+  );
+}
@@ -1,17 +1,20 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, User, Palette, Bell, Shield, Info, Copy, Check, Trash2, Sparkles } from 'lucide-react';
+import { X, User, Palette, Bell, Shield, Info, Copy, Check, Trash2, Sparkles, Headphones, Network } from 'lucide-react';
 import { cn } from '@/utils/cn';
 import { useApp } from '@/context/AppContext';
 import { colorThemes, ColorTheme } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
+import { DeviceSettings } from './DeviceSettings';
+import { VideoEffectsSettings } from './VideoEffectsSettings';
+import { NetworkSettings } from './NetworkSettings';
 
 type SettingsModalProps = {
   isOpen: boolean;
   onClose: () => void;
 };
 
-type Tab = 'profile' | 'theme' | 'notifications' | 'privacy' | 'about';
+type Tab = 'profile' | 'theme' | 'devices' | 'network' | 'notifications' | 'privacy' | 'about';
 
 const avatarPresets = [
   'adventurer', 'avataaars', 'big-ears', 'bottts', 'croodles', 'fun-emoji',
@@ -19,7 +22,7 @@ const avatarPresets = [
 ];
 
 export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
-  const { user, setUser, copyUserIdToClipboard, playSound } = useApp();
+  const { user, setUser, copyUserIdToClipboard, playSound, sendReadReceipts, setSendReadReceipts, showPreCallLobby, setShowPreCallLobby } = useApp();
   const [activeTab, setActiveTab] = useState<Tab>('profile');
   const [copied, setCopied] = useState(false);
   const [displayName, setDisplayName] = useState(user?.displayName || '');
@@ -65,6 +68,8 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   const tabs: { id: Tab; label: string; icon: typeof User }[] = [
     { id: 'profile', label: 'Profile', icon: User },
     { id: 'theme', label: 'Theme', icon: Palette },
+    { id: 'devices', label: 'Devices', icon: Headphones },
+    { id: 'network', label: 'Network', icon: Network },
     { id: 'notifications', label: 'Notifications', icon: Bell },
     { id: 'privacy', label: 'Privacy', icon: Shield },
     { id: 'about', label: 'About', icon: Info },
@@ -254,6 +259,37 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                 </div>
               )}
 
+              {activeTab === 'devices' && (
+                <div className="space-y-4">
+                  <DeviceSettings showPreview />
+                  <VideoEffectsSettings />
+                  <div className="flex items-center justify-between p-4 bg-white/5 rounded-xl border border-white/10">
+                    <div>
+                      <h4 className="text-white font-medium">Preview Before Calls</h4>
+                      <p className="text-white/50 text-sm">Check your camera and mic before joining a call</p>
+                    </div>
+                    <button
+                      role="switch"
+                      aria-checked={showPreCallLobby}
+                      onClick={() => setShowPreCallLobby(!showPreCallLobby)}
+                      className={cn(
+                        'w-12 h-6 rounded-full relative cursor-pointer transition-colors flex-shrink-0',
+                        showPreCallLobby ? 'bg-green-500' : 'bg-white/20'
+                      )}
+                    >
+                      <div
+                        className={cn(
+                          'absolute top-1 w-4 h-4 bg-white rounded-full transition-all',
+                          showPreCallLobby ? 'right-1' : 'left-1'
+                        )}
+                      />
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {activeTab === 'network' && <NetworkSettings />}
+
               {activeTab === 'notifications' && (
                 <div className="space-y-4">
                   <div className="flex items-center justify-between p-4 bg-white/5 rounded-xl border border-white/10">
@@ -279,6 +315,28 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
 
               {activeTab === 'privacy' && (
                 <div className="space-y-4">
+                  <div className="flex items-center justify-between p-4 bg-white/5 rounded-xl border border-white/10">
+                    <div>
+                      <h4 className="text-white font-medium">Read Receipts</h4>
+                      <p className="text-white/50 text-sm">Let friends see when you've read their messages</p>
+                    </div>
+                    <button
+                      role="switch"
+                      aria-checked={sendReadReceipts}
+                      onClick={() => setSendReadReceipts(!sendReadReceipts)}
+                      className={cn(
+                        'w-12 h-6 rounded-full relative cursor-pointer transition-colors flex-shrink-0',
+                        sendReadReceipts ? 'bg-green-500' : 'bg-white/20'
+                      )}
+                    >
+                      <div
+                        className={cn(
+                          'absolute top-1 w-4 h-4 bg-white rounded-full transition-all',
+                          sendReadReceipts ? 'right-1' : 'left-1'
+                        )}
+                      />
+                    </button>
+                  </div>
                   <div className="p-4 bg-white/5 rounded-xl border border-white/10">
                     <h4 className="text-white font-medium mb-2">Data Privacy</h4>
                     <p className="text-white/50 text-sm">
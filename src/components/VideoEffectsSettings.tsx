@@ -0,0 +1,134 @@
+import { useRef, useState } from 'react';
+import { Ban, Droplets, ImagePlus, Sparkles, Sun } from 'lucide-react';
+import { cn } from '@/utils/cn';
+import { useApp } from '@/context/AppContext';
+import {
+  BACKGROUND_PRESETS,
+  CUSTOM_BACKGROUND_ID,
+  isVideoEffectsSupported,
+  prepareBackgroundImage,
+  presetGradient,
+  VideoEffectSettings,
+} from '@/lib/videoEffects';
+
+type VideoEffectsSettingsProps = {
+  compact?: boolean;
+};
+
+function selectedTile(settings: VideoEffectSettings) {
+  if (settings.background === 'none') return 'none';
+  if (settings.background === 'blur') return `blur-${settings.blur}`;
+  return settings.backgroundImage;
+}
+
+// Background and lighting picker; previews pick the settings up from context
+export function VideoEffectsSettings({ compact }: VideoEffectsSettingsProps) {
+  const { videoEffects, setVideoEffects } = useApp();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  if (!isVideoEffectsSupported()) {
+    return <p className="text-white/40 text-sm">Camera effects aren't supported in this browser.</p>;
+  }
+
+  const selected = selectedTile(videoEffects);
+  const update = (changes: Partial<VideoEffectSettings>) => setVideoEffects({ ...videoEffects, ...changes });
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const customBackground = await prepareBackgroundImage(file);
+      setUploadError(null);
+      update({ background: 'image', backgroundImage: CUSTOM_BACKGROUND_ID, customBackground });
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Could not use that image');
+    }
+  };
+
+  const tileClass = (id: string) => cn(
+    'relative aspect-video rounded-lg overflow-hidden flex items-center justify-center text-white/70 border-2 transition-all',
+    selected === id ? 'border-purple-500' : 'border-transparent hover:border-white/30'
+  );
+
+  return (
+    <div className={cn(!compact && 'p-4 bg-white/5 rounded-xl border border-white/10', 'space-y-3')}>
+      <label className="flex items-center gap-2 text-white/70 text-sm font-medium">
+        <Sparkles className="w-4 h-4" />
+        Background
+      </label>
+
+      <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+        <button onClick={() => update({ background: 'none' })} className={cn(tileClass('none'), 'bg-white/10')} title="None">
+          <Ban className="w-4 h-4" />
+        </button>
+        {(['light', 'strong'] as const).map(blur => (
+          <button
+            key={blur}
+            onClick={() => update({ background: 'blur', blur })}
+            className={cn(tileClass(`blur-${blur}`), 'bg-white/10 gap-1 text-xs')}
+            title={blur === 'light' ? 'Slight blur' : 'Strong blur'}
+          >
+            <Droplets className={blur === 'light' ? 'w-3.5 h-3.5' : 'w-4 h-4'} />
+            {blur === 'light' ? 'Slight' : 'Strong'}
+          </button>
+        ))}
+        {BACKGROUND_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => update({ background: 'image', backgroundImage: preset.id })}
+            className={tileClass(preset.id)}
+            style={{ backgroundImage: presetGradient(preset.colors) }}
+            title={preset.label}
+          />
+        ))}
+        <button
+          onClick={() => (videoEffects.customBackground
+            ? update({ background: 'image', backgroundImage: CUSTOM_BACKGROUND_ID })
+            : fileInputRef.current?.click())}
+          className={cn(tileClass(CUSTOM_BACKGROUND_ID), 'bg-white/10 bg-cover bg-center')}
+          style={videoEffects.customBackground ? { backgroundImage: `url(${videoEffects.customBackground})` } : undefined}
+          title={videoEffects.customBackground ? 'Your image' : 'Upload an image'}
+        >
+          {!videoEffects.customBackground && <ImagePlus className="w-4 h-4" />}
+        </button>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => { handleUpload(e.target.files?.[0]); e.target.value = ''; }}
+      />
+      {videoEffects.customBackground && (
+        <button onClick={() => fileInputRef.current?.click()} className="text-purple-300 hover:text-purple-200 text-xs">
+          Change your image
+        </button>
+      )}
+      {uploadError && <p className="text-red-400 text-xs">{uploadError}</p>}
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="flex items-center gap-2 text-white/70 text-sm">
+          <Sun className="w-4 h-4" />
+          Light correction
+        </span>
+        <button
+          role="switch"
+          aria-checked={videoEffects.lightCorrection}
+          onClick={() => update({ lightCorrection: !videoEffects.lightCorrection })}
+          className={cn(
+            'w-12 h-6 rounded-full relative cursor-pointer transition-colors flex-shrink-0',
+            videoEffects.lightCorrection ? 'bg-green-500' : 'bg-white/20'
+          )}
+        >
+          <div
+            className={cn(
+              'absolute top-1 w-4 h-4 bg-white rounded-full transition-all',
+              videoEffects.lightCorrection ? 'right-1' : 'left-1'
+            )}
+          />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState, useRef, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Play, Pause } from 'lucide-react';
+import { VoiceWaveform } from './VoiceWaveform';
+
+type VoiceNotePlayerProps = {
+  src: string;
+  duration?: number;
+  waveform?: number[];
+};
+
+export function VoiceNotePlayer({ src, duration = 0, waveform }: VoiceNotePlayerProps) {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [position, setPosition] = useState(0);
+
+  useEffect(() => {
+    const audio = new Audio(src);
+    audioRef.current = audio;
+
+    const handleEnded = () => {
+      setIsPlaying(false);
+      setProgress(0);
+      setPosition(0);
+    };
+    audio.addEventListener('ended', handleEnded);
+
+    return () => {
+      audio.pause();
+      audio.removeEventListener('ended', handleEnded);
+      if (frameRef.current) cancelAnimationFrame(frameRef.current);
+      audioRef.current = null;
+    };
+  }, [src]);
+
+  // Drive the waveform from the audio clock while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+    const tick = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      // MediaRecorder webm files often report Infinity until fully read, so prefer the recorded length
+      const total = Number.isFinite(audio.duration) && audio.duration > 0 ? audio.duration : duration;
+      setPosition(audio.currentTime);
+      setProgress(total > 0 ? Math.min(1, audio.currentTime / total) : 0);
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+    return () => {
+      if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    };
+  }, [isPlaying, duration]);
+
+  const togglePlayback = async () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (isPlaying) {
+      audio.pause();
+      setIsPlaying(false);
+      return;
+    }
+    try {
+      await audio.play();
+      setIsPlaying(true);
+    } catch (err) {
+      console.error('[VOICE] Playback failed:', err);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <motion.button
+        onClick={togglePlayback}
+        className="w-9 h-9 rounded-full bg-white/20 flex items-center justify-center text-white flex-shrink-0"
+        whileHover={{ scale: 1.1 }}
+        whileTap={{ scale: 0.9 }}
+        aria-label={isPlaying ? 'Pause voice message' : 'Play voice message'}
+      >
+        {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4 ml-0.5" />}
+      </motion.button>
+      <VoiceWaveform
+        isRecording={false}
+        levels={waveform}
+        progress={progress}
+        duration={isPlaying || position > 0 ? position : duration}
+      />
+    </div>
+  );
+}
@@ -5,12 +5,29 @@ export { ChatView } from './ChatView';
 export { CallOverlay } from './CallOverlay';
 export { IncomingCallModal } from './IncomingCallModal';
 export { GroupCallModal } from './GroupCallModal';
+export { CreateGroupModal } from './CreateGroupModal';
+export { GroupMembersModal } from './GroupMembersModal';
+export { CallHistoryList } from './CallHistoryList';
+export { CallChatPanel } from './CallChatPanel';
+export { CallParticipantsPanel } from './CallParticipantsPanel';
+export { DeviceSettings } from './DeviceSettings';
+export { NetworkSettings } from './NetworkSettings';
+export { VideoEffectsSettings } from './VideoEffectsSettings';
+export { PreCallLobby } from './PreCallLobby';
+export { RejoinCallBanner } from './RejoinCallBanner';
+export { CallRecordingsPrompt } from './CallRecordingsPrompt';
 export { VoiceWaveform } from './VoiceWaveform';
+export { VoiceNotePlayer } from './VoiceNotePlayer';
+export { AttachmentPreview } from './AttachmentPreview';
+export { GifPicker } from './GifPicker';
+export { MessageActions } from './MessageActions';
+export { MessageReactionBar } from './MessageReactionBar';
 export { EmojiReaction } from './EmojiReaction';
 export { StatusIndicator } from './StatusIndicator';
 export { GlassCard } from './GlassCard';
 export { AnimatedButton } from './AnimatedButton';
 export { ColorAvatar } from './ColorAvatar';
+export { GroupAvatar } from './GroupAvatar';
 export { LoadingScreen } from './LoadingScreen';
 export { NotificationToast } from './NotificationToast';
 export { ParticleBackground } from './ParticleBackground';
@@ -1,10 +1,49 @@
-import { createContext, useContext, useState, useEffect, useCallback, ReactNode, useRef } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode, useRef } from 'react';
 import { supabase, testRealtimeConnection } from '@/lib/supabase';
-import { colorThemes, ColorTheme, Friend, Message, Reaction, User, UserProfile } from '@/types';
+import { applyMessageReaction, createMessageStore, deserializeMessage, mergeMessages, MESSAGE_PAGE_SIZE } from '@/lib/messageStore';
+import { CHUNK_INTERVAL_MS, CHUNK_THRESHOLD, createChunkAssembler, PayloadChunk, splitPayload } from '@/lib/chunkedTransfer';
+import { createImageThumbnail, createP2PBackend, createStorageBackend, DEFAULT_ATTACHMENT_BACKEND, formatFileSize, saveFileFromUrl } from '@/lib/attachments';
+import { createOfferedFileStore } from '@/lib/offeredFiles';
+import { createP2PFileTransfer, FILE_SIGNAL_EVENT, FileSignal, getFileSignalChannel } from '@/lib/p2pFileTransfer';
+import {
+  createGroupId,
+  deserializeGroupEvent,
+  getGroupInboxChannel,
+  GROUP_INBOX_EVENT,
+  GroupEvent,
+  loadGroups,
+  saveGroups,
+  sendGroupEvent,
+  toDirectConversation,
+  toGroupConversation,
+} from '@/lib/groups';
+import { applyCallEvent, CallLifecycleEvent, CallRecord, loadCallHistory, saveCallHistory } from '@/lib/callHistory';
+import { createRateLimiter } from '@/lib/rateLimit';
+import {
+  getRetryDelay,
+  loadOutbox,
+  loadOutboxEvents,
+  MAX_SEND_ATTEMPTS,
+  OutboxEntry,
+  OutboxEvent,
+  saveOutbox,
+  saveOutboxEvents,
+} from '@/lib/outbox';
+import { AttachmentBackendKind, ChatGroup, colorThemes, ColorTheme, Conversation, Friend, GroupMember, Message, MessageStatus, ReceiptKind, Reaction, User, UserProfile } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
-import { useWebRTC } from '@/hooks/useWebRTC';
+import { CallChatMessage, HeldCall, JoinOptions, MediaState, RejoinableCall, useWebRTC, WaitingCallAction } from '@/hooks/useWebRTC';
+import { useMediaDevices } from '@/hooks/useMediaDevices';
+import { CallRecording, useCallRecording } from '@/hooks/useCallRecording';
+import { DeviceLists, DevicePreferences } from '@/lib/mediaDevices';
+import { PeerStats } from '@/lib/callStats';
+import { getSfuConfig } from '@/lib/callTransport';
+import { createIceConfigResolver, IceOverride, loadIceOverride, saveIceOverride } from '@/lib/iceConfig';
+import { loadVideoEffects, saveVideoEffects, VideoEffectSettings } from '@/lib/videoEffects';
 import { stringToColor } from '@/components/ColorAvatar';
 
+// 'test' is the speaker check chime used by the pre-call lobby
+export type SoundEffect = 'pop' | 'ring' | 'hangup' | 'message' | 'test' | 'busy' | 'waiting' | 'hold';
+
 type IncomingCallInfo = {
   from: string;
   roomId: string;
@@ -13,6 +52,12 @@ type IncomingCallInfo = {
   fromUser: { displayName: string; avatarColor: string; colorTheme: string };
 };
 
+// Optional per-type fields passed along with sendMessage
+export type MessageExtras = Partial<Pick<Message, 'duration' | 'waveform' | 'attachment' | 'replyToId'>>;
+
+// 'me' only hides the message locally, 'everyone' tombstones it on both sides
+export type DeleteScope = 'me' | 'everyone';
+
 type AppContextType = {
   isConnected: boolean;
   connectionError: string | null;
@@ -21,10 +66,35 @@ type AppContextType = {
   addFriend: (friendId: string) => Promise<{ success: boolean; error?: string }>;
   removeFriend: (friendId: string) => Promise<void>;
   onlineUsers: Set<string>;
-  activeChat: Friend | null;
-  setActiveChat: (friend: Friend | null) => void;
+  groups: ChatGroup[];
+  createGroup: (name: string, friendIds: string[]) => ChatGroup | null;
+  addGroupMembers: (groupId: string, friendIds: string[]) => void;
+  // Removing yourself leaves the group
+  removeGroupMember: (groupId: string, memberId: string) => void;
+  activeChat: Conversation | null;
+  setActiveChat: (conversation: Conversation | null) => void;
   messages: Message[];
-  sendMessage: (content: string, type: Message['type'], fileUrl?: string) => Promise<void>;
+  hasMoreMessages: boolean;
+  isLoadingMessages: boolean;
+  loadOlderMessages: () => Promise<void>;
+  sendMessage: (content: string, type: Message['type'], fileUrl?: string, extras?: MessageExtras) => void;
+  retryMessage: (messageId: string) => void;
+  editMessage: (messageId: string, content: string) => void;
+  deleteMessage: (messageId: string, scope: DeleteScope) => void;
+  toggleMessageReaction: (messageId: string, emoji: string) => void;
+  sendAttachment: (file: File, backend?: AttachmentBackendKind) => Promise<{ success: boolean; error?: string }>;
+  downloadAttachment: (message: Message) => Promise<{ success: boolean; error?: string }>;
+  getAttachmentUrl: (message: Message) => string | null;
+  transferProgress: Record<string, number>;
+  markMessagesRead: (messageIds: string[]) => void;
+  sendReadReceipts: boolean;
+  setSendReadReceipts: (value: boolean) => void;
+  showPreCallLobby: boolean;
+  setShowPreCallLobby: (value: boolean) => void;
+  // Per-user STUN/TURN settings, layered over the build-time defaults
+  iceOverride: IceOverride;
+  setIceOverride: (override: IceOverride) => void;
+  getIceConfiguration: () => Promise<RTCConfiguration>;
   isTyping: boolean;
   setIsTyping: (value: boolean) => void;
   friendTyping: boolean;
@@ -34,27 +104,80 @@ type AppContextType = {
   isMuted: boolean;
   isCameraOff: boolean;
   isScreenSharing: boolean;
+  isHandRaised: boolean;
+  // Our side of the call is paused; peers see it as on hold
+  isOnHold: boolean;
+  peerMediaStates: Map<string, MediaState>;
+  callChatMessages: CallChatMessage[];
+  // Peers whose connection dropped and is being restored
+  reconnectingPeers: string[];
+  // Other participants recording the call, per their consent notice
+  recordingPeers: string[];
+  isRecording: boolean;
+  startRecording: () => { success: boolean; error?: string };
+  stopRecording: () => Promise<void>;
+  // Finished recordings waiting to be downloaded
+  callRecordings: CallRecording[];
+  dismissCallRecordings: () => void;
+  // Latest getStats() figures per remote participant
+  peerStats: Map<string, PeerStats>;
+  // Who is actually in the call room right now (including us)
+  callRoster: string[];
+  rejoinableCall: RejoinableCall | null;
+  // A call parked to answer the current one; it resumes when this one ends
+  heldCall: HeldCall | null;
+  // Callees who were busy when we rang them, shown briefly after the invite
+  busyPeers: string[];
   isVideoCall: boolean;
+  // Participants currently talking (including us) and the one who has the floor
+  speakingIds: string[];
+  dominantSpeakerId: string | null;
   incomingCall: IncomingCallInfo | null;
-  initiateCall: (targetUserIds: string[], video: boolean) => Promise<void>;
-  acceptCall: () => Promise<void>;
+  initiateCall: (targetUserIds: string[], video: boolean, options?: JoinOptions) => Promise<void>;
+  acceptCall: (options?: JoinOptions) => Promise<void>;
   rejectCall: () => void;
   endCall: () => void;
+  answerWaitingCall: (action: WaitingCallAction) => Promise<void>;
+  swapCalls: () => void;
+  toggleHold: () => void;
+  addParticipants: (userIds: string[]) => void;
+  rejoinCall: (options?: JoinOptions) => Promise<void>;
+  dismissRejoin: () => void;
   toggleMute: () => void;
   toggleCamera: () => void;
   toggleScreenShare: () => Promise<void>;
+  toggleHandRaise: () => void;
+  mediaDevices: DeviceLists;
+  devicePreferences: DevicePreferences;
+  setPreferredDevice: (kind: MediaDeviceKind, deviceId: string) => void;
+  canSelectAudioOutput: boolean;
+  // Background blur/replacement and light correction for the local camera
+  videoEffects: VideoEffectSettings;
+  setVideoEffects: (settings: VideoEffectSettings) => void;
+  sendCallChatMessage: (content: string) => void;
   currentCallTargets: string[];
+  callHistory: CallRecord[];
+  clearCallHistory: () => void;
   reactions: Reaction[];
   addReaction: (emoji: string) => void;
   showEmojiPicker: boolean;
   setShowEmojiPicker: (value: boolean) => void;
-  playSound: (sound: 'pop' | 'ring' | 'hangup' | 'message') => void;
+  playSound: (sound: SoundEffect) => void;
   copyUserIdToClipboard: () => void;
 };
 
 const AppContext = createContext<AppContextType | null>(null);
 
 const FRIENDS_STORAGE_KEY = 'callie_friends';
+const READ_RECEIPTS_STORAGE_KEY = 'callie_read_receipts';
+const PRECALL_LOBBY_STORAGE_KEY = 'callie_precall_lobby';
+// In-call reactions: a burst of 5, then one every 400ms per participant
+const REACTION_BURST = 5;
+const REACTION_REFILL_MS = 400;
+const REACTION_LIFETIME_MS = 3000;
+const SFU_CONFIG = getSfuConfig();
+// How long a queued message may wait to join another room's chat channel
+const ROOM_CHANNEL_TIMEOUT_MS = 10000;
 
 interface AppProviderProps {
   children: ReactNode;
@@ -91,23 +214,199 @@ export function AppProvider({ children, userProfile }: AppProviderProps) {
   });
 
   const [onlineUsers, setOnlineUsers] = useState<Set<string>>(new Set());
-  const [activeChat, setActiveChat] = useState<Friend | null>(null);
+  const [groups, setGroups] = useState<ChatGroup[]>(() => loadGroups(userProfile.id));
+  const [callHistory, setCallHistory] = useState<CallRecord[]>(() => loadCallHistory(userProfile.id));
+  const [activeChatId, setActiveChatId] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [isLoadingMessages, setIsLoadingMessages] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
   const [friendTyping, setFriendTyping] = useState(false);
   const [reactions, setReactions] = useState<Reaction[]>([]);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const [transferProgress, setTransferProgress] = useState<Record<string, number>>({});
+  const [downloadedFiles, setDownloadedFiles] = useState<Record<string, string>>({});
+  const [sendReadReceipts, setSendReadReceipts] = useState(
+    () => localStorage.getItem(`${READ_RECEIPTS_STORAGE_KEY}_${userProfile.id}`) !== 'false'
+  );
+  const [showPreCallLobby, setShowPreCallLobby] = useState(
+    () => localStorage.getItem(`${PRECALL_LOBBY_STORAGE_KEY}_${userProfile.id}`) !== 'false'
+  );
+  const [iceOverride, setIceOverride] = useState<IceOverride>(() => loadIceOverride(userProfile.id));
+  const [videoEffects, setVideoEffects] = useState<VideoEffectSettings>(() => loadVideoEffects(userProfile.id));
 
   const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const chatChannelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const messagesRef = useRef<Message[]>([]);
+  const loadingOlderRef = useRef(false);
+  const chatSubscribedRef = useRef(false);
+  // Room the open chat channel belongs to
+  const chatRoomIdRef = useRef<string | null>(null);
+  const outboxRef = useRef<OutboxEntry[]>(loadOutbox(userProfile.id));
+  const outboxEventsRef = useRef<OutboxEvent[]>(loadOutboxEvents(userProfile.id));
+  const outboxTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const outboxFlushingRef = useRef(false);
+  const outboxFlushAgainRef = useRef(false);
+  const iceOverrideRef = useRef(iceOverride);
+
+  // Chat history persistence
+  const messageStore = useMemo(() => createMessageStore(userProfile.id), [userProfile.id]);
+
+  // Resolved from the latest friends/groups so presence and membership changes show up live
+  const activeChat = useMemo<Conversation | null>(() => {
+    if (!activeChatId) return null;
+    const group = groups.find(g => g.id === activeChatId);
+    if (group) return toGroupConversation(userProfile.id, group);
+    const friend = friends.find(f => toDirectConversation(userProfile.id, f).id === activeChatId);
+    return friend ? toDirectConversation(userProfile.id, friend) : null;
+  }, [activeChatId, groups, friends, userProfile.id]);
+  const activeRoomId = activeChat?.id ?? null;
+
+  const setActiveChat = useCallback((conversation: Conversation | null) => {
+    setActiveChatId(conversation?.id ?? null);
+  }, []);
+
+  // STUN/TURN servers for calls and transfers; TURN credentials are cached until they near expiry
+  const iceResolver = useMemo(
+    () => createIceConfigResolver({ userId: userProfile.id, getOverride: () => iceOverrideRef.current }),
+    [userProfile.id]
+  );
+
+  // Peer-to-peer attachment transfers, signalled over each user's own file channel.
+  // A peer's channel is joined on the first signal for them and kept for the rest.
+  const fileSignalChannelsRef = useRef(new Map<string, Promise<ReturnType<typeof supabase.channel> | null>>());
+  const offeredFileStore = useMemo(() => createOfferedFileStore(userProfile.id), [userProfile.id]);
+
+  const fileTransfer = useMemo(() => {
+    const lastPercent = new Map<string, number>();
+    const channels = fileSignalChannelsRef.current;
+    const joinPeerChannel = (peerId: string) => {
+      let joined = channels.get(peerId);
+      if (!joined) {
+        joined = new Promise(resolve => {
+          const channel = supabase.channel(getFileSignalChannel(peerId), {
+            config: { broadcast: { self: false } }
+          });
+          channel.subscribe((status) => {
+            if (status === 'SUBSCRIBED') {
+              resolve(channel);
+            } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+              channels.delete(peerId);
+              supabase.removeChannel(channel);
+              resolve(null);
+            }
+          });
+        });
+        channels.set(peerId, joined);
+      }
+      return joined;
+    };
+
+    return createP2PFileTransfer({
+      myUserId: userProfile.id,
+      getRtcConfig: iceResolver.current,
+      store: offeredFileStore,
+      sendSignal: async (signal) => {
+        const channel = await joinPeerChannel(signal.to);
+        if (!channel) {
+          console.warn('[FILE] Could not reach', signal.to, 'for', signal.type);
+          return;
+        }
+        channel.send({ type: 'broadcast', event: FILE_SIGNAL_EVENT, payload: signal });
+      },
+      onProgress: ({ transferId, received, total }) => {
+        const percent = total > 0 ? Math.floor((received / total) * 100) : 0;
+        if (lastPercent.get(transferId) === percent) return;
+        lastPercent.set(transferId, percent);
+        setTransferProgress(prev => ({ ...prev, [transferId]: percent / 100 }));
+      },
+    });
+  }, [userProfile.id, iceResolver, offeredFileStore]);
+
+  useEffect(() => {
+    offeredFileStore.prune().catch(err => console.warn('[FILE] Could not prune stored offers:', err));
+  }, [offeredFileStore]);
+
+  useEffect(() => () => {
+    fileTransfer.close();
+    const channels = fileSignalChannelsRef.current;
+    channels.forEach(joined => joined.then(channel => { if (channel) supabase.removeChannel(channel); }));
+    channels.clear();
+  }, [fileTransfer]);
+
+  // Requests for files we offered arrive on our own channel, whichever chat is open
+  useEffect(() => {
+    const inbox = supabase.channel(getFileSignalChannel(user.id), {
+      config: { broadcast: { self: false } }
+    });
+    inbox.on('broadcast', { event: FILE_SIGNAL_EVENT }, ({ payload }) => {
+      fileTransfer.handleSignal(payload as FileSignal);
+    });
+    inbox.subscribe();
+    return () => {
+      supabase.removeChannel(inbox);
+    };
+  }, [user.id, fileTransfer]);
+
+  useEffect(() => { messagesRef.current = messages; }, [messages]);
+
+  // Shared by our own reactions and incoming ones, so a peer that skips its
+  // local limit still can't flood our screen
+  const reactionLimiter = useMemo(() => createRateLimiter(REACTION_BURST, REACTION_REFILL_MS), []);
+
+  const showReaction = useCallback((reaction: Reaction) => {
+    setReactions(prev => [...prev, reaction]);
+    setTimeout(() => { setReactions(prev => prev.filter(x => x.id !== reaction.id)); }, REACTION_LIFETIME_MS);
+  }, []);
+
+  const handleRemoteReaction = useCallback((reaction: Reaction) => {
+    if (!reactionLimiter.tryTake(reaction.userId)) return;
+    showReaction(reaction);
+  }, [reactionLimiter, showReaction]);
 
   // WebRTC hook
+  const handleCallEvent = useCallback((event: CallLifecycleEvent) => {
+    setCallHistory(prev => applyCallEvent(prev, event));
+  }, []);
+
+  const clearCallHistory = useCallback(() => setCallHistory([]), []);
+
+  const { devices: mediaDevices, preferences: devicePreferences, setPreferredDevice, refreshDevices, canSelectOutput } = useMediaDevices(userProfile.id);
+  const audioOutputId = devicePreferences.audiooutput;
+
   const webRTC = useWebRTC(user.id, {
     displayName: user.displayName,
     avatarColor: user.avatarColor,
     colorTheme: user.colorTheme.gradient,
+  }, { onCallEvent: handleCallEvent, onReaction: handleRemoteReaction, devicePreferences, videoEffects, getIceConfig: iceResolver.resolve, sfu: SFU_CONFIG });
+
+  // Call recording: our own tile first, then everyone else
+  const recordingStreams = useMemo(() => {
+    const streams = new Map<string, MediaStream>(webRTC.localStream ? [[user.id, webRTC.localStream]] : []);
+    webRTC.remoteStreams.forEach((stream, id) => streams.set(id, stream));
+    return streams;
+  }, [user.id, webRTC.localStream, webRTC.remoteStreams]);
+
+  const getRecordingTileInfo = useCallback((userId: string) => {
+    if (userId === user.id) return { label: user.displayName, color: user.avatarColor };
+    const friend = friends.find(f => f.id === userId);
+    if (friend) return { label: friend.displayName, color: friend.avatarColor };
+    const member = groups.flatMap(g => g.members).find(m => m.id === userId);
+    return { label: member?.displayName ?? 'Guest', color: member?.avatarColor ?? stringToColor(userId) };
+  }, [user.id, user.displayName, user.avatarColor, friends, groups]);
+
+  const callRecording = useCallRecording({
+    roomId: webRTC.currentRoomId,
+    streams: recordingStreams,
+    getTileInfo: getRecordingTileInfo,
+    onRecordingChange: webRTC.setRecording,
   });
 
+  // Device labels only become readable once the user has granted media access
+  useEffect(() => {
+    if (webRTC.localStream) refreshDevices();
+  }, [webRTC.localStream, refreshDevices]);
+
   // Test connection on mount
   useEffect(() => {
     const init = async () => {
@@ -128,14 +427,49 @@ export function AppProvider({ children, userProfile }: AppProviderProps) {
     localStorage.setItem(`${FRIENDS_STORAGE_KEY}_${userProfile.id}`, JSON.stringify(friends));
   }, [friends, userProfile.id]);
 
+  useEffect(() => {
+    saveGroups(userProfile.id, groups);
+  }, [groups, userProfile.id]);
+
+  useEffect(() => {
+    saveCallHistory(userProfile.id, callHistory);
+  }, [callHistory, userProfile.id]);
+
+  useEffect(() => {
+    localStorage.setItem(`${READ_RECEIPTS_STORAGE_KEY}_${userProfile.id}`, String(sendReadReceipts));
+  }, [sendReadReceipts, userProfile.id]);
+
+  useEffect(() => {
+    localStorage.setItem(`${PRECALL_LOBBY_STORAGE_KEY}_${userProfile.id}`, String(showPreCallLobby));
+  }, [showPreCallLobby, userProfile.id]);
+
+  useEffect(() => {
+    saveVideoEffects(userProfile.id, videoEffects);
+  }, [videoEffects, userProfile.id]);
+
+  // A changed override makes any cached TURN credentials stale
+  useEffect(() => {
+    iceOverrideRef.current = iceOverride;
+    iceResolver.invalidate();
+    saveIceOverride(userProfile.id, iceOverride);
+  }, [iceOverride, iceResolver, userProfile.id]);
+
   // Sound effects
-  const playSound = useCallback((sound: 'pop' | 'ring' | 'hangup' | 'message') => {
+  const playSound = useCallback((sound: SoundEffect) => {
     try {
       const ctx = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
       const osc = ctx.createOscillator();
       const gain = ctx.createGain();
       osc.connect(gain);
       gain.connect(ctx.destination);
+      // Browsers cap live contexts; repeated sounds (hold tone, ringing) would otherwise exhaust them
+      osc.onended = () => { ctx.close().catch(() => {}); };
+
+      // Follow the chosen speaker where the browser lets an AudioContext pick one
+      const sinkCtx = ctx as AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+      if (audioOutputId && sinkCtx.setSinkId) {
+        sinkCtx.setSinkId(audioOutputId).catch(() => {});
+      }
 
       switch (sound) {
         case 'pop':
@@ -167,11 +501,52 @@ export function AppProvider({ children, userProfile }: AppProviderProps) {
           osc.frequency.linearRampToValueAtTime(200, ctx.currentTime + 0.3);
           osc.stop(ctx.currentTime + 0.3);
           break;
+        case 'test':
+          // Rising C-E-G chime
+          gain.gain.value = 0.15;
+          osc.frequency.setValueAtTime(523, ctx.currentTime);
+          osc.frequency.setValueAtTime(659, ctx.currentTime + 0.25);
+          osc.frequency.setValueAtTime(784, ctx.currentTime + 0.5);
+          gain.gain.setValueAtTime(0.15, ctx.currentTime + 0.7);
+          gain.gain.linearRampToValueAtTime(0, ctx.currentTime + 0.9);
+          osc.start();
+          osc.stop(ctx.currentTime + 0.9);
+          break;
+        case 'busy':
+          // Three beeps of the usual busy cadence
+          osc.frequency.value = 480;
+          gain.gain.setValueAtTime(0, ctx.currentTime);
+          [0, 1, 2].forEach(i => {
+            gain.gain.setValueAtTime(0.1, ctx.currentTime + i);
+            gain.gain.setValueAtTime(0, ctx.currentTime + i + 0.5);
+          });
+          osc.start();
+          osc.stop(ctx.currentTime + 2.5);
+          break;
+        case 'waiting':
+          // Two quiet beeps, so the call in progress isn't drowned out
+          osc.frequency.value = 440;
+          gain.gain.setValueAtTime(0.08, ctx.currentTime);
+          gain.gain.setValueAtTime(0, ctx.currentTime + 0.2);
+          gain.gain.setValueAtTime(0.08, ctx.currentTime + 0.4);
+          osc.start();
+          osc.stop(ctx.currentTime + 0.6);
+          break;
+        case 'hold':
+          // Gentle falling pair, repeated as a reminder while the call is held
+          osc.frequency.setValueAtTime(660, ctx.currentTime);
+          osc.frequency.setValueAtTime(494, ctx.currentTime + 0.3);
+          gain.gain.setValueAtTime(0.06, ctx.currentTime);
+          gain.gain.setValueAtTime(0.06, ctx.currentTime + 0.5);
+          gain.gain.linearRampToValueAtTime(0, ctx.currentTime + 0.7);
+          osc.start();
+          osc.stop(ctx.currentTime + 0.7);
+          break;
       }
     } catch {
       // ignore
     }
-  }, []);
+  }, [audioOutputId]);
 
   const copyUserIdToClipboard = useCallback(() => {
     navigator.clipboard.writeText(user.id);
@@ -214,44 +589,462 @@ export function AppProvider({ children, userProfile }: AppProviderProps) {
   // Remove friend
   const removeFriend = useCallback(async (friendId: string) => {
     setFriends(prev => prev.filter(f => f.id !== friendId));
-    if (activeChat?.id === friendId) setActiveChat(null);
-  }, [activeChat]);
+    if (activeChat?.friend?.id === friendId) setActiveChat(null);
+  }, [activeChat, setActiveChat]);
+
+  // ─── GROUPS ────────────────────────────────────────────────────
+  const toGroupMember = useCallback((friendId: string): GroupMember | null => {
+    const friend = friends.find(f => f.id === friendId);
+    return friend ? { id: friend.id, displayName: friend.displayName, avatarColor: friend.avatarColor } : null;
+  }, [friends]);
+
+  const createGroup = useCallback((name: string, friendIds: string[]): ChatGroup | null => {
+    const members = friendIds.map(toGroupMember).filter((m): m is GroupMember => m !== null);
+    if (!name.trim() || members.length === 0) return null;
+
+    const group: ChatGroup = {
+      id: createGroupId(uuidv4()),
+      name: name.trim(),
+      ownerId: user.id,
+      members: [{ id: user.id, displayName: user.displayName, avatarColor: user.avatarColor }, ...members],
+      createdAt: new Date(),
+    };
+    setGroups(prev => [...prev, group]);
+    sendGroupEvent(members.map(m => m.id), { type: 'group-created', group, actorId: user.id, memberIds: members.map(m => m.id) });
+    playSound('pop');
+    return group;
+  }, [user.id, user.displayName, user.avatarColor, toGroupMember, playSound]);
+
+  const addGroupMembers = useCallback((groupId: string, friendIds: string[]) => {
+    const group = groups.find(g => g.id === groupId);
+    if (!group) return;
+    const added = friendIds
+      .filter(id => !group.members.some(m => m.id === id))
+      .map(toGroupMember)
+      .filter((m): m is GroupMember => m !== null);
+    if (added.length === 0) return;
+
+    const updated = { ...group, members: [...group.members, ...added] };
+    setGroups(prev => prev.map(g => (g.id === groupId ? updated : g)));
+    const recipients = updated.members.map(m => m.id).filter(id => id !== user.id);
+    sendGroupEvent(recipients, { type: 'member-added', group: updated, actorId: user.id, memberIds: added.map(m => m.id) });
+  }, [groups, user.id, toGroupMember]);
+
+  const removeGroupMember = useCallback((groupId: string, memberId: string) => {
+    const group = groups.find(g => g.id === groupId);
+    if (!group) return;
+    // Only the owner may remove other people; anyone may leave
+    if (memberId !== user.id && group.ownerId !== user.id) return;
+
+    const updated = { ...group, members: group.members.filter(m => m.id !== memberId) };
+    const recipients = group.members.map(m => m.id).filter(id => id !== user.id);
+    sendGroupEvent(recipients, { type: 'member-removed', group: updated, actorId: user.id, memberIds: [memberId] });
+    if (memberId === user.id) {
+      setGroups(prev => prev.filter(g => g.id !== groupId));
+    } else {
+      setGroups(prev => prev.map(g => (g.id === groupId ? updated : g)));
+    }
+  }, [groups, user.id]);
+
+  // Joins a room's chat channel just long enough to send; used for queued messages
+  // of rooms other than the open one. Resolves null if the channel can't be joined.
+  const joinRoomChannel = useCallback((roomId: string) => new Promise<ReturnType<typeof supabase.channel> | null>(resolve => {
+    const channel = supabase.channel(`chat:${roomId}`, {
+      config: { broadcast: { self: false } }
+    });
+    const timeout = setTimeout(() => {
+      supabase.removeChannel(channel);
+      resolve(null);
+    }, ROOM_CHANNEL_TIMEOUT_MS);
+    channel.subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        clearTimeout(timeout);
+        resolve(channel);
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        clearTimeout(timeout);
+        supabase.removeChannel(channel);
+        resolve(null);
+      }
+    });
+  }), []);
+
+  // Broadcast a message on a subscribed chat channel
+  const deliverMessage = useCallback(async (channel: ReturnType<typeof supabase.channel>, msg: Message): Promise<boolean> => {
+    try {
+      const payload = { ...msg, status: undefined, createdAt: msg.createdAt.toISOString() };
+      const serialized = JSON.stringify(payload);
+      if (serialized.length <= CHUNK_THRESHOLD) {
+        const result = await channel.send({ type: 'broadcast', event: 'message', payload });
+        return result === 'ok';
+      }
+
+      // Large payloads (voice notes) go out in paced chunks and are reassembled by the receiver
+      for (const chunk of splitPayload(msg.id, serialized)) {
+        const result = await channel.send({ type: 'broadcast', event: 'message-chunk', payload: chunk });
+        if (result !== 'ok') return false;
+        await new Promise(r => setTimeout(r, CHUNK_INTERVAL_MS));
+      }
+      return true;
+    } catch (err) {
+      console.error('Failed to send message:', err);
+      return false;
+    }
+  }, []);
+
+  const setMessageStatus = useCallback((roomId: string, msg: Message, status: MessageStatus) => {
+    const latest = messagesRef.current.find(m => m.id === msg.id) ?? msg;
+    const updated = { ...latest, status };
+    setMessages(prev => prev.map(m => (m.id === msg.id ? { ...m, status } : m)));
+    messageStore.saveMessage(roomId, updated).catch(err => console.error('Failed to store message:', err));
+  }, [messageStore]);
+
+  const updateOutbox = useCallback((entries: OutboxEntry[]) => {
+    outboxRef.current = entries;
+    saveOutbox(userProfile.id, entries);
+  }, [userProfile.id]);
+
+  const updateOutboxEvents = useCallback((events: OutboxEvent[]) => {
+    outboxEventsRef.current = events;
+    saveOutboxEvents(userProfile.id, events);
+  }, [userProfile.id]);
+
+  // Sends every queued message whose backoff has elapsed, room by room, then schedules
+  // the next pass. Only one pass runs at a time; calls made meanwhile trigger another.
+  // Attempts only count once a channel is subscribed, so going offline never fails a message.
+  const flushOutbox = useCallback(async () => {
+    if (outboxFlushingRef.current) {
+      outboxFlushAgainRef.current = true;
+      return;
+    }
+    outboxFlushingRef.current = true;
+    if (outboxTimerRef.current) {
+      clearTimeout(outboxTimerRef.current);
+      outboxTimerRef.current = null;
+    }
+
+    try {
+      do {
+        outboxFlushAgainRef.current = false;
+        const now = Date.now();
+        const dueRooms = [...new Set(
+          [...outboxRef.current, ...outboxEventsRef.current].filter(e => e.nextAttemptAt <= now).map(e => e.roomId)
+        )];
+        // The open room goes first so its messages never wait on joining other rooms' channels
+        dueRooms.sort((a, b) => Number(b === chatRoomIdRef.current) - Number(a === chatRoomIdRef.current));
+        for (const roomId of dueRooms) {
+          const isOpenRoom = roomId === chatRoomIdRef.current;
+          const channel = !navigator.onLine
+            ? null
+            : isOpenRoom
+              ? (chatSubscribedRef.current ? chatChannelRef.current : null)
+              : await joinRoomChannel(roomId);
+
+          const due = outboxRef.current.filter(e => e.roomId === roomId && e.nextAttemptAt <= now);
+          for (const entry of due) {
+            if (!channel) {
+              // Offline: try again later without using up an attempt
+              updateOutbox(outboxRef.current.map(e => (
+                e.message.id === entry.message.id ? { ...e, nextAttemptAt: Date.now() + getRetryDelay(e.attempts) } : e
+              )));
+              continue;
+            }
+            const ok = await deliverMessage(channel, entry.message);
+            const rest = outboxRef.current.filter(e => e.message.id !== entry.message.id);
+            if (ok) {
+              updateOutbox(rest);
+              setMessageStatus(roomId, entry.message, 'sent');
+              continue;
+            }
+            const attempts = entry.attempts + 1;
+            if (attempts >= MAX_SEND_ATTEMPTS) {
+              console.warn('Giving up on message after', attempts, 'attempts:', entry.message.id);
+              updateOutbox(rest);
+              setMessageStatus(roomId, entry.message, 'failed');
+            } else {
+              updateOutbox([...rest, { ...entry, attempts, nextAttemptAt: Date.now() + getRetryDelay(attempts) }]);
+            }
+          }
+
+          // Edits, deletes and reactions follow the messages they refer to
+          const dueEvents = outboxEventsRef.current.filter(e => e.roomId === roomId && e.nextAttemptAt <= now);
+          for (const entry of dueEvents) {
+            if (!channel) {
+              updateOutboxEvents(outboxEventsRef.current.map(e => (
+                e.id === entry.id ? { ...e, nextAttemptAt: Date.now() + getRetryDelay(e.attempts) } : e
+              )));
+              continue;
+            }
+            const result = await channel.send({ type: 'broadcast', event: entry.event, payload: entry.payload })
+              .catch(() => 'error');
+            const rest = outboxEventsRef.current.filter(e => e.id !== entry.id);
+            const attempts = entry.attempts + 1;
+            if (result === 'ok') {
+              updateOutboxEvents(rest);
+            } else if (attempts >= MAX_SEND_ATTEMPTS) {
+              console.warn('Giving up on', entry.event, 'after', attempts, 'attempts');
+              updateOutboxEvents(rest);
+            } else {
+              updateOutboxEvents([...rest, { ...entry, attempts, nextAttemptAt: Date.now() + getRetryDelay(attempts) }]);
+            }
+          }
+
+          // The room may have been opened meanwhile, in which case the chat effect now owns the channel
+          if (channel && !isOpenRoom && chatChannelRef.current !== channel) supabase.removeChannel(channel);
+        }
+      } while (outboxFlushAgainRef.current);
+    } finally {
+      outboxFlushingRef.current = false;
+    }
+
+    const pending = [...outboxRef.current, ...outboxEventsRef.current];
+    if (pending.length > 0) {
+      const nextAt = Math.min(...pending.map(e => e.nextAttemptAt));
+      outboxTimerRef.current = setTimeout(() => flushOutbox(), Math.max(0, nextAt - Date.now()));
+    }
+  }, [joinRoomChannel, deliverMessage, updateOutbox, updateOutboxEvents, setMessageStatus]);
 
   // Send message
-  const sendMessage = useCallback(async (content: string, type: Message['type'], fileUrl?: string) => {
+  const sendMessage = useCallback((content: string, type: Message['type'], fileUrl?: string, extras?: MessageExtras) => {
     if (!activeChat) return;
     const msg: Message = {
       id: uuidv4(),
       senderId: user.id,
-      receiverId: activeChat.id,
+      // Group messages are addressed to the group itself
+      receiverId: activeChat.friend?.id ?? activeChat.id,
       content,
       type,
       fileUrl,
+      ...extras,
       createdAt: new Date(),
       read: false,
+      status: 'pending',
     };
-    setMessages(prev => [...prev, msg]);
+    setMessages(prev => mergeMessages(prev, [msg]));
     playSound('pop');
-    if (chatChannelRef.current) {
-      try {
-        await chatChannelRef.current.send({
-          type: 'broadcast',
-          event: 'message',
-          payload: { ...msg, createdAt: msg.createdAt.toISOString() },
-        });
-      } catch (err) {
-        console.error('Failed to send message:', err);
-      }
+    const roomId = activeChat.id;
+    messageStore.saveMessage(roomId, msg).catch(err => console.error('Failed to store message:', err));
+
+    // Every message goes through the outbox, so it survives a dropped connection or a reload.
+    // Not awaited: the flush may be waiting on other rooms' channels.
+    updateOutbox([...outboxRef.current, { roomId, message: msg, attempts: 0, nextAttemptAt: Date.now() }]);
+    flushOutbox();
+  }, [user.id, activeChat, playSound, messageStore, updateOutbox, flushOutbox]);
+
+  // Manually re-queue a message that exhausted its retries
+  const retryMessage = useCallback((messageId: string) => {
+    if (!activeRoomId) return;
+    const msg = messagesRef.current.find(m => m.id === messageId);
+    if (!msg || msg.status !== 'failed') return;
+    setMessageStatus(activeRoomId, msg, 'pending');
+    updateOutbox([
+      ...outboxRef.current.filter(e => e.message.id !== messageId),
+      { roomId: activeRoomId, message: { ...msg, status: 'pending' }, attempts: 0, nextAttemptAt: Date.now() },
+    ]);
+    flushOutbox();
+  }, [activeRoomId, setMessageStatus, updateOutbox, flushOutbox]);
+
+  // Apply an edit or tombstone to one of our messages, both locally and in the outbox
+  const patchOwnMessage = useCallback((roomId: string, messageId: string, patch: Partial<Message>) => {
+    const msg = messagesRef.current.find(m => m.id === messageId && m.senderId === user.id);
+    if (!msg) return null;
+    const updated = { ...msg, ...patch };
+    setMessages(prev => prev.map(m => (m.id === messageId ? updated : m)));
+    messageStore.saveMessage(roomId, updated).catch(err => console.error('Failed to store message:', err));
+    if (outboxRef.current.some(e => e.message.id === messageId)) {
+      updateOutbox(outboxRef.current.map(e => (e.message.id === messageId ? { ...e, message: { ...e.message, ...patch } } : e)));
+    }
+    return updated;
+  }, [user.id, messageStore, updateOutbox]);
+
+  // Queued like messages, so a change made while disconnected still reaches the room
+  const queueOutboxEvent = useCallback((roomId: string, event: OutboxEvent['event'], payload: Record<string, unknown>) => {
+    updateOutboxEvents([
+      ...outboxEventsRef.current,
+      { id: uuidv4(), roomId, event, payload, attempts: 0, nextAttemptAt: Date.now() },
+    ]);
+    flushOutbox();
+  }, [updateOutboxEvents, flushOutbox]);
+
+  const editMessage = useCallback((messageId: string, content: string) => {
+    const trimmed = content.trim();
+    if (!activeRoomId || !trimmed) return;
+    const editedAt = new Date();
+    const updated = patchOwnMessage(activeRoomId, messageId, { content: trimmed, editedAt });
+    if (!updated) return;
+    queueOutboxEvent(activeRoomId, 'message-edit', {
+      senderUserId: user.id, id: messageId, content: trimmed, editedAt: editedAt.toISOString(),
+    });
+  }, [activeRoomId, user.id, patchOwnMessage, queueOutboxEvent]);
+
+  const deleteMessage = useCallback((messageId: string, scope: DeleteScope) => {
+    if (!activeRoomId) return;
+    if (scope === 'me') {
+      setMessages(prev => prev.filter(m => m.id !== messageId));
+      updateOutbox(outboxRef.current.filter(e => e.message.id !== messageId));
+      messageStore.deleteMessage(activeRoomId, messageId).catch(err => console.error('Failed to delete message:', err));
+      return;
+    }
+
+    const deletedAt = new Date();
+    const updated = patchOwnMessage(activeRoomId, messageId, {
+      content: '', fileUrl: undefined, attachment: undefined, waveform: undefined, reactions: undefined, deletedAt,
+    });
+    if (!updated) return;
+    // Nothing left to deliver if the original never went out; the tombstone still goes
+    // in case it was already on its way
+    updateOutbox(outboxRef.current.filter(e => e.message.id !== messageId));
+    queueOutboxEvent(activeRoomId, 'message-delete', {
+      senderUserId: user.id, id: messageId, deletedAt: deletedAt.toISOString(),
+    });
+  }, [activeRoomId, user.id, messageStore, patchOwnMessage, updateOutbox, queueOutboxEvent]);
+
+  // React to a message, or take the reaction back if we already used that emoji
+  const toggleMessageReaction = useCallback((messageId: string, emoji: string) => {
+    if (!activeRoomId) return;
+    const msg = messagesRef.current.find(m => m.id === messageId);
+    if (!msg || msg.deletedAt) return;
+
+    const existing = msg.reactions?.find(r => r.userId === user.id && r.emoji === emoji);
+    const action = existing ? 'remove' : 'add';
+    const reaction: Reaction = existing ?? { id: uuidv4(), emoji, userId: user.id, timestamp: Date.now() };
+    const updated = applyMessageReaction(msg, reaction, action);
+    setMessages(prev => prev.map(m => (m.id === messageId ? updated : m)));
+    messageStore.saveMessage(activeRoomId, updated).catch(err => console.error('Failed to store message:', err));
+    if (action === 'add') playSound('pop');
+
+    queueOutboxEvent(activeRoomId, 'message-reaction', { senderUserId: user.id, messageId, reaction, action });
+  }, [activeRoomId, user.id, messageStore, playSound, queueOutboxEvent]);
+
+  // Page back through stored history
+  const loadOlderMessages = useCallback(async () => {
+    if (!activeRoomId || loadingOlderRef.current) return;
+    const oldest = messagesRef.current[0];
+    if (!oldest) return;
+
+    loadingOlderRef.current = true;
+    setIsLoadingMessages(true);
+    try {
+      const page = await messageStore.loadMessages(activeRoomId, {
+        before: { createdAt: oldest.createdAt, id: oldest.id },
+        limit: MESSAGE_PAGE_SIZE,
+      });
+      setMessages(prev => mergeMessages(prev, page));
+      setHasMoreMessages(page.length === MESSAGE_PAGE_SIZE);
+    } catch (err) {
+      console.error('Failed to load older messages:', err);
+    } finally {
+      loadingOlderRef.current = false;
+      setIsLoadingMessages(false);
+    }
+  }, [activeRoomId, messageStore]);
+
+  // Publish a file through the chosen backend and send it as a 'file' message
+  const sendAttachment = useCallback(async (
+    file: File,
+    backendKind: AttachmentBackendKind = DEFAULT_ATTACHMENT_BACKEND,
+  ): Promise<{ success: boolean; error?: string }> => {
+    if (!activeRoomId) return { success: false, error: 'No conversation open' };
+    const backend = backendKind === 'storage' ? createStorageBackend() : createP2PBackend(fileTransfer);
+    if (file.size > backend.maxBytes) {
+      return { success: false, error: `${file.name} is too large (max ${formatFileSize(backend.maxBytes)})` };
+    }
+
+    try {
+      const [thumbnailUrl, published] = await Promise.all([
+        createImageThumbnail(file),
+        backend.publish(file, activeRoomId),
+      ]);
+      sendMessage(file.name, 'file', published.fileUrl, {
+        attachment: {
+          name: file.name,
+          size: file.size,
+          mimeType: file.type || 'application/octet-stream',
+          backend: published.backend,
+          thumbnailUrl,
+          transferId: published.transferId,
+        },
+      });
+      return { success: true };
+    } catch (err) {
+      console.error('Failed to send attachment:', err);
+      return { success: false, error: `Couldn't send ${file.name}` };
+    }
+  }, [activeRoomId, fileTransfer, sendMessage]);
+
+  // Full-resolution URL for an attachment if it's available locally or hosted
+  const getAttachmentUrl = useCallback((message: Message): string | null => {
+    if (message.fileUrl) return message.fileUrl;
+    const transferId = message.attachment?.transferId;
+    if (!transferId) return null;
+    return downloadedFiles[transferId] || null;
+  }, [downloadedFiles]);
+
+  const downloadAttachment = useCallback(async (message: Message): Promise<{ success: boolean; error?: string }> => {
+    const attachment = message.attachment;
+    if (!attachment) return { success: false, error: 'Nothing to download' };
+
+    const existing = getAttachmentUrl(message);
+    if (existing) {
+      saveFileFromUrl(existing, attachment.name);
+      return { success: true };
     }
-  }, [user.id, activeChat, playSound]);
+    if (!attachment.transferId) return { success: false, error: 'File unavailable' };
+
+    // Our own offer: the bytes are already here
+    const ownFile = await fileTransfer.getFile(attachment.transferId);
+    const blob = ownFile ?? await fileTransfer
+      .download(attachment.transferId, message.senderId, attachment.size)
+      .catch((err: Error) => err);
+    if (blob instanceof Error) {
+      console.error('Attachment download failed:', blob);
+      return { success: false, error: blob.message };
+    }
+
+    const url = URL.createObjectURL(new Blob([blob], { type: attachment.mimeType }));
+    setDownloadedFiles(prev => ({ ...prev, [attachment.transferId!]: url }));
+    saveFileFromUrl(url, attachment.name);
+    return { success: true };
+  }, [fileTransfer, getAttachmentUrl]);
+
+  // Acknowledge received messages to their sender. Only 1:1 chats have receipts; a group
+  // message has no single recipient to report on.
+  const isGroupChat = activeChat?.kind === 'group';
+  const sendReceipt = useCallback((kind: ReceiptKind, messageIds: string[]) => {
+    if (isGroupChat || messageIds.length === 0 || !chatChannelRef.current || !chatSubscribedRef.current) return;
+    chatChannelRef.current.send({
+      type: 'broadcast',
+      event: 'receipt',
+      payload: { senderUserId: user.id, kind, messageIds },
+    });
+  }, [user.id, isGroupChat]);
+
+  // Called by ChatView once incoming messages have actually been shown on screen
+  const markMessagesRead = useCallback((messageIds: string[]) => {
+    if (!activeRoomId) return;
+    const unread = messagesRef.current.filter(
+      m => messageIds.includes(m.id) && m.senderId !== user.id && !m.read
+    );
+    if (unread.length === 0) return;
+
+    const ids = new Set(unread.map(m => m.id));
+    setMessages(prev => prev.map(m => (ids.has(m.id) ? { ...m, read: true } : m)));
+    unread.forEach(m => {
+      messageStore.saveMessage(activeRoomId, { ...m, read: true }).catch(err => console.error('Failed to store message:', err));
+    });
+    if (sendReadReceipts) {
+      sendReceipt('read', unread.map(m => m.id));
+    }
+  }, [activeRoomId, user.id, messageStore, sendReadReceipts, sendReceipt]);
 
   // Reactions
+  const { sendReaction } = webRTC;
   const addReaction = useCallback((emoji: string) => {
+    if (!reactionLimiter.tryTake(user.id)) return;
     const r: Reaction = { id: uuidv4(), emoji, userId: user.id, timestamp: Date.now() };
-    setReactions(prev => [...prev, r]);
+    showReaction(r);
     playSound('pop');
-    setTimeout(() => { setReactions(prev => prev.filter(x => x.id !== r.id)); }, 3000);
-  }, [user.id, playSound]);
+    sendReaction(r);
+  }, [user.id, playSound, reactionLimiter, showReaction, sendReaction]);
 
   // Typing indicator
   useEffect(() => {
@@ -366,7 +1159,7 @@ export function AppProvider({ children, userProfile }: AppProviderProps) {
 
   // Chat channel
   useEffect(() => {
-    if (!activeChat) {
+    if (!activeRoomId) {
       if (chatChannelRef.current) {
         supabase.removeChannel(chatChannelRef.current);
         chatChannelRef.current = null;
@@ -374,17 +1167,92 @@ export function AppProvider({ children, userProfile }: AppProviderProps) {
       return;
     }
 
-    const roomId = [user.id, activeChat.id].sort().join(':');
+    const roomId = activeRoomId;
     const channel = supabase.channel(`chat:${roomId}`, {
       config: { broadcast: { self: false } }
     });
 
-    channel.on('broadcast', { event: 'message' }, ({ payload }) => {
-      const message = { ...payload, createdAt: new Date(payload.createdAt) } as Message;
+    // Live messages are acked as they arrive; ones found in the stored history (sent
+    // while we were away) once the channel is up
+    const ackDelivered = (received: Message[]) => {
+      sendReceipt('delivered', received.filter(m => m.senderId !== user.id && !m.read).map(m => m.id));
+    };
+
+    const handleIncomingMessage = (payload: Record<string, unknown>) => {
+      const message = deserializeMessage(payload);
       if (message.senderId !== user.id) {
-        setMessages(prev => [...prev, message]);
+        setMessages(prev => mergeMessages(prev, [message]));
+        messageStore.saveMessage(roomId, message).catch(err => console.error('Failed to store message:', err));
+        ackDelivered([message]);
         playSound('message');
       }
+    };
+
+    channel.on('broadcast', { event: 'message' }, ({ payload }) => {
+      handleIncomingMessage(payload);
+    });
+
+    const assembler = createChunkAssembler();
+    channel.on('broadcast', { event: 'message-chunk' }, ({ payload }) => {
+      const serialized = assembler.add(payload as PayloadChunk);
+      if (!serialized) return;
+      try {
+        handleIncomingMessage(JSON.parse(serialized));
+      } catch (err) {
+        console.error('Failed to decode chunked message:', err);
+      }
+    });
+
+    channel.on('broadcast', { event: 'receipt' }, ({ payload }) => {
+      if (payload.senderUserId === user.id) return;
+      const ids = new Set<string>(payload.messageIds);
+      const isRead = payload.kind === 'read';
+      const updated = messagesRef.current
+        .filter(m => ids.has(m.id) && m.senderId === user.id)
+        .map(m => ({ ...m, status: 'sent' as const, delivered: true, read: m.read || isRead }));
+      if (updated.length === 0) return;
+
+      setMessages(prev => mergeMessages(prev, updated));
+      updated.forEach(m => {
+        messageStore.saveMessage(roomId, m).catch(err => console.error('Failed to store message:', err));
+      });
+    });
+
+    // Edits and deletes are only honoured for the peer's own messages
+    const patchPeerMessage = (messageId: string, senderUserId: string, patch: Partial<Message>) => {
+      const msg = messagesRef.current.find(m => m.id === messageId);
+      if (!msg || msg.senderId !== senderUserId || senderUserId === user.id) return;
+      const updated = { ...msg, ...patch };
+      setMessages(prev => prev.map(m => (m.id === messageId ? updated : m)));
+      messageStore.saveMessage(roomId, updated).catch(err => console.error('Failed to store message:', err));
+    };
+
+    channel.on('broadcast', { event: 'message-edit' }, ({ payload }) => {
+      patchPeerMessage(payload.id, payload.senderUserId, {
+        content: payload.content,
+        editedAt: new Date(payload.editedAt),
+      });
+    });
+
+    channel.on('broadcast', { event: 'message-delete' }, ({ payload }) => {
+      patchPeerMessage(payload.id, payload.senderUserId, {
+        content: '',
+        fileUrl: undefined,
+        attachment: undefined,
+        waveform: undefined,
+        reactions: undefined,
+        deletedAt: new Date(payload.deletedAt),
+      });
+    });
+
+    channel.on('broadcast', { event: 'message-reaction' }, ({ payload }) => {
+      const reaction = payload.reaction as Reaction;
+      if (reaction.userId !== payload.senderUserId || reaction.userId === user.id) return;
+      const msg = messagesRef.current.find(m => m.id === payload.messageId);
+      if (!msg) return;
+      const updated = applyMessageReaction(msg, reaction, payload.action);
+      setMessages(prev => prev.map(m => (m.id === msg.id ? updated : m)));
+      messageStore.saveMessage(roomId, updated).catch(err => console.error('Failed to store message:', err));
     });
 
     channel.on('broadcast', { event: 'typing' }, ({ payload }) => {
@@ -394,13 +1262,104 @@ export function AppProvider({ children, userProfile }: AppProviderProps) {
       }
     });
 
-    channel.subscribe();
+    // The chat channel doubles as our view of realtime connectivity, which the
+    // mount-time probe alone can't give once the connection drops and comes back
+    channel.subscribe((status) => {
+      chatSubscribedRef.current = status === 'SUBSCRIBED';
+      if (status === 'SUBSCRIBED') {
+        setIsConnected(true);
+        setConnectionError(null);
+        ackDelivered(messagesRef.current);
+        flushOutbox();
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        setIsConnected(false);
+      }
+    });
     chatChannelRef.current = channel;
+    chatRoomIdRef.current = roomId;
     setMessages([]);
+    setHasMoreMessages(false);
     setFriendTyping(false);
 
-    return () => { supabase.removeChannel(channel); };
-  }, [user.id, activeChat, playSound]);
+    // Load the latest page of history, merging with anything that arrived meanwhile
+    let cancelled = false;
+    setIsLoadingMessages(true);
+    messageStore.loadMessages(roomId, { limit: MESSAGE_PAGE_SIZE })
+      .then(history => {
+        if (cancelled) return;
+        setMessages(prev => mergeMessages(prev, history));
+        setHasMoreMessages(history.length === MESSAGE_PAGE_SIZE);
+        ackDelivered(history);
+      })
+      .catch(err => console.error('Failed to load chat history:', err))
+      .finally(() => { if (!cancelled) setIsLoadingMessages(false); });
+
+    return () => {
+      cancelled = true;
+      assembler.clear();
+      chatSubscribedRef.current = false;
+      chatRoomIdRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [user.id, activeRoomId, playSound, messageStore, flushOutbox, sendReceipt]);
+
+  // Group membership events from other members
+  useEffect(() => {
+    const inbox = supabase.channel(getGroupInboxChannel(user.id), {
+      config: { broadcast: { self: false } }
+    });
+
+    inbox.on('broadcast', { event: GROUP_INBOX_EVENT }, ({ payload }) => {
+      const event = deserializeGroupEvent(payload as GroupEvent);
+      const { group, actorId } = event;
+      setGroups(prev => {
+        const existing = prev.find(g => g.id === group.id);
+        // Changes to a group we already know about must come from one of its members
+        if (existing && !existing.members.some(m => m.id === actorId)) return prev;
+        if (!existing && event.type === 'member-removed') return prev;
+
+        let next = group;
+        // Only the owner's snapshot is taken as-is; anyone else's event applies just the change it describes
+        if (existing && existing.ownerId !== actorId) {
+          if (event.type === 'member-removed') {
+            // Members may leave, but only the owner removes other people
+            if (event.memberIds.some(id => id !== actorId)) return prev;
+            next = { ...existing, members: existing.members.filter(m => m.id !== actorId) };
+          } else {
+            const added = group.members.filter(m =>
+              event.memberIds.includes(m.id) && !existing.members.some(e => e.id === m.id)
+            );
+            next = { ...existing, members: [...existing.members, ...added] };
+          }
+        }
+
+        if (!next.members.some(m => m.id === user.id)) {
+          return prev.filter(g => g.id !== group.id);
+        }
+        return existing ? prev.map(g => (g.id === group.id ? next : g)) : [...prev, next];
+      });
+      if (event.type !== 'member-removed' && event.memberIds.includes(user.id)) {
+        playSound('message');
+      }
+    });
+
+    inbox.subscribe();
+    return () => {
+      supabase.removeChannel(inbox);
+    };
+  }, [user.id, playSound]);
+
+  // Queued messages for every room go out as soon as we're online again, including
+  // whatever was left in the outbox by the last session
+  useEffect(() => {
+    const handleOnline = () => { flushOutbox(); };
+    flushOutbox();
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      if (outboxTimerRef.current) clearTimeout(outboxTimerRef.current);
+    };
+  }, [flushOutbox]);
 
   return (
     <AppContext.Provider
@@ -412,10 +1371,33 @@ export function AppProvider({ children, userProfile }: AppProviderProps) {
         addFriend,
         removeFriend,
         onlineUsers,
+        groups,
+        createGroup,
+        addGroupMembers,
+        removeGroupMember,
         activeChat,
         setActiveChat,
         messages,
+        hasMoreMessages,
+        isLoadingMessages,
+        loadOlderMessages,
         sendMessage,
+        retryMessage,
+        editMessage,
+        deleteMessage,
+        toggleMessageReaction,
+        sendAttachment,
+        downloadAttachment,
+        getAttachmentUrl,
+        transferProgress,
+        markMessagesRead,
+        sendReadReceipts,
+        setSendReadReceipts,
+        showPreCallLobby,
+        setShowPreCallLobby,
+        iceOverride,
+        setIceOverride,
+        getIceConfiguration: iceResolver.resolve,
         isTyping,
         setIsTyping,
         friendTyping,
@@ -425,16 +1407,50 @@ export function AppProvider({ children, userProfile }: AppProviderProps) {
         isMuted: webRTC.isMuted,
         isCameraOff: webRTC.isCameraOff,
         isScreenSharing: webRTC.isScreenSharing,
+        isHandRaised: webRTC.isHandRaised,
+        isOnHold: webRTC.isOnHold,
+        peerMediaStates: webRTC.peerMediaStates,
+        callChatMessages: webRTC.callChatMessages,
+        reconnectingPeers: webRTC.reconnectingPeers,
+        recordingPeers: webRTC.recordingPeers,
+        isRecording: callRecording.isRecording,
+        startRecording: callRecording.startRecording,
+        stopRecording: callRecording.stopRecording,
+        callRecordings: callRecording.recordings,
+        dismissCallRecordings: callRecording.dismissRecordings,
+        peerStats: webRTC.peerStats,
+        callRoster: webRTC.callRoster,
+        rejoinableCall: webRTC.rejoinableCall,
+        heldCall: webRTC.heldCall,
+        busyPeers: webRTC.busyPeers,
         isVideoCall: webRTC.isVideoCall,
+        speakingIds: webRTC.speakingIds,
+        dominantSpeakerId: webRTC.dominantSpeakerId,
         incomingCall: webRTC.incomingCall,
         initiateCall: webRTC.initiateCall,
         acceptCall: webRTC.acceptCall,
         rejectCall: webRTC.rejectCall,
         endCall: webRTC.endCall,
+        answerWaitingCall: webRTC.answerWaitingCall,
+        swapCalls: webRTC.swapCalls,
+        toggleHold: webRTC.toggleHold,
+        addParticipants: webRTC.addParticipants,
+        rejoinCall: webRTC.rejoinCall,
+        dismissRejoin: webRTC.dismissRejoin,
         toggleMute: webRTC.toggleMute,
         toggleCamera: webRTC.toggleCamera,
         toggleScreenShare: webRTC.toggleScreenShare,
+        toggleHandRaise: webRTC.toggleHandRaise,
+        mediaDevices,
+        devicePreferences,
+        setPreferredDevice,
+        canSelectAudioOutput: canSelectOutput,
+        videoEffects,
+        setVideoEffects,
+        sendCallChatMessage: webRTC.sendCallChatMessage,
         currentCallTargets: webRTC.currentCallTargets,
+        callHistory,
+        clearCallHistory,
         reactions,
         addReaction,
         showEmojiPicker,
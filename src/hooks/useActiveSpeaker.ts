@@ -0,0 +1,172 @@
+import { useState, useRef, useEffect } from 'react';
+
+type ActiveSpeakerOptions = {
+  // RMS level a participant must exceed to start counting as speaking
+  startThreshold?: number;
+  // Level they must drop below before the hold timer starts
+  stopThreshold?: number;
+};
+
+type SpeakerMeter = {
+  stream: MediaStream;
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  samples: Float32Array<ArrayBuffer>;
+  level: number;
+  loudSince: number | null;
+  quietSince: number | null;
+  speaking: boolean;
+};
+
+const SAMPLE_INTERVAL_MS = 100;
+// Must stay above the start threshold this long before lighting up
+const START_HOLD_MS = 200;
+// Keep the indicator on through short pauses between words
+const STOP_HOLD_MS = 700;
+// A new dominant speaker has to out-talk the current one for this long
+const DOMINANT_SWITCH_MS = 1200;
+// Exponential smoothing applied to the raw RMS level
+const LEVEL_SMOOTHING = 0.6;
+
+function measureRms(meter: SpeakerMeter): number {
+  meter.analyser.getFloatTimeDomainData(meter.samples);
+  let sum = 0;
+  for (let i = 0; i < meter.samples.length; i++) sum += meter.samples[i] * meter.samples[i];
+  return Math.sqrt(sum / meter.samples.length);
+}
+
+function sameIds(a: string[], b: string[]) {
+  return a.length === b.length && a.every((id, i) => id === b[i]);
+}
+
+// Audio-level analysis over every call stream, with hysteresis on who is
+// speaking and a sticky election of the dominant speaker.
+export function useActiveSpeaker(streams: Map<string, MediaStream>, { startThreshold = 0.02, stopThreshold = 0.01 }: ActiveSpeakerOptions = {}) {
+  const [speakingIds, setSpeakingIds] = useState<string[]>([]);
+  const [dominantSpeakerId, setDominantSpeakerId] = useState<string | null>(null);
+
+  const audioCtxRef = useRef<AudioContext | null>(null);
+  const metersRef = useRef<Map<string, SpeakerMeter>>(new Map());
+  const dominantRef = useRef<{ id: string | null; challenger: string | null; challengerSince: number }>({
+    id: null,
+    challenger: null,
+    challengerSince: 0,
+  });
+
+  // Attach an analyser to each stream that carries audio, dropping stale ones
+  useEffect(() => {
+    const meters = metersRef.current;
+
+    meters.forEach((meter, id) => {
+      if (streams.get(id) !== meter.stream) {
+        meter.source.disconnect();
+        meters.delete(id);
+        // A departed dominant speaker gives up the spot; a swapped stream keeps it
+        if (!streams.has(id) && dominantRef.current.id === id) {
+          dominantRef.current = { id: null, challenger: null, challengerSince: 0 };
+          setDominantSpeakerId(null);
+        }
+      }
+    });
+
+    streams.forEach((stream, id) => {
+      if (meters.has(id) || stream.getAudioTracks().length === 0) return;
+      if (!audioCtxRef.current) {
+        audioCtxRef.current = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+      }
+      const ctx = audioCtxRef.current;
+      ctx.resume().catch(() => {});
+      try {
+        const analyser = ctx.createAnalyser();
+        analyser.fftSize = 512;
+        const source = ctx.createMediaStreamSource(stream);
+        source.connect(analyser);
+        meters.set(id, {
+          stream,
+          source,
+          analyser,
+          samples: new Float32Array(analyser.fftSize),
+          level: 0,
+          loudSince: null,
+          quietSince: null,
+          speaking: false,
+        });
+      } catch (err) {
+        console.warn('[SPEAKER] Could not analyse stream for:', id, err);
+      }
+    });
+
+    if (meters.size === 0) {
+      setSpeakingIds(prev => (prev.length ? [] : prev));
+      if (streams.size === 0) {
+        dominantRef.current = { id: null, challenger: null, challengerSince: 0 };
+        setDominantSpeakerId(null);
+      }
+    }
+  }, [streams]);
+
+  // Poll levels while there is anything to listen to
+  useEffect(() => {
+    if (streams.size === 0) return;
+
+    const timer = setInterval(() => {
+      const now = Date.now();
+      let loudestId: string | null = null;
+      let loudestLevel = 0;
+
+      metersRef.current.forEach((meter, id) => {
+        meter.level = meter.level * LEVEL_SMOOTHING + measureRms(meter) * (1 - LEVEL_SMOOTHING);
+
+        if (meter.level >= startThreshold) {
+          meter.quietSince = null;
+          meter.loudSince ??= now;
+          if (!meter.speaking && now - meter.loudSince >= START_HOLD_MS) meter.speaking = true;
+        } else if (meter.level < stopThreshold) {
+          meter.loudSince = null;
+          meter.quietSince ??= now;
+          if (meter.speaking && now - meter.quietSince >= STOP_HOLD_MS) meter.speaking = false;
+        }
+
+        if (meter.speaking && meter.level > loudestLevel) {
+          loudestId = id;
+          loudestLevel = meter.level;
+        }
+      });
+
+      const speaking = [...metersRef.current.entries()].filter(([, m]) => m.speaking).map(([id]) => id).sort();
+      setSpeakingIds(prev => (sameIds(prev, speaking) ? prev : speaking));
+
+      // The last dominant speaker keeps the spot through silence
+      const dominant = dominantRef.current;
+      const current = dominant.id ? metersRef.current.get(dominant.id) : undefined;
+      if (!loudestId || loudestId === dominant.id) {
+        dominant.challenger = null;
+      } else if (!current?.speaking) {
+        dominant.id = loudestId;
+        dominant.challenger = null;
+      } else if (dominant.challenger !== loudestId) {
+        dominant.challenger = loudestId;
+        dominant.challengerSince = now;
+      } else if (now - dominant.challengerSince >= DOMINANT_SWITCH_MS) {
+        dominant.id = loudestId;
+        dominant.challenger = null;
+      }
+      setDominantSpeakerId(dominant.id);
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [streams, startThreshold, stopThreshold]);
+
+  // Release the audio graph on unmount
+  useEffect(() => {
+    const meters = metersRef.current;
+    return () => {
+      meters.forEach(meter => meter.source.disconnect());
+      meters.clear();
+      audioCtxRef.current?.close().catch(() => {});
+      audioCtxRef.current = null;
+    };
+  }, []);
+
+  return { speakingIds, dominantSpeakerId };
+}
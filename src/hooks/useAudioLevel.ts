@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+
+const LEVEL_SAMPLE_MS = 80;
+
+// Live input level (0..1) of a stream's audio, for meters and mic tests
+export function useAudioLevel(stream: MediaStream | null) {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    if (!stream || stream.getAudioTracks().length === 0) {
+      setLevel(0);
+      return;
+    }
+
+    const ctx = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 512;
+    const source = ctx.createMediaStreamSource(stream);
+    source.connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    const timer = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+      // Speech RMS rarely passes ~0.3, so stretch it across the meter
+      setLevel(Math.min(1, Math.sqrt(sum / samples.length) * 4));
+    }, LEVEL_SAMPLE_MS);
+
+    return () => {
+      clearInterval(timer);
+      source.disconnect();
+      ctx.close().catch(() => {});
+    };
+  }, [stream]);
+
+  return level;
+}
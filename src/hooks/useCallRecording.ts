@@ -0,0 +1,107 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { CallRecorder, createCallRecorder, RecordingTile } from '@/lib/callRecorder';
+
+// A finished recording, held as an object URL until it's downloaded or dismissed
+export type CallRecording = {
+  url: string;
+  filename: string;
+  size: number;
+  duration: number;
+};
+
+type TileInfo = Pick<RecordingTile, 'label' | 'color'>;
+
+type CallRecordingOptions = {
+  roomId: string | null;
+  // Every stream in the call by user ID, ours included
+  streams: Map<string, MediaStream>;
+  getTileInfo: (userId: string) => TileInfo;
+  // Tells the other participants, so they can object or leave
+  onRecordingChange: (active: boolean) => void;
+};
+
+function recordingFilename(startedAt: number) {
+  const stamp = new Date(startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  return `callie-call-${stamp}.webm`;
+}
+
+export function useCallRecording({ roomId, streams, getTileInfo, onRecordingChange }: CallRecordingOptions) {
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordings, setRecordings] = useState<CallRecording[]>([]);
+
+  const recorderRef = useRef<CallRecorder | null>(null);
+  const sessionRef = useRef<{ roomId: string; startedAt: number } | null>(null);
+  const getTileInfoRef = useRef(getTileInfo);
+  const onRecordingChangeRef = useRef(onRecordingChange);
+
+  useEffect(() => { getTileInfoRef.current = getTileInfo; }, [getTileInfo]);
+  useEffect(() => { onRecordingChangeRef.current = onRecordingChange; }, [onRecordingChange]);
+
+  const toTiles = useCallback((current: Map<string, MediaStream>): RecordingTile[] =>
+    [...current].map(([id, stream]) => ({ id, stream, ...getTileInfoRef.current(id) })), []);
+
+  const startRecording = useCallback((): { success: boolean; error?: string } => {
+    if (recorderRef.current) return { success: true };
+    if (!roomId) return { success: false, error: 'Not in a call' };
+    try {
+      recorderRef.current = createCallRecorder(toTiles(streams));
+    } catch (err) {
+      console.error('[RECORD] Failed to start:', err);
+      return { success: false, error: err instanceof Error ? err.message : 'Recording failed' };
+    }
+    console.log('[RECORD] Started recording room:', roomId);
+    sessionRef.current = { roomId, startedAt: Date.now() };
+    setIsRecording(true);
+    onRecordingChangeRef.current(true);
+    return { success: true };
+  }, [roomId, streams, toTiles]);
+
+  const stopRecording = useCallback(async () => {
+    const recorder = recorderRef.current;
+    const session = sessionRef.current;
+    if (!recorder || !session) return;
+    recorderRef.current = null;
+    sessionRef.current = null;
+    setIsRecording(false);
+    onRecordingChangeRef.current(false);
+
+    const blob = await recorder.stop();
+    console.log('[RECORD] Stopped, size:', blob.size);
+    if (blob.size === 0) return;
+    setRecordings(prev => [...prev, {
+      url: URL.createObjectURL(blob),
+      filename: recordingFilename(session.startedAt),
+      size: blob.size,
+      duration: (Date.now() - session.startedAt) / 1000,
+    }]);
+  }, []);
+
+  const dismissRecordings = useCallback(() => {
+    setRecordings(prev => {
+      prev.forEach(r => URL.revokeObjectURL(r.url));
+      return [];
+    });
+  }, []);
+
+  // Keep the grid in step with who is in the call and which tracks they send
+  useEffect(() => {
+    recorderRef.current?.setTiles(toTiles(streams));
+  }, [streams, toTiles]);
+
+  // A recording covers one call; it ends when that call does (or is switched away from)
+  useEffect(() => {
+    if (sessionRef.current && sessionRef.current.roomId !== roomId) stopRecording();
+  }, [roomId, stopRecording]);
+
+  useEffect(() => {
+    return () => { recorderRef.current?.stop(); };
+  }, []);
+
+  return {
+    isRecording,
+    recordings,
+    startRecording,
+    stopRecording,
+    dismissRecordings,
+  };
+}
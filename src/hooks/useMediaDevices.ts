@@ -0,0 +1,57 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  DeviceLists,
+  DevicePreferences,
+  loadDevicePreferences,
+  resolveDevicePreferences,
+  saveDevicePreferences,
+} from '@/lib/mediaDevices';
+
+const EMPTY_DEVICE_LISTS: DeviceLists = { audioinput: [], videoinput: [], audiooutput: [] };
+
+// Available cameras, microphones and speakers plus the user's persisted picks.
+// `preferences` falls back to the system default for anything unplugged.
+export function useMediaDevices(userId: string) {
+  const [devices, setDevices] = useState<DeviceLists>(EMPTY_DEVICE_LISTS);
+  const [hasEnumerated, setHasEnumerated] = useState(false);
+  const [storedPreferences, setStoredPreferences] = useState<DevicePreferences>(() => loadDevicePreferences(userId));
+
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      setDevices({
+        audioinput: all.filter(d => d.kind === 'audioinput' && d.deviceId),
+        videoinput: all.filter(d => d.kind === 'videoinput' && d.deviceId),
+        audiooutput: all.filter(d => d.kind === 'audiooutput' && d.deviceId),
+      });
+      setHasEnumerated(true);
+    } catch (err) {
+      console.error('[DEVICES] Enumeration failed:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  useEffect(() => {
+    saveDevicePreferences(userId, storedPreferences);
+  }, [userId, storedPreferences]);
+
+  const preferences = useMemo(
+    () => (hasEnumerated ? resolveDevicePreferences(storedPreferences, devices) : storedPreferences),
+    [hasEnumerated, storedPreferences, devices]
+  );
+
+  const setPreferredDevice = useCallback((kind: MediaDeviceKind, deviceId: string) => {
+    setStoredPreferences(prev => ({ ...prev, [kind]: deviceId }));
+  }, []);
+
+  // setSinkId isn't available everywhere (notably Safari and Firefox on mobile)
+  const canSelectOutput = typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+  return { devices, preferences, setPreferredDevice, refreshDevices, canSelectOutput };
+}
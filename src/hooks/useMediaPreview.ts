@@ -0,0 +1,76 @@
+import { useState, useEffect, useRef } from 'react';
+import { buildAudioConstraints, buildVideoConstraints, DevicePreferences } from '@/lib/mediaDevices';
+import { createVideoEffectsProcessor, hasVideoEffects, VideoEffectSettings, VideoEffectsProcessor } from '@/lib/videoEffects';
+
+type MediaPreviewOptions = {
+  enabled: boolean;
+  video: boolean;
+  preferences: DevicePreferences;
+  // Show the camera the way peers will see it
+  effects?: VideoEffectSettings;
+};
+
+// Short-lived local capture for previews outside a call; re-opened when the chosen inputs change
+export function useMediaPreview({ enabled, video, preferences, effects }: MediaPreviewOptions) {
+  const [captured, setCaptured] = useState<MediaStream | null>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const processorRef = useRef<VideoEffectsProcessor | null>(null);
+  const effectsRef = useRef(effects);
+  const effectsActive = !!effects && hasVideoEffects(effects);
+
+  useEffect(() => {
+    effectsRef.current = effects;
+    if (effects) processorRef.current?.setSettings(effects);
+  }, [effects]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    let opened: MediaStream | null = null;
+
+    navigator.mediaDevices.getUserMedia({
+      video: video ? buildVideoConstraints(preferences.videoinput) : false,
+      audio: buildAudioConstraints(preferences.audioinput),
+    }).then(s => {
+      if (cancelled) { s.getTracks().forEach(t => t.stop()); return; }
+      opened = s;
+      setError(null);
+      setCaptured(s);
+    }).catch(err => {
+      console.error('[PREVIEW] Failed:', err);
+      if (!cancelled) setError('Camera/microphone access denied. Check permissions.');
+    });
+
+    return () => {
+      cancelled = true;
+      opened?.getTracks().forEach(t => t.stop());
+      setCaptured(null);
+    };
+  }, [enabled, video, preferences.videoinput, preferences.audioinput]);
+
+  // The pipeline works on a clone, so switching effects off leaves the capture untouched
+  useEffect(() => {
+    const camera = captured?.getVideoTracks()[0];
+    if (!captured || !camera || !effectsActive || !effectsRef.current) {
+      setStream(captured);
+      return;
+    }
+    let processor: VideoEffectsProcessor;
+    try {
+      processor = createVideoEffectsProcessor(camera.clone(), effectsRef.current);
+    } catch (err) {
+      console.error('[PREVIEW] Effects failed:', err);
+      setStream(captured);
+      return;
+    }
+    processorRef.current = processor;
+    setStream(new MediaStream([...captured.getAudioTracks(), processor.track]));
+    return () => {
+      processorRef.current = null;
+      processor.stop();
+    };
+  }, [captured, effectsActive]);
+
+  return { stream, error };
+}
@@ -0,0 +1,198 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+
+export type VoiceClip = {
+  blob: Blob;
+  dataUrl: string;
+  mimeType: string;
+  duration: number;
+  waveform: number[];
+};
+
+type VoiceRecorderOptions = {
+  maxDuration?: number;
+  waveformBars?: number;
+  onRecorded: (clip: VoiceClip) => void;
+};
+
+const MIN_DURATION = 0.5;
+const LEVEL_SAMPLE_MS = 50;
+
+function pickMimeType(): string {
+  const candidates = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || '';
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Reduce the sampled RMS levels to a fixed number of bars, normalised to 0..1
+function downsampleLevels(levels: number[], bars: number): number[] {
+  if (levels.length === 0) return Array(bars).fill(0);
+  const bucketSize = levels.length / bars;
+  const buckets = Array.from({ length: bars }, (_, i) => {
+    const start = Math.floor(i * bucketSize);
+    const end = Math.max(start + 1, Math.floor((i + 1) * bucketSize));
+    const slice = levels.slice(start, end);
+    return slice.length ? Math.max(...slice) : 0;
+  });
+  const peak = Math.max(...buckets, 0.01);
+  return buckets.map(v => Math.round((v / peak) * 100) / 100);
+}
+
+export function useVoiceRecorder({ maxDuration = 60, waveformBars = 40, onRecorded }: VoiceRecorderOptions) {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [liveLevels, setLiveLevels] = useState<number[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioCtxRef = useRef<AudioContext | null>(null);
+  const levelTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const levelsRef = useRef<number[]>([]);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+  const cancelledRef = useRef(false);
+  const startingRef = useRef(false);
+  const releasedWhileStartingRef = useRef(false);
+  const onRecordedRef = useRef(onRecorded);
+
+  useEffect(() => { onRecordedRef.current = onRecorded; }, [onRecorded]);
+
+  const teardown = useCallback(() => {
+    if (levelTimerRef.current) {
+      clearInterval(levelTimerRef.current);
+      levelTimerRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach(t => t.stop());
+    streamRef.current = null;
+    audioCtxRef.current?.close().catch(() => {});
+    audioCtxRef.current = null;
+    recorderRef.current = null;
+    setIsRecording(false);
+    setLiveLevels([]);
+  }, []);
+
+  const stop = useCallback((cancel: boolean) => {
+    const recorder = recorderRef.current;
+    if (!recorder) {
+      // Released before the microphone was ready; abort once start() resolves
+      if (startingRef.current) releasedWhileStartingRef.current = true;
+      return;
+    }
+    cancelledRef.current = cancel;
+    if (recorder.state !== 'inactive') recorder.stop();
+  }, []);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current || startingRef.current) return;
+    setError(null);
+    startingRef.current = true;
+    releasedWhileStartingRef.current = false;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+      });
+      streamRef.current = stream;
+
+      // Sample input levels for the waveform
+      const ctx = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = 1024;
+      ctx.createMediaStreamSource(stream).connect(analyser);
+      audioCtxRef.current = ctx;
+      const samples = new Float32Array(analyser.fftSize);
+      levelsRef.current = [];
+
+      const mimeType = pickMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      chunksRef.current = [];
+      cancelledRef.current = false;
+
+      recorder.ondataavailable = (ev) => {
+        if (ev.data.size > 0) chunksRef.current.push(ev.data);
+      };
+
+      recorder.onstop = async () => {
+        const duration = (Date.now() - startedAtRef.current) / 1000;
+        const levels = levelsRef.current;
+        const cancelled = cancelledRef.current;
+        teardown();
+        if (cancelled || duration < MIN_DURATION) return;
+
+        const blob = new Blob(chunksRef.current, { type: recorder.mimeType || mimeType || 'audio/webm' });
+        try {
+          const dataUrl = await blobToDataUrl(blob);
+          onRecordedRef.current({
+            blob,
+            dataUrl,
+            mimeType: blob.type,
+            duration: Math.round(duration * 10) / 10,
+            waveform: downsampleLevels(levels, waveformBars),
+          });
+        } catch (err) {
+          console.error('[VOICE] Failed to encode recording:', err);
+        }
+      };
+
+      recorderRef.current = recorder;
+      startedAtRef.current = Date.now();
+      recorder.start(250);
+      startingRef.current = false;
+      if (releasedWhileStartingRef.current) {
+        stop(true);
+        return;
+      }
+      setIsRecording(true);
+      setElapsed(0);
+
+      levelTimerRef.current = setInterval(() => {
+        analyser.getFloatTimeDomainData(samples);
+        let sum = 0;
+        for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+        const rms = Math.sqrt(sum / samples.length);
+        levelsRef.current.push(rms);
+        setLiveLevels(downsampleLevels(levelsRef.current.slice(-waveformBars), waveformBars));
+
+        const seconds = (Date.now() - startedAtRef.current) / 1000;
+        setElapsed(Math.floor(seconds));
+        if (seconds >= maxDuration) stop(false);
+      }, LEVEL_SAMPLE_MS);
+    } catch (err) {
+      console.error('[VOICE] Microphone unavailable:', err);
+      setError('Microphone access denied. Check permissions.');
+      startingRef.current = false;
+      teardown();
+    }
+  }, [maxDuration, waveformBars, teardown, stop]);
+
+  const finish = useCallback(() => stop(false), [stop]);
+  const cancel = useCallback(() => stop(true), [stop]);
+
+  // Discard any in-progress recording on unmount
+  useEffect(() => {
+    return () => {
+      cancelledRef.current = true;
+      if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+        recorderRef.current.stop();
+      }
+    };
+  }, []);
+
+  return {
+    isRecording,
+    elapsed,
+    liveLevels,
+    error,
+    maxDuration,
+    start,
+    finish,
+    cancel,
+  };
+}
@@ -1,31 +1,53 @@
-import { useState, useRef, useCallback, useEffect } from 'react';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { supabase } from '@/lib/supabase';
+import { useActiveSpeaker } from '@/hooks/useActiveSpeaker';
 import { v4 as uuidv4 } from 'uuid';
+import { CallDirection, CallLifecycleEvent, CallLifecycleEventType } from '@/lib/callHistory';
+import { Reaction } from '@/types';
+import { buildAudioConstraints, buildVideoConstraints, DEFAULT_DEVICE_PREFERENCES, DevicePreferences } from '@/lib/mediaDevices';
+import { FALLBACK_ICE_SERVERS, ICE_CANDIDATE_POOL_SIZE } from '@/lib/iceConfig';
+import { applyVideoSendLevel, createAdaptiveBitrate, createStatsSampler, PeerStats } from '@/lib/callStats';
+import { CallTransportKind, chooseCallTransport, createWebSocketSfuTransport, SfuConfig, SfuTransport } from '@/lib/callTransport';
+import {
+  createVideoEffectsProcessor,
+  DEFAULT_VIDEO_EFFECTS,
+  hasVideoEffects,
+  VideoEffectSettings,
+  VideoEffectsProcessor,
+} from '@/lib/videoEffects';
 
 export type CallState = 'idle' | 'ringing' | 'connecting' | 'connected' | 'ended';
 
-const ICE_SERVERS: RTCConfiguration = {
-  iceServers: [
-    { urls: 'stun:stun.l.google.com:19302' },
-    { urls: 'stun:stun1.l.google.com:19302' },
-    { urls: 'stun:stun2.l.google.com:19302' },
-    {
-      urls: 'turn:openrelay.metered.ca:80',
-      username: 'openrelayproject',
-      credential: 'openrelayproject',
-    },
-    {
-      urls: 'turn:openrelay.metered.ca:443',
-      username: 'openrelayproject',
-      credential: 'openrelayproject',
-    },
-    {
-      urls: 'turn:openrelay.metered.ca:443?transport=tcp',
-      username: 'openrelayproject',
-      credential: 'openrelayproject',
-    },
-  ],
-  iceCandidatePoolSize: 10,
+// What a participant is currently sending, mirrored to everyone else in the call
+export type MediaState = {
+  isMuted: boolean;
+  isCameraOff: boolean;
+  isScreenSharing: boolean;
+  isHandRaised: boolean;
+  isOnHold: boolean;
+};
+
+// How long an unanswered call rings on either side
+const RING_TIMEOUT_MS = 60000;
+// How long "User is busy" stays up on the caller's side
+const BUSY_NOTICE_MS = 5000;
+// Give our own presence time to leave the room before watching it for a rejoin
+const ROSTER_WATCH_DELAY_MS = 1500;
+// getStats() polling interval while connected; also the adaptive bitrate sample period
+const STATS_INTERVAL_MS = 2000;
+const SFU_STATS_KEY = 'sfu';
+
+// A 'disconnected' peer often recovers on its own; only restart ICE after this
+const DISCONNECT_GRACE_MS = 3000;
+// Repeat the ICE restart while the peer stays unreachable
+const ICE_RESTART_RETRY_MS = 5000;
+// Default time to keep trying before dropping the peer from the call
+const RECONNECT_TIMEOUT_MS = 30000;
+
+type ReconnectTimers = {
+  grace?: ReturnType<typeof setTimeout>;
+  retry?: ReturnType<typeof setTimeout>;
+  giveUp?: ReturnType<typeof setTimeout>;
 };
 
 type UserInfo = {
@@ -40,6 +62,7 @@ type IncomingCallData = {
   isVideo: boolean;
   participants: string[];
   fromUser: UserInfo;
+  transport: CallTransportKind;
 };
 
 type SignalPayload = {
@@ -52,15 +75,166 @@ type SignalPayload = {
   isVideo?: boolean;
   participants?: string[];
   fromUser?: UserInfo;
+  transport?: CallTransportKind;
+};
+
+// A call we left (or dropped out of) that others may still be in
+export type RejoinableCall = {
+  roomId: string;
+  isVideo: boolean;
+  // Who is in the room right now, per the call channel's presence
+  participants: string[];
+};
+
+type RecentCall = Omit<ActiveCallInfo, 'connectedAt'> & { transport: CallTransportKind };
+
+// A call put on hold to answer another one
+export type HeldCall = {
+  roomId: string;
+  isVideo: boolean;
+  peerIds: string[];
 };
 
-export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
+// Everything a held call needs to carry on when resumed; its connections stay open meanwhile
+type ParkedCall = {
+  info: ActiveCallInfo;
+  channel: ReturnType<typeof supabase.channel>;
+  peerConnections: Map<string, RTCPeerConnection>;
+  chatChannels: Map<string, RTCDataChannel>;
+  sfuTransport: SfuTransport | null;
+  sfuPeers: Set<string>;
+  transport: CallTransportKind;
+  participants: string[];
+  targets: string[];
+  localStream: MediaStream | null;
+  capturedDevices: { audio: string; video: string };
+  videoEffects: VideoEffectsProcessor | null;
+  remoteStreams: Map<string, MediaStream>;
+  peerMediaStates: Map<string, MediaState>;
+  callChatMessages: CallChatMessage[];
+  media: MediaState;
+};
+
+// The call currently being placed or in progress, for lifecycle reporting
+type ActiveCallInfo = {
+  roomId: string;
+  direction: CallDirection;
+  peerIds: string[];
+  isVideo: boolean;
+  connectedAt: number | null;
+};
+
+function incomingToCallInfo(call: IncomingCallData, myId: string): Omit<ActiveCallInfo, 'connectedAt'> {
+  return {
+    roomId: call.roomId,
+    direction: 'incoming',
+    peerIds: call.participants.filter(p => p !== myId),
+    isVideo: call.isVideo,
+  };
+}
+
+// Choices made in the pre-call lobby, applied before any peer connection sees the tracks
+export type JoinOptions = {
+  startMuted?: boolean;
+  startCameraOff?: boolean;
+};
+
+// What happens to the current call when a waiting call is answered
+export type WaitingCallAction = 'end' | 'hold';
+
+// Text chat scoped to the call room, sent peer-to-peer over each connection's data channel.
+// Sender details travel with the message so group calls can include people who aren't friends.
+export type CallChatMessage = {
+  id: string;
+  senderId: string;
+  senderName: string;
+  senderColor: string;
+  content: string;
+  timestamp: number;
+};
+
+// Both sides create the channel with the same id, so it needs no in-band negotiation
+const CALL_CHAT_CHANNEL_ID = 0;
+const MAX_CALL_CHAT_LENGTH = 2000;
+
+type MediaStatePayload = {
+  from: string;
+  roomId: string;
+  state: MediaState;
+};
+
+type ReactionPayload = {
+  from: string;
+  roomId: string;
+  reaction: Reaction;
+};
+
+// Call chat over the call channel, for SFU calls that have no peer-to-peer data channels
+type CallChatPayload = {
+  from: string;
+  roomId: string;
+  data: string;
+};
+
+type WebRTCOptions = {
+  onCallEvent?: (event: CallLifecycleEvent) => void;
+  // Emoji reactions broadcast by other participants in the current call
+  onReaction?: (reaction: Reaction) => void;
+  // Input devices to capture from; changing them mid-call swaps the live tracks
+  devicePreferences?: DevicePreferences;
+  // Camera effects; changing them mid-call swaps the outgoing video track
+  videoEffects?: VideoEffectSettings;
+  // How long a dropped peer may spend reconnecting before it is removed from the call
+  reconnectTimeoutMs?: number;
+  // Resolved once per call, before any peer connection is created (e.g. to fetch fresh TURN credentials)
+  getIceConfig?: () => Promise<RTCConfiguration>;
+  // Larger calls are routed through this SFU; without it every call is a mesh
+  sfu?: SfuConfig | null;
+};
+
+function toHeldCall(parked: ParkedCall): HeldCall {
+  return { roomId: parked.info.roomId, isVideo: parked.info.isVideo, peerIds: parked.info.peerIds };
+}
+
+// Hold swaps each outgoing track for nothing; the transceivers stay negotiated,
+// so resuming needs no new offer
+function pauseSenders(pc: RTCPeerConnection) {
+  pc.getSenders().forEach(sender => {
+    if (sender.track) sender.replaceTrack(null).catch(err => console.warn('[HOLD] replaceTrack failed:', err));
+  });
+}
+
+function resumeSenders(pc: RTCPeerConnection, stream: MediaStream) {
+  pc.getTransceivers().forEach(({ sender, receiver, direction }) => {
+    if (sender.track || (direction !== 'sendrecv' && direction !== 'sendonly')) return;
+    const track = stream.getTracks().find(t => t.kind === receiver.track.kind);
+    if (track) sender.replaceTrack(track).catch(err => console.warn('[HOLD] replaceTrack failed:', err));
+  });
+}
+
+export function useWebRTC(myUserId: string, myUserInfo?: UserInfo, options: WebRTCOptions = {}) {
   const [callState, setCallState] = useState<CallState>('idle');
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
   const [remoteStreams, setRemoteStreams] = useState<Map<string, MediaStream>>(new Map());
   const [isMuted, setIsMuted] = useState(false);
   const [isCameraOff, setIsCameraOff] = useState(false);
   const [isScreenSharing, setIsScreenSharing] = useState(false);
+  const [isHandRaised, setIsHandRaised] = useState(false);
+  const [isOnHold, setIsOnHold] = useState(false);
+  const [peerMediaStates, setPeerMediaStates] = useState<Map<string, MediaState>>(new Map());
+  const [callChatMessages, setCallChatMessages] = useState<CallChatMessage[]>([]);
+  const [reconnectingPeers, setReconnectingPeers] = useState<string[]>([]);
+  // Participants who told us they are recording the call
+  const [recordingPeers, setRecordingPeers] = useState<string[]>([]);
+  const [peerStats, setPeerStats] = useState<Map<string, PeerStats>>(new Map());
+  const [callTransport, setCallTransport] = useState<CallTransportKind>('mesh');
+  // User IDs present on the call channel (including ours); authoritative for who is in the room
+  const [callRoster, setCallRoster] = useState<string[]>([]);
+  const [recentCall, setRecentCall] = useState<RecentCall | null>(null);
+  const [rejoinableCall, setRejoinableCall] = useState<RejoinableCall | null>(null);
+  const [heldCall, setHeldCall] = useState<HeldCall | null>(null);
+  // Callees who answered our invite with a busy signal
+  const [busyPeers, setBusyPeers] = useState<string[]>([]);
   const [incomingCall, setIncomingCall] = useState<IncomingCallData | null>(null);
   const [currentRoomId, setCurrentRoomId] = useState<string | null>(null);
   const [currentCallTargets, setCurrentCallTargets] = useState<string[]>([]);
@@ -69,6 +243,24 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
 
   // Refs for stable access in callbacks
   const peerConnections = useRef<Map<string, RTCPeerConnection>>(new Map());
+  const chatChannels = useRef<Map<string, RTCDataChannel>>(new Map());
+  const reconnectTimers = useRef<Map<string, ReconnectTimers>>(new Map());
+  const reconnectTimeoutRef = useRef(options.reconnectTimeoutMs ?? RECONNECT_TIMEOUT_MS);
+  const rtcConfigRef = useRef<RTCConfiguration>({ iceServers: FALLBACK_ICE_SERVERS, iceCandidatePoolSize: ICE_CANDIDATE_POOL_SIZE });
+  const getIceConfigRef = useRef(options.getIceConfig);
+  const sfuConfigRef = useRef(options.sfu);
+  const transportKindRef = useRef<CallTransportKind>('mesh');
+  const sfuTransportRef = useRef<SfuTransport | null>(null);
+  // SFU calls have no per-peer connection, so membership is tracked separately
+  const sfuPeersRef = useRef<Set<string>>(new Set());
+  const sfuGiveUpRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // Pending 'no answer' checks for people added mid-call
+  const addedRingTimersRef = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
+  const callRosterRef = useRef<string[]>([]);
+  const rosterWatchRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const parkedCallRef = useRef<ParkedCall | null>(null);
+  const isOnHoldRef = useRef(false);
+  const isRecordingRef = useRef(false);
   const callChannelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
   const pendingCandidates = useRef<Map<string, RTCIceCandidateInit[]>>(new Map());
   const callStateRef = useRef<CallState>('idle');
@@ -78,30 +270,149 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
   const roomIdRef = useRef<string | null>(null);
   const myUserIdRef = useRef(myUserId);
   const myUserInfoRef = useRef(myUserInfo);
+  const activeCallRef = useRef<ActiveCallInfo | null>(null);
+  const incomingCallRef = useRef<IncomingCallData | null>(null);
+  const onCallEventRef = useRef(options.onCallEvent);
+  const onReactionRef = useRef(options.onReaction);
+  const devicePreferences = options.devicePreferences ?? DEFAULT_DEVICE_PREFERENCES;
+  const devicePreferencesRef = useRef(devicePreferences);
+  // Device id each local track was captured with ('' = system default)
+  const capturedDevicesRef = useRef<{ audio: string; video: string }>({ audio: '', video: '' });
+  const videoEffects = options.videoEffects ?? DEFAULT_VIDEO_EFFECTS;
+  const videoEffectsRef = useRef(videoEffects);
+  // Pipeline between the camera and localStream while any effect is on
+  const videoProcessorRef = useRef<VideoEffectsProcessor | null>(null);
+  const mediaStateRef = useRef<MediaState>({ isMuted: false, isCameraOff: false, isScreenSharing: false, isHandRaised: false, isOnHold: false });
 
   // Keep refs in sync
   useEffect(() => { callStateRef.current = callState; }, [callState]);
   useEffect(() => { localStreamRef.current = localStream; }, [localStream]);
   useEffect(() => { myUserIdRef.current = myUserId; }, [myUserId]);
   useEffect(() => { myUserInfoRef.current = myUserInfo; }, [myUserInfo]);
+  useEffect(() => { incomingCallRef.current = incomingCall; }, [incomingCall]);
+  useEffect(() => { onCallEventRef.current = options.onCallEvent; }, [options.onCallEvent]);
+  useEffect(() => { onReactionRef.current = options.onReaction; }, [options.onReaction]);
+  useEffect(() => { devicePreferencesRef.current = devicePreferences; }, [devicePreferences]);
+  useEffect(() => { videoEffectsRef.current = videoEffects; }, [videoEffects]);
+  useEffect(() => { reconnectTimeoutRef.current = options.reconnectTimeoutMs ?? RECONNECT_TIMEOUT_MS; }, [options.reconnectTimeoutMs]);
+  useEffect(() => { getIceConfigRef.current = options.getIceConfig; }, [options.getIceConfig]);
+  useEffect(() => { sfuConfigRef.current = options.sfu; }, [options.sfu]);
+
+  // Every connection carrying our media, whichever transport the call uses
+  const getMediaConnections = useCallback((): RTCPeerConnection[] => [
+    ...peerConnections.current.values(),
+    ...(sfuTransportRef.current?.getConnections() ?? []),
+  ], []);
+
+  const getCallPeerIds = useCallback(() => [...peerConnections.current.keys(), ...sfuPeersRef.current], []);
+
+  // ─── LIFECYCLE EVENTS ────────────────────────────────────────
+  const emitCallEvent = useCallback((type: CallLifecycleEventType, call: Omit<ActiveCallInfo, 'connectedAt'>, duration?: number) => {
+    console.log('[LIFECYCLE]', type, call.roomId);
+    onCallEventRef.current?.({
+      type,
+      roomId: call.roomId,
+      direction: call.direction,
+      peerIds: call.peerIds,
+      isVideo: call.isVideo,
+      at: Date.now(),
+      duration,
+    });
+  }, []);
+
+  // ─── MEDIA STATE SYNC ────────────────────────────────────────
+  const broadcastMediaState = useCallback(() => {
+    if (!callChannelRef.current || !roomIdRef.current) return;
+    const payload: MediaStatePayload = { from: myUserIdRef.current, roomId: roomIdRef.current, state: mediaStateRef.current };
+    callChannelRef.current.send({ type: 'broadcast', event: 'media-state', payload });
+  }, []);
+
+  // Recording consent notice, repeated to anyone who joins while we record
+  const sendRecordingNotice = useCallback((peerId: string, active: boolean) => {
+    if (!callChannelRef.current || !roomIdRef.current) return;
+    callChannelRef.current.send({
+      type: 'broadcast',
+      event: 'signal',
+      payload: { type: active ? 'recording-start' : 'recording-stop', from: myUserIdRef.current, to: peerId, roomId: roomIdRef.current },
+    });
+  }, []);
+
+  const forgetPeerMediaState = useCallback((peerId: string) => {
+    setPeerMediaStates(prev => {
+      if (!prev.has(peerId)) return prev;
+      const next = new Map(prev);
+      next.delete(peerId);
+      return next;
+    });
+  }, []);
+
+  // Audio-only calls have no camera to show, so peers should render the avatar
+  useEffect(() => {
+    mediaStateRef.current = { isMuted, isCameraOff: isCameraOff || !isVideoCall, isScreenSharing, isHandRaised, isOnHold };
+    broadcastMediaState();
+  }, [isMuted, isCameraOff, isVideoCall, isScreenSharing, isHandRaised, isOnHold, broadcastMediaState]);
+
+  // ─── CALL CHAT ───────────────────────────────────────────────
+  const handleCallChatData = useCallback((peerId: string, data: unknown) => {
+    if (typeof data !== 'string') return;
+    try {
+      const msg = JSON.parse(data) as CallChatMessage;
+      // Data channels are point-to-point, so the sender must be the peer on the other end
+      if (msg.senderId !== peerId || typeof msg.content !== 'string' || !msg.content.trim()) return;
+      setCallChatMessages(prev => (prev.some(m => m.id === msg.id) ? prev : [...prev, { ...msg, content: msg.content.slice(0, MAX_CALL_CHAT_LENGTH) }]));
+    } catch (err) {
+      console.warn('[CHAT] Bad call chat message from:', peerId, err);
+    }
+  }, []);
+
+  const openChatChannel = useCallback((peerId: string, pc: RTCPeerConnection) => {
+    const channel = pc.createDataChannel('call-chat', { negotiated: true, id: CALL_CHAT_CHANNEL_ID });
+    channel.onmessage = (ev) => {
+      if (chatChannels.current.get(peerId) === channel) handleCallChatData(peerId, ev.data);
+    };
+    chatChannels.current.set(peerId, channel);
+  }, [handleCallChatData]);
+
+  const closeChatChannel = useCallback((peerId: string) => {
+    chatChannels.current.get(peerId)?.close();
+    chatChannels.current.delete(peerId);
+  }, []);
+
+  // ─── VIDEO EFFECTS ───────────────────────────────────────────
+  // Camera tracks go through the effects pipeline while any effect is on. The pipeline
+  // owns the raw track, so the previous one (and its camera) is released here.
+  const processCameraTrack = useCallback((camera: MediaStreamTrack): MediaStreamTrack => {
+    videoProcessorRef.current?.stop();
+    videoProcessorRef.current = null;
+    const settings = videoEffectsRef.current;
+    if (!hasVideoEffects(settings)) return camera;
+    try {
+      const processor = createVideoEffectsProcessor(camera, settings);
+      videoProcessorRef.current = processor;
+      console.log('[EFFECTS] Processing camera:', settings.background, settings.lightCorrection ? '+ light' : '');
+      return processor.track;
+    } catch (err) {
+      console.error('[EFFECTS] Failed to start:', err);
+      return camera;
+    }
+  }, []);
 
   // ─── GET MEDIA ───────────────────────────────────────────────
   const getMedia = useCallback(async (video: boolean): Promise<MediaStream | null> => {
     try {
       setError(null);
-      const isMobile = /iPhone|iPad|iPod|Android/i.test(navigator.userAgent);
+      const prefs = devicePreferencesRef.current;
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: video ? {
-          width: isMobile ? { ideal: 720 } : { ideal: 1280 },
-          height: isMobile ? { ideal: 1280 } : { ideal: 720 },
-          facingMode: 'user',
-        } : false,
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        },
+        video: video ? buildVideoConstraints(prefs.videoinput) : false,
+        audio: buildAudioConstraints(prefs.audioinput),
       });
+      capturedDevicesRef.current = { audio: prefs.audioinput, video: prefs.videoinput };
+      const camera = stream.getVideoTracks()[0];
+      const processed = camera && processCameraTrack(camera);
+      if (processed && processed !== camera) {
+        stream.removeTrack(camera);
+        stream.addTrack(processed);
+      }
       console.log('[MEDIA] Got stream:', stream.getTracks().map(t => t.kind));
       setLocalStream(stream);
       localStreamRef.current = stream;
@@ -111,16 +422,142 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
       setError('Camera/microphone access denied. Check permissions.');
       return null;
     }
+  }, [processCameraTrack]);
+
+  const applyJoinOptions = useCallback((stream: MediaStream, { startMuted = false, startCameraOff = false }: JoinOptions) => {
+    stream.getAudioTracks().forEach(t => { t.enabled = !startMuted; });
+    stream.getVideoTracks().forEach(t => { t.enabled = !startCameraOff; });
+    setIsMuted(startMuted);
+    setIsCameraOff(startCameraOff && stream.getVideoTracks().length > 0);
   }, []);
 
+  // ─── SWAP LOCAL TRACK ────────────────────────────────────────
+  // Replace the local track of the same kind in every sender without renegotiating.
+  // A new stream object is published so audio analysers and previews re-attach.
+  const replaceLocalTrack = useCallback(async (track: MediaStreamTrack) => {
+    const current = localStreamRef.current;
+    if (!current) { track.stop(); return; }
+
+    await Promise.all(getMediaConnections().map(pc => {
+      const sender = pc.getSenders().find(s => s.track?.kind === track.kind);
+      return sender?.replaceTrack(track).catch(err => console.warn('[MEDIA] replaceTrack failed:', err));
+    }));
+
+    const oldTracks = track.kind === 'audio' ? current.getAudioTracks() : current.getVideoTracks();
+    oldTracks.forEach(t => t.stop());
+    const next = new MediaStream([...current.getTracks().filter(t => t.kind !== track.kind), track]);
+    localStreamRef.current = next;
+    setLocalStream(next);
+  }, [getMediaConnections]);
+
+  // Re-capture any input whose preferred device changed or whose track died (e.g. headset unplugged)
+  const syncInputDevices = useCallback(async () => {
+    const stream = localStreamRef.current;
+    if (!stream) return;
+    const prefs = devicePreferencesRef.current;
+
+    const audioTrack = stream.getAudioTracks()[0];
+    if (audioTrack && (audioTrack.readyState === 'ended' || capturedDevicesRef.current.audio !== prefs.audioinput)) {
+      try {
+        const fresh = await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(prefs.audioinput) });
+        const track = fresh.getAudioTracks()[0];
+        track.enabled = !mediaStateRef.current.isMuted;
+        capturedDevicesRef.current.audio = prefs.audioinput;
+        await replaceLocalTrack(track);
+        console.log('[MEDIA] Switched microphone to:', prefs.audioinput || 'default');
+      } catch (err) {
+        console.error('[MEDIA] Microphone switch failed:', err);
+      }
+    }
+
+    // The screen share owns the video sender; the camera is picked up again when it stops
+    const videoTrack = localStreamRef.current?.getVideoTracks()[0];
+    if (videoTrack && !mediaStateRef.current.isScreenSharing
+      && (videoTrack.readyState === 'ended' || capturedDevicesRef.current.video !== prefs.videoinput)) {
+      try {
+        const fresh = await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(prefs.videoinput) });
+        const track = processCameraTrack(fresh.getVideoTracks()[0]);
+        track.enabled = !mediaStateRef.current.isCameraOff;
+        capturedDevicesRef.current.video = prefs.videoinput;
+        await replaceLocalTrack(track);
+        console.log('[MEDIA] Switched camera to:', prefs.videoinput || 'default');
+      } catch (err) {
+        console.error('[MEDIA] Camera switch failed:', err);
+      }
+    }
+  }, [replaceLocalTrack, processCameraTrack]);
+
+  useEffect(() => {
+    syncInputDevices();
+  }, [devicePreferences.audioinput, devicePreferences.videoinput, syncInputDevices]);
+
+  // Effects switched on or off mid-call swap the outgoing camera track; tweaks to
+  // an active pipeline apply in place. The clones keep the camera open across the swap.
+  const syncVideoEffects = useCallback(async () => {
+    const settings = videoEffectsRef.current;
+    const processor = videoProcessorRef.current;
+    if (processor && hasVideoEffects(settings)) {
+      processor.setSettings(settings);
+      return;
+    }
+    const videoTrack = localStreamRef.current?.getVideoTracks()[0];
+    if (!videoTrack || mediaStateRef.current.isScreenSharing) return;
+    if (!processor && !hasVideoEffects(settings)) return;
+    const track = processCameraTrack((processor?.source ?? videoTrack).clone());
+    track.enabled = !mediaStateRef.current.isCameraOff;
+    await replaceLocalTrack(track);
+  }, [replaceLocalTrack, processCameraTrack]);
+
+  useEffect(() => {
+    syncVideoEffects();
+  }, [videoEffects, syncVideoEffects]);
+
+  useEffect(() => {
+    const handleDeviceChange = () => { syncInputDevices(); };
+    navigator.mediaDevices?.addEventListener('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', handleDeviceChange);
+  }, [syncInputDevices]);
+
   // ─── CLEANUP ─────────────────────────────────────────────────
   const cleanup = useCallback(() => {
     console.log('[CLEANUP] Cleaning up all connections');
+    const call = activeCallRef.current;
+    if (call) {
+      activeCallRef.current = null;
+      const duration = call.connectedAt ? (Date.now() - call.connectedAt) / 1000 : 0;
+      emitCallEvent('end', call, duration);
+      // Offer a way back in while anyone else is still there
+      if (call.connectedAt) {
+        setRecentCall({
+          roomId: call.roomId,
+          direction: call.direction,
+          peerIds: call.peerIds,
+          isVideo: call.isVideo,
+          transport: transportKindRef.current,
+        });
+      }
+    }
     peerConnections.current.forEach((pc, peerId) => {
       console.log('[CLEANUP] Closing peer:', peerId);
       pc.close();
     });
     peerConnections.current.clear();
+    reconnectTimers.current.forEach(timers => {
+      clearTimeout(timers.grace);
+      clearTimeout(timers.retry);
+      clearTimeout(timers.giveUp);
+    });
+    reconnectTimers.current.clear();
+    sfuTransportRef.current?.close();
+    sfuTransportRef.current = null;
+    sfuPeersRef.current.clear();
+    clearTimeout(sfuGiveUpRef.current);
+    sfuGiveUpRef.current = undefined;
+    addedRingTimersRef.current.forEach(clearTimeout);
+    addedRingTimersRef.current.clear();
+    transportKindRef.current = 'mesh';
+    chatChannels.current.forEach(channel => channel.close());
+    chatChannels.current.clear();
     pendingCandidates.current.clear();
     offerCreatedFor.current.clear();
     allParticipantsRef.current = [];
@@ -128,6 +565,8 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
     if (localStreamRef.current) {
       localStreamRef.current.getTracks().forEach(t => t.stop());
     }
+    videoProcessorRef.current?.stop();
+    videoProcessorRef.current = null;
 
     if (callChannelRef.current) {
       supabase.removeChannel(callChannelRef.current);
@@ -144,9 +583,109 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
     setIsScreenSharing(false);
     setIsMuted(false);
     setIsCameraOff(false);
+    setIsHandRaised(false);
+    isOnHoldRef.current = false;
+    setIsOnHold(false);
+    setPeerMediaStates(new Map());
+    setCallChatMessages([]);
+    setReconnectingPeers([]);
+    setRecordingPeers([]);
+    isRecordingRef.current = false;
+    callRosterRef.current = [];
+    setCallRoster([]);
+    setCallTransport('mesh');
     setError(null);
+  }, [emitCallEvent]);
+
+  // ─── REMOVE PEER ─────────────────────────────────────────────
+  const clearReconnect = useCallback((peerId: string) => {
+    const timers = reconnectTimers.current.get(peerId);
+    if (timers) {
+      clearTimeout(timers.grace);
+      clearTimeout(timers.retry);
+      clearTimeout(timers.giveUp);
+      reconnectTimers.current.delete(peerId);
+    }
+    setReconnectingPeers(prev => (prev.includes(peerId) ? prev.filter(id => id !== peerId) : prev));
+  }, []);
+
+  // Drop one participant; the call ends once nobody is left
+  const removePeer = useCallback((peerId: string) => {
+    clearReconnect(peerId);
+    const pc = peerConnections.current.get(peerId);
+    if (pc) { pc.close(); peerConnections.current.delete(peerId); }
+    sfuPeersRef.current.delete(peerId);
+    setRemoteStreams(prev => {
+      const next = new Map(prev);
+      next.delete(peerId);
+      return next;
+    });
+    forgetPeerMediaState(peerId);
+    setRecordingPeers(prev => (prev.includes(peerId) ? prev.filter(id => id !== peerId) : prev));
+    closeChatChannel(peerId);
+    if (getCallPeerIds().length === 0 && callStateRef.current !== 'idle') {
+      cleanup();
+    }
+  }, [cleanup, clearReconnect, forgetPeerMediaState, closeChatChannel, getCallPeerIds]);
+
+  // ─── RECONNECT ───────────────────────────────────────────────
+  // The peer that would normally create the offer (lower ID) restarts ICE;
+  // the other side asks it to, in case it hasn't noticed the drop yet.
+  const restartIce = useCallback(async (peerId: string) => {
+    const pc = peerConnections.current.get(peerId);
+    const roomId = roomIdRef.current;
+    const channel = callChannelRef.current;
+    if (!pc || !roomId || !channel) return;
+
+    if (myUserIdRef.current > peerId) {
+      channel.send({
+        type: 'broadcast',
+        event: 'signal',
+        payload: { type: 'restart-request', from: myUserIdRef.current, to: peerId, roomId },
+      });
+      return;
+    }
+
+    if (pc.signalingState !== 'stable') return;
+    try {
+      console.log('[RECONNECT] Restarting ICE with:', peerId);
+      pc.restartIce();
+      const offer = await pc.createOffer({ iceRestart: true });
+      await pc.setLocalDescription(offer);
+      channel.send({
+        type: 'broadcast',
+        event: 'signal',
+        payload: { type: 'offer', from: myUserIdRef.current, to: peerId, roomId, sdp: offer },
+      });
+    } catch (err) {
+      console.warn('[RECONNECT] ICE restart failed:', err);
+    }
   }, []);
 
+  const beginReconnect = useCallback((peerId: string) => {
+    const timers = reconnectTimers.current.get(peerId) ?? {};
+    reconnectTimers.current.set(peerId, timers);
+    clearTimeout(timers.grace);
+    timers.grace = undefined;
+
+    if (!timers.giveUp) {
+      console.log('[RECONNECT] Lost connection, reconnecting to:', peerId);
+      setReconnectingPeers(prev => (prev.includes(peerId) ? prev : [...prev, peerId]));
+      timers.giveUp = setTimeout(() => {
+        console.log('[RECONNECT] Giving up on:', peerId);
+        removePeer(peerId);
+      }, reconnectTimeoutRef.current);
+    }
+
+    if (!timers.retry) {
+      const attempt = () => {
+        restartIce(peerId);
+        timers.retry = setTimeout(attempt, ICE_RESTART_RETRY_MS);
+      };
+      attempt();
+    }
+  }, [removePeer, restartIce]);
+
   // ─── CREATE PEER CONNECTION ──────────────────────────────────
   const makePeer = useCallback((peerId: string, stream: MediaStream, roomId: string): RTCPeerConnection => {
     // Close existing if broken
@@ -161,12 +700,18 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
     }
 
     console.log('[PEER] Creating new connection for:', peerId);
-    const pc = new RTCPeerConnection(ICE_SERVERS);
+    const pc = new RTCPeerConnection(rtcConfigRef.current);
 
     // Add local tracks
     stream.getTracks().forEach(track => {
       pc.addTrack(track, stream);
     });
+    // Someone joining while we're on hold gets nothing until we resume
+    if (isOnHoldRef.current) pauseSenders(pc);
+
+    // Must exist before the offer so the SDP carries a data section
+    closeChatChannel(peerId);
+    openChatChannel(peerId, pc);
 
     // ICE candidates
     pc.onicecandidate = (ev) => {
@@ -188,6 +733,7 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
     // Remote tracks
     pc.ontrack = (ev) => {
       console.log('[PEER] Got remote track from:', peerId, ev.track.kind);
+      if (peerConnections.current.get(peerId) !== pc) return;
       const remoteStream = ev.streams[0];
       if (remoteStream) {
         setRemoteStreams(prev => {
@@ -201,21 +747,35 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
     // Connection state
     pc.onconnectionstatechange = () => {
       console.log('[PEER] Connection state', peerId, ':', pc.connectionState);
-      if (pc.connectionState === 'connected') {
-        setCallState('connected');
-      }
-      if (pc.connectionState === 'failed' || pc.connectionState === 'closed') {
-        console.log('[PEER] Connection lost to:', peerId);
-        peerConnections.current.delete(peerId);
-        setRemoteStreams(prev => {
-          const next = new Map(prev);
-          next.delete(peerId);
-          return next;
-        });
-        // If no more peers, end call
-        if (peerConnections.current.size === 0 && callStateRef.current !== 'idle') {
-          cleanup();
+      if (peerConnections.current.get(peerId) !== pc) return;
+
+      switch (pc.connectionState) {
+        case 'connected':
+          setCallState('connected');
+          if (activeCallRef.current && !activeCallRef.current.connectedAt) {
+            activeCallRef.current.connectedAt = Date.now();
+          }
+          if (reconnectTimers.current.has(peerId)) console.log('[RECONNECT] Recovered:', peerId);
+          clearReconnect(peerId);
+          // Bring the new peer up to date; everyone else just gets a repeat
+          broadcastMediaState();
+          if (isRecordingRef.current) sendRecordingNotice(peerId, true);
+          break;
+        case 'disconnected': {
+          const timers = reconnectTimers.current.get(peerId) ?? {};
+          reconnectTimers.current.set(peerId, timers);
+          if (!timers.grace && !timers.giveUp) {
+            timers.grace = setTimeout(() => beginReconnect(peerId), DISCONNECT_GRACE_MS);
+          }
+          break;
         }
+        case 'failed':
+          beginReconnect(peerId);
+          break;
+        case 'closed':
+          console.log('[PEER] Connection closed to:', peerId);
+          removePeer(peerId);
+          break;
       }
     };
 
@@ -225,7 +785,7 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
 
     peerConnections.current.set(peerId, pc);
     return pc;
-  }, [cleanup]);
+  }, [broadcastMediaState, sendRecordingNotice, openChatChannel, closeChatChannel, clearReconnect, beginReconnect, removePeer]);
 
   // ─── SEND OFFER ──────────────────────────────────────────────
   const sendOffer = useCallback(async (peerId: string, pc: RTCPeerConnection, roomId: string) => {
@@ -278,16 +838,164 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
     }
   }, []);
 
+  // ─── HELD CALL ───────────────────────────────────────────────
+  // Ends the parked call for good, once everyone else in it has hung up
+  const discardParkedCall = useCallback(() => {
+    const parked = parkedCallRef.current;
+    if (!parked) return;
+    console.log('[HOLD] Held call ended:', parked.info.roomId);
+    parkedCallRef.current = null;
+    setHeldCall(null);
+    const duration = parked.info.connectedAt ? (Date.now() - parked.info.connectedAt) / 1000 : 0;
+    emitCallEvent('end', parked.info, duration);
+    parked.peerConnections.forEach(pc => pc.close());
+    parked.chatChannels.forEach(channel => channel.close());
+    parked.sfuTransport?.close();
+    parked.localStream?.getTracks().forEach(t => t.stop());
+    parked.videoEffects?.stop();
+    supabase.removeChannel(parked.channel);
+  }, [emitCallEvent]);
+
+  // Only hang-ups matter while a call is parked; anything else can wait for the resume
+  const handleParkedSignal = useCallback((signal: SignalPayload) => {
+    const parked = parkedCallRef.current;
+    if (!parked || signal.type !== 'call-end') return;
+    console.log('[HOLD] Left the held call:', signal.from);
+    parked.peerConnections.get(signal.from)?.close();
+    parked.peerConnections.delete(signal.from);
+    parked.chatChannels.get(signal.from)?.close();
+    parked.chatChannels.delete(signal.from);
+    parked.sfuPeers.delete(signal.from);
+    parked.remoteStreams.delete(signal.from);
+    parked.peerMediaStates.delete(signal.from);
+    parked.targets = parked.targets.filter(id => id !== signal.from);
+    setHeldCall(prev => prev && { ...prev, peerIds: prev.peerIds.filter(id => id !== signal.from) });
+    if (parked.peerConnections.size + parked.sfuPeers.size === 0) discardParkedCall();
+  }, [discardParkedCall]);
+
+  // ─── SFU ─────────────────────────────────────────────────────
+  const connectSfu = useCallback(async (roomId: string, stream: MediaStream) => {
+    const sfu = sfuConfigRef.current;
+    if (!sfu) throw new Error('No SFU configured');
+    const createTransport = sfu.createTransport ?? createWebSocketSfuTransport;
+
+    const transport = createTransport({
+      url: sfu.url,
+      roomId,
+      userId: myUserIdRef.current,
+      rtcConfig: rtcConfigRef.current,
+      onRemoteStream: (peerId, remoteStream) => {
+        if (roomIdRef.current !== roomId) return;
+        console.log('[SFU] Got stream from:', peerId);
+        if (isRecordingRef.current && !sfuPeersRef.current.has(peerId)) sendRecordingNotice(peerId, true);
+        sfuPeersRef.current.add(peerId);
+        setRemoteStreams(prev => new Map(prev).set(peerId, remoteStream));
+        setCallState('connected');
+        if (activeCallRef.current && !activeCallRef.current.connectedAt) {
+          activeCallRef.current.connectedAt = Date.now();
+        }
+        broadcastMediaState();
+      },
+      onParticipantLeft: (peerId) => {
+        if (sfuTransportRef.current !== transport) return;
+        console.log('[SFU] Participant left:', peerId);
+        removePeer(peerId);
+      },
+      // One link carries everyone, so a drop shows every participant as reconnecting
+      onStateChange: (state) => {
+        if (sfuTransportRef.current !== transport) return;
+        if (state === 'connected') {
+          clearTimeout(sfuGiveUpRef.current);
+          sfuGiveUpRef.current = undefined;
+          setReconnectingPeers([]);
+        } else if ((state === 'failed' || state === 'disconnected') && !sfuGiveUpRef.current) {
+          setReconnectingPeers([...sfuPeersRef.current]);
+          sfuGiveUpRef.current = setTimeout(() => {
+            console.log('[SFU] Giving up on reconnect');
+            cleanup();
+            setError('Lost connection to the call server');
+          }, reconnectTimeoutRef.current);
+        }
+      },
+    });
+
+    sfuTransportRef.current = transport;
+    await transport.connect(stream);
+  }, [broadcastMediaState, sendRecordingNotice, removePeer, cleanup]);
+
+  // ─── TRANSPORT MIGRATION ─────────────────────────────────────
+  // A mesh call that grows past the SFU threshold moves everyone onto the SFU. Tiles
+  // stay put; each peer's stream is replaced once the server forwards it.
+  const sendTransportSwitch = useCallback((peerId: string) => {
+    if (!callChannelRef.current || !roomIdRef.current) return;
+    callChannelRef.current.send({
+      type: 'broadcast',
+      event: 'signal',
+      payload: { type: 'transport-switch', from: myUserIdRef.current, to: peerId, roomId: roomIdRef.current, transport: 'sfu' },
+    });
+  }, []);
+
+  const migrateToSfu = useCallback(async () => {
+    const roomId = roomIdRef.current;
+    const stream = localStreamRef.current;
+    if (!roomId || !stream || transportKindRef.current === 'sfu' || !sfuConfigRef.current) return;
+    console.log('[SFU] Moving call to the SFU:', roomId);
+
+    const meshPeers = [...peerConnections.current.keys()];
+    transportKindRef.current = 'sfu';
+    setCallTransport('sfu');
+    meshPeers.forEach(peerId => {
+      clearReconnect(peerId);
+      peerConnections.current.get(peerId)?.close();
+      closeChatChannel(peerId);
+      sfuPeersRef.current.add(peerId);
+    });
+    peerConnections.current.clear();
+    pendingCandidates.current.clear();
+    offerCreatedFor.current.clear();
+    setReconnectingPeers([]);
+
+    try {
+      await connectSfu(roomId, stream);
+      if (isOnHoldRef.current) getMediaConnections().forEach(pauseSenders);
+    } catch (err) {
+      console.error('[SFU] Migration failed:', err);
+      cleanup();
+      setError('Could not move the call to the call server');
+    }
+  }, [clearReconnect, closeChatChannel, connectSfu, getMediaConnections, cleanup]);
+
   // ─── HANDLE INCOMING SIGNAL ──────────────────────────────────
   const handleSignal = useCallback(async (signal: SignalPayload) => {
     if (signal.to !== myUserIdRef.current) return;
+    if (parkedCallRef.current?.info.roomId === signal.roomId) { handleParkedSignal(signal); return; }
 
     const currentStream = localStreamRef.current;
     const roomId = roomIdRef.current || signal.roomId;
 
+    // Someone joining a mesh call that is already at its limit takes everyone onto the
+    // SFU; the SFU branches below then tell the newcomer to follow
+    const migrateIfMeshFull = (joinerId: string) => {
+      if (transportKindRef.current !== 'mesh') return;
+      const size = new Set([myUserIdRef.current, ...peerConnections.current.keys(), joinerId]).size;
+      if (chooseCallTransport(size, sfuConfigRef.current) !== 'sfu') return;
+      peerConnections.current.forEach((_, peerId) => sendTransportSwitch(peerId));
+      migrateToSfu();
+    };
+
     switch (signal.type) {
       case 'call-accept': {
         console.log('[SIGNAL] Call accepted by:', signal.from);
+        if (activeCallRef.current) emitCallEvent('accept', activeCallRef.current);
+        migrateIfMeshFull(signal.from);
+        if (transportKindRef.current === 'sfu') {
+          // Media arrives through the SFU; just track who is in the call. Someone invited
+          // before a migration still expects a mesh, so tell them to follow.
+          sfuPeersRef.current.add(signal.from);
+          sendTransportSwitch(signal.from);
+          if (callStateRef.current === 'ringing') setCallState('connecting');
+          break;
+        }
         setCallState('connecting');
         if (!currentStream) { console.error('[SIGNAL] No local stream!'); return; }
         const pc = makePeer(signal.from, currentStream, roomId);
@@ -297,6 +1005,12 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
 
       case 'participant-joined': {
         console.log('[SIGNAL] Participant joined:', signal.from);
+        migrateIfMeshFull(signal.from);
+        if (transportKindRef.current === 'sfu') {
+          sfuPeersRef.current.add(signal.from);
+          sendTransportSwitch(signal.from);
+          break;
+        }
         if (!currentStream) { console.error('[SIGNAL] No local stream!'); return; }
 
         // Lower ID creates the offer to avoid glare
@@ -306,18 +1020,35 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
           await sendOffer(signal.from, pc, roomId);
         } else {
           console.log('[SIGNAL] Waiting for offer from:', signal.from);
-          // Just prepare the peer connection
+          // Just prepare the peer connection, and tell the newcomer we're here so it offers
           makePeer(signal.from, currentStream, roomId);
+          callChannelRef.current?.send({
+            type: 'broadcast',
+            event: 'signal',
+            payload: { type: 'participant-present', from: myUserIdRef.current, to: signal.from, roomId },
+          });
         }
         break;
       }
 
+      // An existing member with a higher ID answered our 'participant-joined'; the offer is ours to make
+      case 'participant-present': {
+        console.log('[SIGNAL] Participant present:', signal.from);
+        if (transportKindRef.current === 'sfu') { sfuPeersRef.current.add(signal.from); break; }
+        if (!currentStream) { console.error('[SIGNAL] No local stream!'); return; }
+        const pc = makePeer(signal.from, currentStream, roomId);
+        await sendOffer(signal.from, pc, roomId);
+        break;
+      }
+
       case 'offer': {
         console.log('[SIGNAL] Got offer from:', signal.from);
         if (!currentStream) { console.error('[SIGNAL] No local stream!'); return; }
 
+        // A failed connection that is mid-reconnect takes the ICE restart offer as-is
         let pc = peerConnections.current.get(signal.from);
-        if (!pc || pc.connectionState === 'closed' || pc.connectionState === 'failed') {
+        const isRestart = reconnectTimers.current.has(signal.from);
+        if (!pc || pc.connectionState === 'closed' || (pc.connectionState === 'failed' && !isRestart)) {
           pc = makePeer(signal.from, currentStream, roomId);
         }
 
@@ -400,20 +1131,49 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
         break;
       }
 
+      case 'transport-switch':
+        if (signal.transport === 'sfu' && transportKindRef.current === 'mesh') {
+          console.log('[SIGNAL] Call moving to the SFU, per:', signal.from);
+          migrateToSfu();
+        }
+        break;
+
+      case 'recording-start':
+      case 'recording-stop': {
+        const active = signal.type === 'recording-start';
+        console.log('[SIGNAL] Recording', active ? 'started' : 'stopped', 'by:', signal.from);
+        setRecordingPeers(prev => {
+          const others = prev.filter(id => id !== signal.from);
+          return active ? [...others, signal.from] : others;
+        });
+        break;
+      }
+
+      case 'restart-request': {
+        console.log('[SIGNAL] ICE restart requested by:', signal.from);
+        restartIce(signal.from);
+        break;
+      }
+
       case 'call-end':
       case 'call-reject':
       case 'call-busy': {
         console.log('[SIGNAL] Call ended/rejected by:', signal.from);
-        const pc = peerConnections.current.get(signal.from);
-        if (pc) { pc.close(); peerConnections.current.delete(signal.from); }
-        setRemoteStreams(prev => { const n = new Map(prev); n.delete(signal.from); return n; });
-        if (peerConnections.current.size === 0) {
-          cleanup();
+        if (activeCallRef.current && signal.type !== 'call-end') {
+          emitCallEvent(signal.type === 'call-busy' ? 'busy' : 'reject', activeCallRef.current);
+        }
+        if (signal.type !== 'call-end') {
+          if (signal.type === 'call-busy') setBusyPeers(prev => (prev.includes(signal.from) ? prev : [...prev, signal.from]));
+          // Drop their tile; a ringing call only ends once nobody else is left to pick up
+          allParticipantsRef.current = allParticipantsRef.current.filter(id => id !== signal.from);
+          setCurrentCallTargets(prev => prev.filter(id => id !== signal.from));
+          if (callStateRef.current === 'ringing' && allParticipantsRef.current.some(id => id !== myUserIdRef.current)) break;
         }
+        removePeer(signal.from);
         break;
       }
     }
-  }, [makePeer, sendOffer, flushCandidates, cleanup]);
+  }, [makePeer, sendOffer, flushCandidates, emitCallEvent, restartIce, removePeer, handleParkedSignal, sendTransportSwitch, migrateToSfu]);
 
   // ─── SETUP CALL CHANNEL ──────────────────────────────────────
   const setupCallChannel = useCallback((roomId: string): Promise<ReturnType<typeof supabase.channel>> => {
@@ -426,13 +1186,39 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
       }
 
       const channel = supabase.channel('call-room-' + roomId, {
-        config: { broadcast: { self: false } }
+        config: { broadcast: { self: false }, presence: { key: myUserIdRef.current } }
+      });
+
+      channel.on('presence', { event: 'sync' }, () => {
+        if (roomIdRef.current !== roomId) return;
+        const roster = Object.keys(channel.presenceState());
+        callRosterRef.current = roster;
+        setCallRoster(roster);
       });
 
       channel.on('broadcast', { event: 'signal' }, ({ payload }) => {
         handleSignal(payload as SignalPayload);
       });
 
+      channel.on('broadcast', { event: 'media-state' }, ({ payload }) => {
+        const { from, roomId: stateRoomId, state } = payload as MediaStatePayload;
+        if (stateRoomId !== roomIdRef.current || !state) return;
+        setPeerMediaStates(prev => new Map(prev).set(from, state));
+      });
+
+      channel.on('broadcast', { event: 'call-chat' }, ({ payload }) => {
+        const { from, roomId: chatRoomId, data } = payload as CallChatPayload;
+        if (chatRoomId !== roomIdRef.current || transportKindRef.current !== 'sfu') return;
+        handleCallChatData(from, data);
+      });
+
+      channel.on('broadcast', { event: 'call-reaction' }, ({ payload }) => {
+        const { from, roomId: reactionRoomId, reaction } = payload as ReactionPayload;
+        // Only accept reactions attributed to the participant who sent them
+        if (reactionRoomId !== roomIdRef.current || reaction?.userId !== from) return;
+        onReactionRef.current?.(reaction);
+      });
+
       const timeout = setTimeout(() => {
         reject(new Error('Channel subscription timeout'));
       }, 15000);
@@ -442,6 +1228,7 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
         if (status === 'SUBSCRIBED') {
           clearTimeout(timeout);
           callChannelRef.current = channel;
+          channel.track({ joinedAt: Date.now() }).catch(err => console.warn('[CHANNEL] Presence track failed:', err));
           resolve(channel);
         } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
           clearTimeout(timeout);
@@ -449,18 +1236,112 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
         }
       });
     });
-  }, [handleSignal]);
+  }, [handleSignal, handleCallChatData]);
+
+  // ─── PERSONAL INBOX ──────────────────────────────────────────
+  // Invites and cancellations go to the callee's personal channel, which they
+  // listen on while idle. Sent several times for reliability.
+  // IMPORTANT: Channel name MUST match what the receiver is listening on!
+  const sendToInbox = useCallback((payload: SignalPayload, attempts = 5) => {
+    const inboxCh = supabase.channel('incoming-' + payload.to, {
+      config: { broadcast: { self: false } }
+    });
+
+    inboxCh.subscribe(async (status) => {
+      if (status === 'SUBSCRIBED') {
+        for (let attempt = 0; attempt < attempts; attempt++) {
+          console.log(`[INVITE] Sending ${payload.type} to ${payload.to}, attempt ${attempt + 1}`);
+          await inboxCh.send({ type: 'broadcast', event: 'incoming-call', payload });
+          await new Promise(r => setTimeout(r, 600));
+        }
+        // Keep channel alive briefly then cleanup
+        setTimeout(() => supabase.removeChannel(inboxCh), 15000);
+      }
+    });
+  }, []);
+
+  // One-off signal into a call room we aren't part of (declines and busy replies)
+  const sendToCallRoom = useCallback((payload: SignalPayload) => {
+    const roomCh = supabase.channel('call-room-' + payload.roomId, {
+      config: { broadcast: { self: false } }
+    });
+
+    roomCh.subscribe(async (status) => {
+      if (status === 'SUBSCRIBED') {
+        await roomCh.send({ type: 'broadcast', event: 'signal', payload });
+        setTimeout(() => supabase.removeChannel(roomCh), 2000);
+      }
+    });
+  }, []);
+
+  // Tell callees who haven't answered yet that the call is off
+  const cancelInvites = useCallback(() => {
+    const roomId = roomIdRef.current;
+    if (!roomId) return;
+    const unanswered = allParticipantsRef.current.filter(
+      id => id !== myUserIdRef.current && !getCallPeerIds().includes(id)
+    );
+    for (const targetId of unanswered) {
+      sendToInbox({ type: 'call-cancel', from: myUserIdRef.current, to: targetId, roomId }, 2);
+    }
+  }, [sendToInbox, getCallPeerIds]);
+
+  // ─── ICE CONFIG ──────────────────────────────────────────────
+  // Falls back to the previous config if resolving fails, so a broken token endpoint can't block calls
+  const resolveIceConfig = useCallback(async () => {
+    const getIceConfig = getIceConfigRef.current;
+    if (!getIceConfig) return;
+    try {
+      rtcConfigRef.current = await getIceConfig();
+    } catch (err) {
+      console.error('[ICE] Failed to resolve config, using previous:', err);
+    }
+  }, []);
+
+  // ─── ANNOUNCE JOIN ───────────────────────────────────────────
+  // Whoever invited us gets 'call-accept' and always offers; everyone else already in the
+  // room gets 'participant-joined' and negotiates by the lower-ID rule.
+  const announceJoin = useCallback(async (channel: ReturnType<typeof supabase.channel>, roomId: string, knownPeers: string[], inviterId?: string) => {
+    // Wait for channel to be fully ready, and for the presence roster to sync
+    await new Promise(r => setTimeout(r, 500));
+
+    if (inviterId) {
+      console.log('[CALL] Sending accept to:', inviterId);
+      channel.send({
+        type: 'broadcast',
+        event: 'signal',
+        payload: { type: 'call-accept', from: myUserIdRef.current, to: inviterId, roomId },
+      });
+    }
+
+    const others = new Set([...knownPeers, ...callRosterRef.current]);
+    others.delete(myUserIdRef.current);
+    if (inviterId) others.delete(inviterId);
+    for (const peerId of others) {
+      console.log('[CALL] Notifying participant:', peerId);
+      await new Promise(r => setTimeout(r, 200));
+      channel.send({
+        type: 'broadcast',
+        event: 'signal',
+        payload: { type: 'participant-joined', from: myUserIdRef.current, to: peerId, roomId },
+      });
+    }
+  }, []);
 
   // ─── INITIATE CALL ───────────────────────────────────────────
-  const initiateCall = useCallback(async (targetIds: string[], video: boolean) => {
+  const initiateCall = useCallback(async (targetIds: string[], video: boolean, join: JoinOptions = {}) => {
     if (callStateRef.current !== 'idle') {
       console.warn('[CALL] Already in a call');
       return;
     }
 
     console.log('[CALL] Initiating call to:', targetIds);
+    setBusyPeers([]);
     const roomId = uuidv4();
     const allPeers = [myUserId, ...targetIds];
+    const transport = chooseCallTransport(allPeers.length, sfuConfigRef.current);
+    transportKindRef.current = transport;
+    setCallTransport(transport);
 
     setCurrentRoomId(roomId);
     roomIdRef.current = roomId;
@@ -468,10 +1349,13 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
     allParticipantsRef.current = allPeers;
     setIsVideoCall(video);
     setCallState('ringing');
+    activeCallRef.current = { roomId, direction: 'outgoing', peerIds: targetIds, isVideo: video, connectedAt: null };
+    emitCallEvent('start', activeCallRef.current);
 
-    // Get media
-    const stream = await getMedia(video);
+    // Get media and ICE config
+    const [stream] = await Promise.all([getMedia(video), resolveIceConfig()]);
     if (!stream) { cleanup(); return; }
+    applyJoinOptions(stream, join);
 
     // Setup signaling channel
     try {
@@ -483,61 +1367,58 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
       return;
     }
 
+    // Publish to the SFU while ringing, so media flows as soon as someone answers
+    if (transport === 'sfu') {
+      try {
+        await connectSfu(roomId, stream);
+      } catch (err) {
+        console.error('[SFU] Connect failed:', err);
+        cleanup();
+        setError('Failed to reach the call server');
+        return;
+      }
+    }
+
     // Send invites to each target via their personal channel
-    // IMPORTANT: Channel name MUST match what the receiver is listening on!
     for (const targetId of targetIds) {
-      const inviteCh = supabase.channel('incoming-' + targetId, {
-        config: { broadcast: { self: false } }
-      });
-
-      inviteCh.subscribe(async (status) => {
-        if (status === 'SUBSCRIBED') {
-          // Send invite multiple times for reliability
-          for (let attempt = 0; attempt < 5; attempt++) {
-            console.log(`[INVITE] Sending to ${targetId}, attempt ${attempt + 1}`);
-            await inviteCh.send({
-              type: 'broadcast',
-              event: 'incoming-call',
-              payload: {
-                type: 'call-invite',
-                from: myUserId,
-                to: targetId,
-                roomId,
-                isVideo: video,
-                participants: allPeers,
-                fromUser: myUserInfo || {
-                  displayName: 'Unknown',
-                  avatarColor: '#8B5CF6',
-                  colorTheme: 'from-purple-500 to-pink-500',
-                },
-              },
-            });
-            await new Promise(r => setTimeout(r, 600));
-          }
-          // Keep channel alive briefly then cleanup
-          setTimeout(() => supabase.removeChannel(inviteCh), 15000);
-        }
+      sendToInbox({
+        type: 'call-invite',
+        from: myUserId,
+        to: targetId,
+        roomId,
+        isVideo: video,
+        participants: allPeers,
+        transport,
+        fromUser: myUserInfo || {
+          displayName: 'Unknown',
+          avatarColor: '#8B5CF6',
+          colorTheme: 'from-purple-500 to-pink-500',
+        },
       });
     }
 
     // Timeout after 60s
     setTimeout(() => {
-      if (callStateRef.current === 'ringing') {
+      if (callStateRef.current === 'ringing' && roomIdRef.current === roomId) {
         console.log('[CALL] No answer, timing out');
+        if (activeCallRef.current) emitCallEvent('missed', activeCallRef.current);
+        cancelInvites();
         cleanup();
       }
-    }, 60000);
-  }, [myUserId, myUserInfo, getMedia, setupCallChannel, cleanup]);
+    }, RING_TIMEOUT_MS);
+  }, [myUserId, myUserInfo, getMedia, resolveIceConfig, applyJoinOptions, setupCallChannel, connectSfu, cleanup, emitCallEvent, cancelInvites]);
 
   // ─── ACCEPT CALL ─────────────────────────────────────────────
-  const acceptCall = useCallback(async () => {
+  const acceptCall = useCallback(async (join: JoinOptions = {}) => {
     if (!incomingCall) { console.error('[CALL] No incoming call'); return; }
 
-    const { from: callerId, roomId, isVideo, participants } = incomingCall;
+    const { from: callerId, roomId, isVideo, participants, transport } = incomingCall;
     console.log('[CALL] Accepting call from:', callerId, 'room:', roomId);
 
     const otherPeers = participants.filter(p => p !== myUserId);
     allParticipantsRef.current = participants;
+    transportKindRef.current = transport;
+    setCallTransport(transport);
 
     setCurrentRoomId(roomId);
     roomIdRef.current = roomId;
@@ -545,10 +1426,13 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
     setIsVideoCall(isVideo);
     setCallState('connecting');
     setIncomingCall(null);
+    activeCallRef.current = { ...incomingToCallInfo(incomingCall, myUserId), connectedAt: null };
+    emitCallEvent('accept', activeCallRef.current);
 
-    // Get media
-    const stream = await getMedia(isVideo);
+    // Get media and ICE config
+    const [stream] = await Promise.all([getMedia(isVideo), resolveIceConfig()]);
     if (!stream) { cleanup(); return; }
+    applyJoinOptions(stream, join);
 
     // Setup signaling channel
     let channel: ReturnType<typeof supabase.channel>;
@@ -561,77 +1445,182 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
       return;
     }
 
-    // Wait for channel to be fully ready
-    await new Promise(r => setTimeout(r, 500));
+    // Join the SFU before announcing ourselves; if it's unreachable, back out quietly
+    if (transport === 'sfu') {
+      try {
+        await connectSfu(roomId, stream);
+      } catch (err) {
+        console.error('[SFU] Connect failed:', err);
+        for (const peerId of otherPeers) {
+          channel.send({ type: 'broadcast', event: 'signal', payload: { type: 'call-end', from: myUserId, to: peerId, roomId } });
+        }
+        cleanup();
+        setError('Failed to reach the call server');
+        return;
+      }
+      // Everyone else shows up as their streams arrive
+      sfuPeersRef.current.add(callerId);
+    }
 
-    // Tell the caller we accepted
-    console.log('[CALL] Sending accept to:', callerId);
-    channel.send({
-      type: 'broadcast',
-      event: 'signal',
-      payload: {
-        type: 'call-accept',
-        from: myUserId,
-        to: callerId,
-        roomId,
-      },
-    });
+    await announceJoin(channel, roomId, otherPeers, callerId);
+  }, [incomingCall, myUserId, getMedia, resolveIceConfig, applyJoinOptions, setupCallChannel, connectSfu, announceJoin, cleanup, emitCallEvent]);
 
-    // Notify other participants in group calls
-    for (const peerId of otherPeers) {
-      if (peerId !== callerId) {
-        console.log('[CALL] Notifying participant:', peerId);
-        await new Promise(r => setTimeout(r, 200));
-        channel.send({
-          type: 'broadcast',
-          event: 'signal',
-          payload: {
-            type: 'participant-joined',
-            from: myUserId,
-            to: peerId,
-            roomId,
-          },
-        });
+  // ─── REJOIN CALL ─────────────────────────────────────────────
+  const rejoinCall = useCallback(async (join: JoinOptions = {}) => {
+    const call = recentCall;
+    if (!call || callStateRef.current !== 'idle') return;
+    const { roomId, isVideo, transport } = call;
+    console.log('[CALL] Rejoining room:', roomId);
+
+    // The watcher shares the call channel's topic, so it must be gone before we subscribe
+    if (rosterWatchRef.current) {
+      await supabase.removeChannel(rosterWatchRef.current);
+      rosterWatchRef.current = null;
+    }
+    setRecentCall(null);
+    setRejoinableCall(null);
+
+    const peers = rejoinableCall?.roomId === roomId ? rejoinableCall.participants : call.peerIds;
+    allParticipantsRef.current = [myUserId, ...peers];
+    transportKindRef.current = transport;
+    setCallTransport(transport);
+    setCurrentRoomId(roomId);
+    roomIdRef.current = roomId;
+    setCurrentCallTargets(peers);
+    setIsVideoCall(isVideo);
+    setCallState('connecting');
+    activeCallRef.current = { roomId, direction: call.direction, peerIds: call.peerIds, isVideo, connectedAt: null };
+    emitCallEvent('accept', activeCallRef.current);
+
+    const [stream] = await Promise.all([getMedia(isVideo), resolveIceConfig()]);
+    if (!stream) { cleanup(); return; }
+    applyJoinOptions(stream, join);
+
+    let channel: ReturnType<typeof supabase.channel>;
+    try {
+      channel = await setupCallChannel(roomId);
+      if (transport === 'sfu') await connectSfu(roomId, stream);
+    } catch (err) {
+      console.error('[CALL] Rejoin failed:', err);
+      cleanup();
+      setError('Failed to rejoin call');
+      return;
+    }
+
+    await announceJoin(channel, roomId, []);
+    const roster = callRosterRef.current;
+    if (roster.includes(myUserId) && roster.length === 1) {
+      console.log('[CALL] Room is empty, nothing to rejoin');
+      cleanup();
+      setError('The call has already ended');
+    }
+  }, [recentCall, rejoinableCall, myUserId, getMedia, resolveIceConfig, applyJoinOptions, setupCallChannel, connectSfu, announceJoin, cleanup, emitCallEvent]);
+
+  const dismissRejoin = useCallback(() => {
+    setRecentCall(null);
+    setRejoinableCall(null);
+  }, []);
+
+  // Watch the room we left (without joining its presence) until it empties
+  useEffect(() => {
+    if (!recentCall || callState !== 'idle') return;
+    const { roomId, isVideo } = recentCall;
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+
+    const timer = setTimeout(() => {
+      const watch = supabase.channel('call-room-' + roomId);
+      channel = watch;
+      rosterWatchRef.current = watch;
+      watch.on('presence', { event: 'sync' }, () => {
+        const participants = Object.keys(watch.presenceState()).filter(id => id !== myUserIdRef.current);
+        if (participants.length === 0) {
+          console.log('[REJOIN] Room is empty:', roomId);
+          setRecentCall(null);
+          setRejoinableCall(null);
+        } else {
+          setRejoinableCall({ roomId, isVideo, participants });
+        }
+      });
+      watch.subscribe();
+    }, ROSTER_WATCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      if (channel && rosterWatchRef.current === channel) {
+        supabase.removeChannel(channel);
+        rosterWatchRef.current = null;
       }
+    };
+  }, [recentCall, callState]);
+
+  // ─── ADD PARTICIPANTS ────────────────────────────────────────
+  // Invite more people into the running call; the newcomer negotiates with everyone on accept
+  const addParticipants = useCallback((targetIds: string[]) => {
+    const roomId = roomIdRef.current;
+    if (!roomId || callStateRef.current === 'idle') return;
+    const fresh = targetIds.filter(id => id !== myUserId && !callRosterRef.current.includes(id));
+    if (fresh.length === 0) return;
+
+    console.log('[CALL] Adding participants:', fresh);
+    const participants = [...new Set([myUserId, ...callRosterRef.current, ...fresh])];
+    allParticipantsRef.current = [...new Set([...allParticipantsRef.current, ...fresh])];
+    setCurrentCallTargets(prev => [...prev, ...fresh.filter(id => !prev.includes(id))]);
+
+    for (const targetId of fresh) {
+      sendToInbox({
+        type: 'call-invite',
+        from: myUserId,
+        to: targetId,
+        roomId,
+        isVideo: isVideoCall,
+        participants,
+        transport: transportKindRef.current,
+        fromUser: myUserInfoRef.current || {
+          displayName: 'Unknown',
+          avatarColor: '#8B5CF6',
+          colorTheme: 'from-purple-500 to-pink-500',
+        },
+      });
     }
-  }, [incomingCall, myUserId, getMedia, setupCallChannel, cleanup]);
+
+    // Drop anyone who never picks up, so their tile doesn't linger
+    const timer = setTimeout(() => {
+      addedRingTimersRef.current.delete(timer);
+      if (roomIdRef.current !== roomId) return;
+      const unanswered = fresh.filter(id => !getCallPeerIds().includes(id) && !callRosterRef.current.includes(id));
+      if (unanswered.length === 0) return;
+      console.log('[CALL] No answer from added participants:', unanswered);
+      unanswered.forEach(id => sendToInbox({ type: 'call-cancel', from: myUserId, to: id, roomId }, 2));
+      allParticipantsRef.current = allParticipantsRef.current.filter(id => !unanswered.includes(id));
+      setCurrentCallTargets(prev => prev.filter(id => !unanswered.includes(id)));
+    }, RING_TIMEOUT_MS);
+    addedRingTimersRef.current.add(timer);
+  }, [myUserId, isVideoCall, sendToInbox, getCallPeerIds]);
 
   // ─── REJECT CALL ─────────────────────────────────────────────
   const rejectCall = useCallback(() => {
     if (!incomingCall) return;
     console.log('[CALL] Rejecting call from:', incomingCall.from);
-
-    // Send reject via a temporary channel
-    // Use the same call room channel so the caller receives the reject signal
-    const rejectCh = supabase.channel('call-room-' + incomingCall.roomId, {
-      config: { broadcast: { self: false } }
-    });
-
-    rejectCh.subscribe(async (status) => {
-      if (status === 'SUBSCRIBED') {
-        await rejectCh.send({
-          type: 'broadcast',
-          event: 'signal',
-          payload: {
-            type: 'call-reject',
-            from: myUserId,
-            to: incomingCall.from,
-            roomId: incomingCall.roomId,
-          },
-        });
-        setTimeout(() => supabase.removeChannel(rejectCh), 2000);
-      }
+    emitCallEvent('reject', incomingToCallInfo(incomingCall, myUserId));
+
+    // Declining a waiting call tells the caller we're busy rather than unavailable
+    sendToCallRoom({
+      type: callStateRef.current === 'idle' ? 'call-reject' : 'call-busy',
+      from: myUserId,
+      to: incomingCall.from,
+      roomId: incomingCall.roomId,
     });
 
     setIncomingCall(null);
-  }, [incomingCall, myUserId]);
+  }, [incomingCall, myUserId, emitCallEvent, sendToCallRoom]);
 
   // ─── END CALL ────────────────────────────────────────────────
   const endCall = useCallback(() => {
     console.log('[CALL] Ending call');
+    if (callStateRef.current === 'ringing') cancelInvites();
 
     // Notify all peers
-    peerConnections.current.forEach((_pc, peerId) => {
+    getCallPeerIds().forEach(peerId => {
       if (callChannelRef.current && roomIdRef.current) {
         callChannelRef.current.send({
           type: 'broadcast',
@@ -647,7 +1636,187 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
     });
 
     cleanup();
-  }, [myUserId, cleanup]);
+  }, [myUserId, cleanup, cancelInvites, getCallPeerIds]);
+
+  // ─── HOLD ────────────────────────────────────────────────────
+  // Stops sending to everyone without renegotiating; peers learn about it through the media state
+  const setHold = useCallback((hold: boolean) => {
+    const stream = localStreamRef.current;
+    if (!stream || callStateRef.current !== 'connected' || isOnHoldRef.current === hold) return;
+    console.log('[HOLD]', hold ? 'Holding' : 'Resuming', 'call:', roomIdRef.current);
+    isOnHoldRef.current = hold;
+    getMediaConnections().forEach(pc => (hold ? pauseSenders(pc) : resumeSenders(pc, stream)));
+    setIsOnHold(hold);
+  }, [getMediaConnections]);
+
+  const toggleHold = useCallback(() => setHold(!isOnHoldRef.current), [setHold]);
+
+  // Holds the current call and detaches it from the live refs, so the cleanup that
+  // follows leaves its connections and channel running
+  const parkCall = useCallback((): ParkedCall | null => {
+    const info = activeCallRef.current;
+    const channel = callChannelRef.current;
+    const stream = localStreamRef.current;
+    if (!info || !channel) return null;
+    console.log('[HOLD] Parking call:', info.roomId);
+
+    if (stream && !isOnHoldRef.current) getMediaConnections().forEach(pauseSenders);
+    mediaStateRef.current = { ...mediaStateRef.current, isOnHold: true };
+    broadcastMediaState();
+    // The recorder stops with the call, so peers need to drop the REC badge while we still have the channel
+    if (isRecordingRef.current) getCallPeerIds().forEach(peerId => sendRecordingNotice(peerId, false));
+
+    const parked: ParkedCall = {
+      info,
+      channel,
+      peerConnections: peerConnections.current,
+      chatChannels: chatChannels.current,
+      sfuTransport: sfuTransportRef.current,
+      sfuPeers: sfuPeersRef.current,
+      transport: transportKindRef.current,
+      participants: allParticipantsRef.current,
+      targets: currentCallTargets,
+      localStream: stream,
+      capturedDevices: capturedDevicesRef.current,
+      videoEffects: videoProcessorRef.current,
+      remoteStreams,
+      peerMediaStates,
+      callChatMessages,
+      media: { isMuted, isCameraOff, isScreenSharing, isHandRaised, isOnHold: true },
+    };
+
+    peerConnections.current = new Map();
+    chatChannels.current = new Map();
+    sfuTransportRef.current = null;
+    sfuPeersRef.current = new Set();
+    callChannelRef.current = null;
+    activeCallRef.current = null;
+    localStreamRef.current = null;
+    videoProcessorRef.current = null;
+    cleanup();
+    return parked;
+  }, [currentCallTargets, remoteStreams, peerMediaStates, callChatMessages, isMuted, isCameraOff, isScreenSharing, isHandRaised, getMediaConnections, broadcastMediaState, getCallPeerIds, sendRecordingNotice, cleanup]);
+
+  // Makes a parked call the live one again, taken off hold
+  const restoreCall = useCallback((parked: ParkedCall) => {
+    const { info, media } = parked;
+    console.log('[HOLD] Restoring call:', info.roomId);
+
+    peerConnections.current = parked.peerConnections;
+    chatChannels.current = parked.chatChannels;
+    sfuTransportRef.current = parked.sfuTransport;
+    sfuPeersRef.current = parked.sfuPeers;
+    transportKindRef.current = parked.transport;
+    callChannelRef.current = parked.channel;
+    activeCallRef.current = info;
+    roomIdRef.current = info.roomId;
+    allParticipantsRef.current = parked.participants;
+    localStreamRef.current = parked.localStream;
+    capturedDevicesRef.current = parked.capturedDevices;
+    videoProcessorRef.current = parked.videoEffects;
+    // Effect settings may have changed while the call was parked
+    parked.videoEffects?.setSettings(videoEffectsRef.current);
+    callRosterRef.current = Object.keys(parked.channel.presenceState());
+    isOnHoldRef.current = false;
+    if (parked.localStream) getMediaConnections().forEach(pc => resumeSenders(pc, parked.localStream!));
+
+    setLocalStream(parked.localStream);
+    setRemoteStreams(parked.remoteStreams);
+    setPeerMediaStates(parked.peerMediaStates);
+    setCallChatMessages(parked.callChatMessages);
+    setCallRoster(callRosterRef.current);
+    setCurrentRoomId(info.roomId);
+    setCurrentCallTargets(parked.targets);
+    setIsVideoCall(info.isVideo);
+    setCallTransport(parked.transport);
+    setIsMuted(media.isMuted);
+    setIsCameraOff(media.isCameraOff);
+    setIsScreenSharing(media.isScreenSharing);
+    setIsHandRaised(media.isHandRaised);
+    setIsOnHold(false);
+    setCallState('connected');
+
+    mediaStateRef.current = { ...media, isCameraOff: media.isCameraOff || !info.isVideo, isOnHold: false };
+    broadcastMediaState();
+    // Links that dropped during the hold go through the usual reconnect
+    peerConnections.current.forEach((pc, peerId) => {
+      if (pc.connectionState === 'failed' || pc.connectionState === 'disconnected') beginReconnect(peerId);
+    });
+  }, [getMediaConnections, broadcastMediaState, beginReconnect]);
+
+  // ─── CALL WAITING ────────────────────────────────────────────
+  // Answer a call that came in during this one, hanging up the current call or parking it
+  const answerWaitingCall = useCallback(async (action: WaitingCallAction) => {
+    if (!incomingCall || callStateRef.current === 'idle') return;
+
+    if (action === 'end') {
+      endCall();
+    } else {
+      const parked = parkCall();
+      if (!parked) return;
+      parkedCallRef.current = parked;
+      setHeldCall(toHeldCall(parked));
+    }
+
+    await acceptCall();
+  }, [incomingCall, endCall, parkCall, acceptCall]);
+
+  // Switch to the held call, holding the current one in its place
+  const swapCalls = useCallback(() => {
+    const held = parkedCallRef.current;
+    if (!held || callStateRef.current !== 'connected') return;
+    const current = parkCall();
+    if (!current) return;
+    parkedCallRef.current = current;
+    setHeldCall(toHeldCall(current));
+    restoreCall(held);
+  }, [parkCall, restoreCall]);
+
+  const resumeHeldCall = useCallback(() => {
+    const parked = parkedCallRef.current;
+    if (!parked || callStateRef.current !== 'idle') return;
+    parkedCallRef.current = null;
+    setHeldCall(null);
+    restoreCall(parked);
+  }, [restoreCall]);
+
+  // The held call comes back once the one taken in its place is over
+  useEffect(() => {
+    if (callState === 'idle' && heldCall) resumeHeldCall();
+  }, [callState, heldCall, resumeHeldCall]);
+
+  // ─── SEND REACTION ───────────────────────────────────────────
+  const sendReaction = useCallback((reaction: Reaction) => {
+    if (!callChannelRef.current || !roomIdRef.current) return;
+    const payload: ReactionPayload = { from: myUserId, roomId: roomIdRef.current, reaction };
+    callChannelRef.current.send({ type: 'broadcast', event: 'call-reaction', payload });
+  }, [myUserId]);
+
+  // ─── SEND CALL CHAT ──────────────────────────────────────────
+  const sendCallChatMessage = useCallback((content: string) => {
+    const text = content.trim().slice(0, MAX_CALL_CHAT_LENGTH);
+    if (!text) return;
+    const msg: CallChatMessage = {
+      id: uuidv4(),
+      senderId: myUserId,
+      senderName: myUserInfoRef.current?.displayName || 'Unknown',
+      senderColor: myUserInfoRef.current?.avatarColor || '#8B5CF6',
+      content: text,
+      timestamp: Date.now(),
+    };
+    setCallChatMessages(prev => [...prev, msg]);
+    const data = JSON.stringify(msg);
+    if (transportKindRef.current === 'sfu') {
+      if (!callChannelRef.current || !roomIdRef.current) return;
+      const payload: CallChatPayload = { from: myUserId, roomId: roomIdRef.current, data };
+      callChannelRef.current.send({ type: 'broadcast', event: 'call-chat', payload });
+      return;
+    }
+    chatChannels.current.forEach((channel, peerId) => {
+      if (channel.readyState === 'open') channel.send(data);
+      else console.warn('[CHAT] Channel not open for:', peerId);
+    });
+  }, [myUserId]);
 
   // ─── TOGGLE MUTE ─────────────────────────────────────────────
   const toggleMute = useCallback(() => {
@@ -669,24 +1838,35 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
     }
   }, []);
 
+  // ─── RECORDING NOTICE ────────────────────────────────────────
+  // The recorder itself lives outside the hook; this only keeps peers informed
+  const setRecording = useCallback((active: boolean) => {
+    if (isRecordingRef.current === active) return;
+    isRecordingRef.current = active;
+    getCallPeerIds().forEach(peerId => sendRecordingNotice(peerId, active));
+  }, [getCallPeerIds, sendRecordingNotice]);
+
+  // ─── TOGGLE HAND RAISE ───────────────────────────────────────
+  const toggleHandRaise = useCallback(() => {
+    setIsHandRaised(prev => !prev);
+  }, []);
+
   // ─── TOGGLE SCREEN SHARE ─────────────────────────────────────
   const toggleScreenShare = useCallback(async () => {
     if (isScreenSharing) {
       // Switch back to camera
       try {
-        const isMobile = /iPhone|iPad|iPod|Android/i.test(navigator.userAgent);
+        const cameraId = devicePreferencesRef.current.videoinput;
         const camStream = await navigator.mediaDevices.getUserMedia({
-          video: {
-            width: isMobile ? { ideal: 720 } : { ideal: 1280 },
-            height: isMobile ? { ideal: 1280 } : { ideal: 720 },
-            facingMode: 'user',
-          },
+          video: buildVideoConstraints(cameraId),
           audio: false,
         });
-        const camTrack = camStream.getVideoTracks()[0];
+        capturedDevicesRef.current.video = cameraId;
+        const rawTrack = camStream.getVideoTracks()[0];
+        const camTrack = rawTrack && processCameraTrack(rawTrack);
         if (camTrack && localStreamRef.current) {
           // Replace in peer connections
-          peerConnections.current.forEach(pc => {
+          getMediaConnections().forEach(pc => {
             const sender = pc.getSenders().find(s => s.track?.kind === 'video');
             if (sender) sender.replaceTrack(camTrack);
           });
@@ -706,7 +1886,7 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
         const screenStream = await navigator.mediaDevices.getDisplayMedia({ video: true });
         const screenTrack = screenStream.getVideoTracks()[0];
 
-        peerConnections.current.forEach(pc => {
+        getMediaConnections().forEach(pc => {
           const sender = pc.getSenders().find(s => s.track?.kind === 'video');
           if (sender) sender.replaceTrack(screenTrack);
         });
@@ -714,13 +1894,16 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
         screenTrack.onended = () => {
           setIsScreenSharing(false);
           // Auto-switch back to camera
+          const cameraId = devicePreferencesRef.current.videoinput;
           navigator.mediaDevices.getUserMedia({
-            video: { facingMode: 'user' },
+            video: buildVideoConstraints(cameraId),
             audio: false,
           }).then(camStream => {
-            const camTrack = camStream.getVideoTracks()[0];
+            capturedDevicesRef.current.video = cameraId;
+            const rawTrack = camStream.getVideoTracks()[0];
+            const camTrack = rawTrack && processCameraTrack(rawTrack);
             if (camTrack) {
-              peerConnections.current.forEach(pc => {
+              getMediaConnections().forEach(pc => {
                 const sender = pc.getSenders().find(s => s.track?.kind === 'video');
                 if (sender) sender.replaceTrack(camTrack);
               });
@@ -734,6 +1917,10 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
           }).catch(console.error);
         };
 
+        // Nothing to process while the screen owns the video sender
+        videoProcessorRef.current?.stop();
+        videoProcessorRef.current = null;
+
         if (localStreamRef.current) {
           const oldTracks = localStreamRef.current.getVideoTracks();
           oldTracks.forEach(t => localStreamRef.current?.removeTrack(t));
@@ -746,7 +1933,7 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
         console.error('[SCREEN] Screen share cancelled or failed:', err);
       }
     }
-  }, [isScreenSharing]);
+  }, [isScreenSharing, getMediaConnections, processCameraTrack]);
 
   // ─── INCOMING CALL LISTENER ──────────────────────────────────
   useEffect(() => {
@@ -764,31 +1951,52 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
       const data = payload as SignalPayload;
       console.log('[LISTEN] Received broadcast:', data.type, 'from:', data.from);
 
-      if (data.type !== 'call-invite') return;
       if (data.to !== myUserId) return;
 
+      // Caller hung up (or gave up) before we answered
+      if (data.type === 'call-cancel') {
+        const pending = incomingCallRef.current;
+        if (pending && pending.roomId === data.roomId) {
+          console.log('[LISTEN] Call cancelled by:', data.from);
+          emitCallEvent('missed', incomingToCallInfo(pending, myUserId));
+          incomingCallRef.current = null;
+          setIncomingCall(null);
+        }
+        return;
+      }
+      if (data.type !== 'call-invite') return;
+
       // Deduplicate
       if (processedCalls.has(data.roomId)) return;
       processedCalls.add(data.roomId);
       setTimeout(() => processedCalls.delete(data.roomId), 30000);
 
-      if (callStateRef.current !== 'idle') {
-        console.log('[LISTEN] Already in call, sending busy');
-        return;
-      }
-
-      console.log('[LISTEN] *** INCOMING CALL from:', data.from, '***');
-      setIncomingCall({
+      const call: IncomingCallData = {
         from: data.from,
         roomId: data.roomId,
         isVideo: data.isVideo ?? true,
         participants: data.participants || [data.from, myUserId],
+        transport: data.transport === 'sfu' ? 'sfu' : 'mesh',
         fromUser: data.fromUser || {
           displayName: 'Unknown',
           avatarColor: '#8B5CF6',
           colorTheme: 'from-purple-500 to-pink-500',
         },
-      });
+      };
+
+      // One call can wait while we're connected; while a call is still being set up,
+      // another is already waiting, or one is on hold, the caller hears busy
+      const state = callStateRef.current;
+      if ((state !== 'idle' && state !== 'connected') || incomingCallRef.current || parkedCallRef.current) {
+        console.log('[LISTEN] Already in call, sending busy');
+        emitCallEvent('missed', incomingToCallInfo(call, myUserId));
+        sendToCallRoom({ type: 'call-busy', from: myUserId, to: data.from, roomId: data.roomId });
+        return;
+      }
+
+      console.log('[LISTEN] *** INCOMING CALL from:', data.from, state === 'connected' ? '(waiting) ***' : '***');
+      emitCallEvent('start', incomingToCallInfo(call, myUserId));
+      setIncomingCall(call);
     });
 
     listenChannel.subscribe((status) => {
@@ -802,7 +2010,81 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
       console.log('[LISTEN] Removing listener');
       supabase.removeChannel(listenChannel);
     };
-  }, [myUserId]);
+  }, [myUserId, emitCallEvent, sendToCallRoom]);
+
+  useEffect(() => {
+    if (busyPeers.length === 0) return;
+    const timer = setTimeout(() => setBusyPeers([]), BUSY_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [busyPeers]);
+
+  // Stop ringing on our side if the call is never answered
+  useEffect(() => {
+    if (!incomingCall) return;
+    const timer = setTimeout(() => {
+      console.log('[LISTEN] Missed call from:', incomingCall.from);
+      emitCallEvent('missed', incomingToCallInfo(incomingCall, myUserId));
+      setIncomingCall(null);
+    }, RING_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [incomingCall, myUserId, emitCallEvent]);
+
+  // ─── ACTIVE SPEAKER ──────────────────────────────────────────
+  const callStreams = useMemo(() => {
+    const streams = new Map(remoteStreams);
+    if (localStream) streams.set(myUserId, localStream);
+    return streams;
+  }, [localStream, remoteStreams, myUserId]);
+  const { speakingIds, dominantSpeakerId } = useActiveSpeaker(callStreams);
+
+  // ─── CALL STATS ──────────────────────────────────────────────
+  // Polls every peer connection and steps our video send quality down while a peer reports loss
+  useEffect(() => {
+    if (callState !== 'connected') return;
+    const sampler = createStatsSampler();
+    const adaptive = createAdaptiveBitrate();
+    const known = new Set<string>();
+    let cancelled = false;
+
+    const poll = async () => {
+      const next = new Map<string, PeerStats>();
+      // An SFU call has a single link; its figures stand in for every participant on it
+      const targets = new Map(peerConnections.current);
+      const sfuLink = sfuTransportRef.current?.getConnections()[0];
+      if (sfuLink) targets.set(SFU_STATS_KEY, sfuLink);
+
+      await Promise.all([...targets].map(async ([peerId, pc]) => {
+        if (pc.connectionState !== 'connected') return;
+        try {
+          const stats = sampler.sample(peerId, await pc.getStats());
+          const level = adaptive.update(peerId, stats.outboundLoss);
+          if (level !== null) {
+            console.log('[STATS] Video send level for', peerId, '→', level);
+            applyVideoSendLevel(pc, level, mediaStateRef.current.isScreenSharing)
+              .catch(err => console.warn('[STATS] setParameters failed:', err));
+          }
+          const peerStats = { ...stats, sendLevel: adaptive.getLevel(peerId) };
+          if (peerId === SFU_STATS_KEY) sfuPeersRef.current.forEach(id => next.set(id, { ...peerStats, resolution: null, frameRate: null }));
+          else next.set(peerId, peerStats);
+        } catch (err) {
+          console.warn('[STATS] getStats failed for', peerId, err);
+        }
+      }));
+      // A peer that leaves and rejoins gets a fresh connection, so its counters start over
+      for (const peerId of known) {
+        if (!targets.has(peerId)) { sampler.forget(peerId); adaptive.forget(peerId); known.delete(peerId); }
+      }
+      targets.forEach((_, peerId) => known.add(peerId));
+      if (!cancelled) setPeerStats(next);
+    };
+
+    const interval = setInterval(poll, STATS_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      setPeerStats(new Map());
+    };
+  }, [callState]);
 
   // ─── UNMOUNT CLEANUP ─────────────────────────────────────────
   useEffect(() => {
@@ -810,11 +2092,21 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
       if (localStreamRef.current) {
         localStreamRef.current.getTracks().forEach(t => t.stop());
       }
+      videoProcessorRef.current?.stop();
       peerConnections.current.forEach(pc => pc.close());
       peerConnections.current.clear();
+      sfuTransportRef.current?.close();
       if (callChannelRef.current) {
         supabase.removeChannel(callChannelRef.current);
       }
+      const parked = parkedCallRef.current;
+      if (parked) {
+        parked.localStream?.getTracks().forEach(t => t.stop());
+        parked.videoEffects?.stop();
+        parked.peerConnections.forEach(pc => pc.close());
+        parked.sfuTransport?.close();
+        supabase.removeChannel(parked.channel);
+      }
     };
   }, []);
 
@@ -825,7 +2117,21 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
     isMuted,
     isCameraOff,
     isScreenSharing,
+    isHandRaised,
+    isOnHold,
+    peerMediaStates,
+    callChatMessages,
+    reconnectingPeers,
+    recordingPeers,
+    peerStats,
+    callTransport,
+    callRoster,
+    rejoinableCall,
+    heldCall,
+    busyPeers,
     isVideoCall,
+    speakingIds,
+    dominantSpeakerId,
     incomingCall,
     currentRoomId,
     currentCallTargets,
@@ -834,8 +2140,18 @@ export function useWebRTC(myUserId: string, myUserInfo?: UserInfo) {
     acceptCall,
     rejectCall,
     endCall,
+    answerWaitingCall,
+    swapCalls,
+    toggleHold,
+    setRecording,
+    addParticipants,
+    rejoinCall,
+    dismissRejoin,
     toggleMute,
     toggleCamera,
     toggleScreenShare,
+    toggleHandRaise,
+    sendReaction,
+    sendCallChatMessage,
   };
 }
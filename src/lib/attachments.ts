@@ -0,0 +1,87 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '@/lib/supabase';
+import { Attachment, AttachmentBackendKind } from '@/types';
+import { P2PFileTransfer } from '@/lib/p2pFileTransfer';
+
+export const DEFAULT_ATTACHMENT_BACKEND: AttachmentBackendKind = 'p2p';
+
+const THUMBNAIL_MAX_SIZE = 320;
+
+export type PublishedAttachment = Pick<Attachment, 'backend' | 'transferId'> & { fileUrl?: string };
+
+// Where attachment bytes live. The message itself only carries metadata and a thumbnail.
+export type AttachmentBackend = {
+  kind: AttachmentBackendKind;
+  maxBytes: number;
+  publish: (file: File, roomId: string) => Promise<PublishedAttachment>;
+};
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function isImageFile(mimeType: string): boolean {
+  return mimeType.startsWith('image/');
+}
+
+// Downscaled JPEG preview for images, small enough to travel inside the chat message
+export async function createImageThumbnail(file: File, maxSize = THUMBNAIL_MAX_SIZE): Promise<string | undefined> {
+  if (!isImageFile(file.type)) return undefined;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (err) {
+    console.warn('[ATTACH] Thumbnail failed:', err);
+    return undefined;
+  }
+}
+
+// ─── SUPABASE STORAGE ──────────────────────────────────────────
+export function createStorageBackend(bucket = 'attachments'): AttachmentBackend {
+  return {
+    kind: 'storage',
+    maxBytes: 50 * 1024 * 1024,
+
+    async publish(file, roomId) {
+      const path = `${roomId.replace(/:/g, '_')}/${uuidv4()}-${file.name}`;
+      const { error } = await supabase.storage.from(bucket).upload(path, file, {
+        contentType: file.type || 'application/octet-stream',
+      });
+      if (error) throw new Error(error.message);
+      const { data } = supabase.storage.from(bucket).getPublicUrl(path);
+      return { backend: 'storage', fileUrl: data.publicUrl };
+    },
+  };
+}
+
+// ─── PEER TO PEER ──────────────────────────────────────────────
+// Nothing is uploaded; the receiver pulls the bytes from the sender over a data channel.
+export function createP2PBackend(transfer: P2PFileTransfer): AttachmentBackend {
+  return {
+    kind: 'p2p',
+    maxBytes: 500 * 1024 * 1024,
+
+    async publish(file) {
+      return { backend: 'p2p', transferId: transfer.offer(file) };
+    },
+  };
+}
+
+// Hand a URL to the browser as a file download
+export function saveFileFromUrl(url: string, fileName: string) {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.rel = 'noopener';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+}
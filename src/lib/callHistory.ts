@@ -0,0 +1,96 @@
+// Persisted call log built from the lifecycle events emitted by useWebRTC
+
+export type CallDirection = 'incoming' | 'outgoing';
+
+export type CallLifecycleEventType = 'start' | 'accept' | 'reject' | 'missed' | 'busy' | 'end';
+
+export type CallLifecycleEvent = {
+  type: CallLifecycleEventType;
+  roomId: string;
+  direction: CallDirection;
+  // Everyone else invited to the call
+  peerIds: string[];
+  isVideo: boolean;
+  at: number;
+  // Seconds spent connected; only set on 'end'
+  duration?: number;
+};
+
+// 'ringing' only lasts until the call resolves; 'cancelled' is an outgoing call hung up before anyone answered
+export type CallOutcome = 'ringing' | 'answered' | 'missed' | 'rejected' | 'busy' | 'cancelled';
+
+export type CallRecord = {
+  id: string;
+  direction: CallDirection;
+  outcome: CallOutcome;
+  isVideo: boolean;
+  participantIds: string[];
+  startedAt: number;
+  duration: number;
+};
+
+const CALL_HISTORY_STORAGE_KEY = 'callie_call_history';
+const MAX_CALL_RECORDS = 200;
+
+export function loadCallHistory(userId: string): CallRecord[] {
+  try {
+    const stored = localStorage.getItem(`${CALL_HISTORY_STORAGE_KEY}_${userId}`);
+    if (stored) return JSON.parse(stored) as CallRecord[];
+  } catch {
+    // ignore
+  }
+  return [];
+}
+
+export function saveCallHistory(userId: string, records: CallRecord[]) {
+  localStorage.setItem(`${CALL_HISTORY_STORAGE_KEY}_${userId}`, JSON.stringify(records));
+}
+
+// Fold one lifecycle event into the log (newest first). Events carry the full
+// call description, so a record is created by whichever event arrives first.
+export function applyCallEvent(records: CallRecord[], event: CallLifecycleEvent): CallRecord[] {
+  const existing = records.find(r => r.id === event.roomId);
+  const record: CallRecord = existing ?? {
+    id: event.roomId,
+    direction: event.direction,
+    outcome: 'ringing',
+    isVideo: event.isVideo,
+    participantIds: event.peerIds,
+    startedAt: event.at,
+    duration: 0,
+  };
+
+  const next = { ...record };
+  switch (event.type) {
+    case 'accept':
+      next.outcome = 'answered';
+      break;
+    case 'reject':
+    case 'missed':
+    case 'busy':
+      // A group call stays answered if someone else picked up
+      if (next.outcome === 'ringing') {
+        next.outcome = event.type === 'reject' ? 'rejected' : event.type;
+      }
+      break;
+    case 'end':
+      // Rejoining the same room adds another stretch to the same record
+      next.duration += event.duration ?? 0;
+      if (next.outcome === 'ringing') {
+        next.outcome = next.direction === 'outgoing' ? 'cancelled' : 'missed';
+      }
+      break;
+  }
+
+  const rest = records.filter(r => r.id !== next.id);
+  return [next, ...rest].sort((a, b) => b.startedAt - a.startedAt).slice(0, MAX_CALL_RECORDS);
+}
+
+export function formatCallDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  if (h > 0) return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  return `${m}:${s.toString().padStart(2, '0')}`;
+}
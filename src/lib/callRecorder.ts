@@ -0,0 +1,191 @@
+// Records a call into a single WebM file: every participant's video is drawn into
+// a grid on a canvas, and every audio track is mixed through one Web Audio graph.
+import { createFrameTimer } from '@/lib/frameTimer';
+
+export type RecordingTile = {
+  id: string;
+  stream: MediaStream;
+  label: string;
+  color: string;
+};
+
+export type CallRecorder = {
+  // Call whenever participants come or go, or their streams or audio tracks change
+  setTiles: (tiles: RecordingTile[]) => void;
+  stop: () => Promise<Blob>;
+};
+
+type TileSource = {
+  tile: RecordingTile;
+  video: HTMLVideoElement;
+  audio: MediaStreamAudioSourceNode | null;
+  // The audio node stays on the tracks it was created with, so a swapped mic needs a new one
+  audioTrackIds: string;
+};
+
+const CANVAS_WIDTH = 1280;
+const CANVAS_HEIGHT = 720;
+const FRAME_RATE = 30;
+const TILE_GAP = 8;
+const TIMESLICE_MS = 1000;
+
+export function pickRecordingMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  const candidates = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+export function isRecordingSupported() {
+  return pickRecordingMimeType() !== null && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+}
+
+function drawCover(ctx: CanvasRenderingContext2D, video: HTMLVideoElement, x: number, y: number, w: number, h: number) {
+  const scale = Math.max(w / video.videoWidth, h / video.videoHeight);
+  const sw = w / scale;
+  const sh = h / scale;
+  ctx.drawImage(video, (video.videoWidth - sw) / 2, (video.videoHeight - sh) / 2, sw, sh, x, y, w, h);
+}
+
+function drawPlaceholder(ctx: CanvasRenderingContext2D, tile: RecordingTile, x: number, y: number, w: number, h: number) {
+  const radius = Math.min(w, h) / 6;
+  ctx.fillStyle = tile.color;
+  ctx.beginPath();
+  ctx.arc(x + w / 2, y + h / 2, radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `bold ${Math.round(radius)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(tile.label.charAt(0).toUpperCase(), x + w / 2, y + h / 2);
+}
+
+function getAudioTrackIds(stream: MediaStream) {
+  return stream.getAudioTracks().map(t => t.id).join(',');
+}
+
+function hasLiveVideo(source: TileSource) {
+  const track = source.tile.stream.getVideoTracks()[0];
+  return !!track && track.enabled && track.readyState === 'live' && source.video.readyState >= 2 && source.video.videoWidth > 0;
+}
+
+export function createCallRecorder(initialTiles: RecordingTile[]): CallRecorder {
+  const mimeType = pickRecordingMimeType();
+  if (!mimeType) throw new Error('Recording is not supported in this browser');
+
+  const canvas = document.createElement('canvas');
+  canvas.width = CANVAS_WIDTH;
+  canvas.height = CANVAS_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  const audioCtx = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+  audioCtx.resume().catch(() => {});
+  const mix = audioCtx.createMediaStreamDestination();
+  const sources = new Map<string, TileSource>();
+
+  const detach = (id: string) => {
+    const source = sources.get(id);
+    if (!source) return;
+    source.audio?.disconnect();
+    source.video.srcObject = null;
+    sources.delete(id);
+  };
+
+  const attach = (tile: RecordingTile) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = tile.stream;
+    video.play().catch(() => {});
+
+    let audio: MediaStreamAudioSourceNode | null = null;
+    if (tile.stream.getAudioTracks().length > 0) {
+      try {
+        audio = audioCtx.createMediaStreamSource(tile.stream);
+        audio.connect(mix);
+      } catch (err) {
+        console.warn('[RECORD] Could not mix audio for:', tile.id, err);
+      }
+    }
+    sources.set(tile.id, { tile, video, audio, audioTrackIds: getAudioTrackIds(tile.stream) });
+  };
+
+  const setTiles = (tiles: RecordingTile[]) => {
+    const ids = new Set(tiles.map(t => t.id));
+    [...sources.keys()].forEach(id => { if (!ids.has(id)) detach(id); });
+    tiles.forEach(tile => {
+      const existing = sources.get(tile.id);
+      if (existing && existing.tile.stream === tile.stream && existing.audioTrackIds === getAudioTrackIds(tile.stream)) {
+        existing.tile = tile;
+        return;
+      }
+      detach(tile.id);
+      attach(tile);
+    });
+  };
+
+  const draw = () => {
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    const list = [...sources.values()];
+    if (list.length === 0) return;
+
+    const cols = Math.ceil(Math.sqrt(list.length));
+    const rows = Math.ceil(list.length / cols);
+    const w = (CANVAS_WIDTH - TILE_GAP * (cols + 1)) / cols;
+    const h = (CANVAS_HEIGHT - TILE_GAP * (rows + 1)) / rows;
+
+    list.forEach((source, i) => {
+      const x = TILE_GAP + (i % cols) * (w + TILE_GAP);
+      const y = TILE_GAP + Math.floor(i / cols) * (h + TILE_GAP);
+      ctx.fillStyle = '#1e293b';
+      ctx.fillRect(x, y, w, h);
+      if (hasLiveVideo(source)) drawCover(ctx, source.video, x, y, w, h);
+      else drawPlaceholder(ctx, source.tile, x, y, w, h);
+
+      ctx.font = '16px sans-serif';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'bottom';
+      const labelWidth = ctx.measureText(source.tile.label).width + 16;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+      ctx.fillRect(x + 8, y + h - 36, labelWidth, 28);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(source.tile.label, x + 16, y + h - 14);
+    });
+  };
+
+  setTiles(initialTiles);
+  // Keeps recording at full rate when the call is left running in another tab
+  const frameTimer = createFrameTimer(draw, FRAME_RATE);
+  draw();
+
+  const output = new MediaStream([
+    ...canvas.captureStream(FRAME_RATE).getVideoTracks(),
+    ...mix.stream.getAudioTracks(),
+  ]);
+  const recorder = new MediaRecorder(output, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  recorder.start(TIMESLICE_MS);
+
+  return {
+    setTiles,
+
+    stop() {
+      return new Promise(resolve => {
+        const finish = () => {
+          frameTimer.stop();
+          [...sources.keys()].forEach(detach);
+          output.getTracks().forEach(t => t.stop());
+          audioCtx.close().catch(() => {});
+          resolve(new Blob(chunks, { type: mimeType.split(';')[0] }));
+        };
+        if (recorder.state === 'inactive') { finish(); return; }
+        recorder.onstop = finish;
+        recorder.stop();
+      });
+    },
+  };
+}
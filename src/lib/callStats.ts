@@ -0,0 +1,213 @@
+// Call quality figures derived from RTCPeerConnection.getStats(), plus the
+// adaptive send policy that reacts to them. Rates need two samples, so the
+// sampler keeps the previous counters for each peer.
+
+export type SignalQuality = 'good' | 'fair' | 'poor';
+
+export type CandidatePairInfo = {
+  localType: string;
+  remoteType: string;
+  protocol: string;
+};
+
+export type PeerStats = {
+  rttMs: number | null;
+  jitterMs: number | null;
+  // Fraction (0..1) of packets from this peer lost since the previous sample
+  packetLoss: number;
+  // Loss the peer reports for the video we send it, which drives the adaptive policy
+  outboundLoss: number;
+  inboundKbps: number;
+  outboundKbps: number;
+  // Incoming video
+  resolution: string | null;
+  frameRate: number | null;
+  candidatePair: CandidatePairInfo | null;
+  quality: SignalQuality;
+  // Index into VIDEO_SEND_LEVELS currently applied to our sender for this peer
+  sendLevel: number;
+};
+
+type Counters = {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsLost: number;
+  packetsReceived: number;
+};
+
+// Stats entries are untyped dictionaries whose fields vary by type and browser
+type StatsEntry = Record<string, unknown> & { id: string; type: string; timestamp: number };
+
+const num = (value: unknown): number | null => (typeof value === 'number' && isFinite(value) ? value : null);
+
+export function getSignalQuality(rttMs: number | null, packetLoss: number): SignalQuality {
+  if (packetLoss >= 0.1 || (rttMs ?? 0) >= 500) return 'poor';
+  if (packetLoss >= 0.03 || (rttMs ?? 0) >= 250) return 'fair';
+  return 'good';
+}
+
+function findSelectedPair(entries: StatsEntry[], byId: Map<string, StatsEntry>): StatsEntry | null {
+  const transport = entries.find(e => e.type === 'transport' && e.selectedCandidatePairId);
+  if (transport) return byId.get(transport.selectedCandidatePairId as string) ?? null;
+  // Firefox has no transport stats; it flags the pair instead
+  return entries.find(e => e.type === 'candidate-pair' && (e.selected || (e.nominated && e.state === 'succeeded'))) ?? null;
+}
+
+export function createStatsSampler() {
+  const previous = new Map<string, Counters>();
+
+  return {
+    sample(peerId: string, report: RTCStatsReport): PeerStats {
+      const entries: StatsEntry[] = [];
+      report.forEach(entry => entries.push(entry as StatsEntry));
+      const byId = new Map(entries.map(e => [e.id, e]));
+
+      const counters: Counters = { timestamp: 0, bytesReceived: 0, bytesSent: 0, packetsLost: 0, packetsReceived: 0 };
+      let jitterMs: number | null = null;
+      let resolution: string | null = null;
+      let frameRate: number | null = null;
+      let outboundLoss = 0;
+      let remoteRtt: number | null = null;
+
+      for (const entry of entries) {
+        counters.timestamp = Math.max(counters.timestamp, entry.timestamp);
+        if (entry.type === 'inbound-rtp') {
+          counters.bytesReceived += num(entry.bytesReceived) ?? 0;
+          counters.packetsLost += num(entry.packetsLost) ?? 0;
+          counters.packetsReceived += num(entry.packetsReceived) ?? 0;
+          const jitter = num(entry.jitter);
+          if (jitter !== null) jitterMs = Math.max(jitterMs ?? 0, jitter * 1000);
+          if (entry.kind === 'video') {
+            const width = num(entry.frameWidth);
+            const height = num(entry.frameHeight);
+            if (width && height) resolution = `${width}×${height}`;
+            frameRate = num(entry.framesPerSecond) ?? frameRate;
+          }
+        } else if (entry.type === 'outbound-rtp') {
+          counters.bytesSent += num(entry.bytesSent) ?? 0;
+        } else if (entry.type === 'remote-inbound-rtp') {
+          if (entry.kind === 'video') outboundLoss = Math.max(outboundLoss, num(entry.fractionLost) ?? 0);
+          const rtt = num(entry.roundTripTime);
+          if (rtt !== null) remoteRtt = rtt * 1000;
+        }
+      }
+
+      const pair = findSelectedPair(entries, byId);
+      let candidatePair: CandidatePairInfo | null = null;
+      let rttMs = remoteRtt;
+      if (pair) {
+        const local = byId.get(pair.localCandidateId as string);
+        const remote = byId.get(pair.remoteCandidateId as string);
+        const pairRtt = num(pair.currentRoundTripTime);
+        if (pairRtt !== null) rttMs = pairRtt * 1000;
+        if (local && remote) {
+          candidatePair = {
+            localType: String(local.candidateType ?? 'unknown'),
+            remoteType: String(remote.candidateType ?? 'unknown'),
+            protocol: String(local.relayProtocol ?? local.protocol ?? 'udp'),
+          };
+        }
+      }
+
+      const prev = previous.get(peerId);
+      previous.set(peerId, counters);
+      const elapsedS = prev ? (counters.timestamp - prev.timestamp) / 1000 : 0;
+      const kbps = (now: number, before: number) =>
+        elapsedS > 0 ? Math.max(0, Math.round(((now - before) * 8) / 1000 / elapsedS)) : 0;
+
+      let packetLoss = 0;
+      if (prev) {
+        const lost = counters.packetsLost - prev.packetsLost;
+        const received = counters.packetsReceived - prev.packetsReceived;
+        if (lost > 0 && lost + received > 0) packetLoss = lost / (lost + received);
+      }
+
+      return {
+        rttMs,
+        jitterMs,
+        packetLoss,
+        outboundLoss,
+        inboundKbps: prev ? kbps(counters.bytesReceived, prev.bytesReceived) : 0,
+        outboundKbps: prev ? kbps(counters.bytesSent, prev.bytesSent) : 0,
+        resolution,
+        frameRate,
+        candidatePair,
+        quality: getSignalQuality(rttMs, Math.max(packetLoss, outboundLoss)),
+        sendLevel: 0,
+      };
+    },
+
+    forget(peerId: string) {
+      previous.delete(peerId);
+    },
+  };
+}
+
+// Video send steps, best first. Level 0 leaves the browser's own limits in place.
+export const VIDEO_SEND_LEVELS: { maxBitrate?: number; scaleResolutionDownBy: number }[] = [
+  { scaleResolutionDownBy: 1 },
+  { maxBitrate: 1_000_000, scaleResolutionDownBy: 1.5 },
+  { maxBitrate: 500_000, scaleResolutionDownBy: 2 },
+  { maxBitrate: 250_000, scaleResolutionDownBy: 4 },
+];
+
+// Step down quickly when loss climbs, recover slowly once it settles
+const DEGRADE_LOSS = 0.08;
+const RECOVER_LOSS = 0.02;
+const DEGRADE_AFTER_SAMPLES = 2;
+const RECOVER_AFTER_SAMPLES = 5;
+
+export function createAdaptiveBitrate() {
+  const peers = new Map<string, { level: number; lossy: number; clean: number }>();
+
+  return {
+    getLevel(peerId: string) {
+      return peers.get(peerId)?.level ?? 0;
+    },
+
+    // Returns the new level when it should change, otherwise null
+    update(peerId: string, outboundLoss: number): number | null {
+      const state = peers.get(peerId) ?? { level: 0, lossy: 0, clean: 0 };
+      peers.set(peerId, state);
+
+      if (outboundLoss >= DEGRADE_LOSS) { state.lossy++; state.clean = 0; }
+      else if (outboundLoss <= RECOVER_LOSS) { state.clean++; state.lossy = 0; }
+      else { state.lossy = 0; state.clean = 0; }
+
+      if (state.lossy >= DEGRADE_AFTER_SAMPLES && state.level < VIDEO_SEND_LEVELS.length - 1) {
+        state.level++;
+        state.lossy = 0;
+        return state.level;
+      }
+      if (state.clean >= RECOVER_AFTER_SAMPLES && state.level > 0) {
+        state.level--;
+        state.clean = 0;
+        return state.level;
+      }
+      return null;
+    },
+
+    forget(peerId: string) {
+      peers.delete(peerId);
+    },
+  };
+}
+
+// Applies a send level to every encoding of the peer's video sender. Screen shares
+// keep full resolution (text must stay readable) and only lose bitrate.
+export async function applyVideoSendLevel(pc: RTCPeerConnection, level: number, keepResolution = false) {
+  const sender = pc.getSenders().find(s => s.track?.kind === 'video');
+  if (!sender) return;
+  const { maxBitrate } = VIDEO_SEND_LEVELS[level];
+  const scaleResolutionDownBy = keepResolution ? 1 : VIDEO_SEND_LEVELS[level].scaleResolutionDownBy;
+  const params = sender.getParameters();
+  if (!params.encodings?.length) return;
+  params.encodings = params.encodings.map(encoding => {
+    const next: RTCRtpEncodingParameters = { ...encoding, scaleResolutionDownBy };
+    if (maxBitrate) next.maxBitrate = maxBitrate;
+    else delete next.maxBitrate;
+    return next;
+  });
+  await sender.setParameters(params);
+}
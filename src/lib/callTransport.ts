@@ -0,0 +1,196 @@
+// How call media travels. Small calls use a full mesh (one RTCPeerConnection per
+// participant, managed by useWebRTC); larger ones publish once to a Selective
+// Forwarding Unit, which forwards everyone else's tracks back. Invites, media
+// state, reactions and hang-ups stay on the Supabase call channel either way.
+
+export type CallTransportKind = 'mesh' | 'sfu';
+
+// Upload cost grows with every mesh peer; past this many people the SFU takes over
+export const MESH_MAX_PARTICIPANTS = 4;
+
+const SFU_CONNECT_TIMEOUT_MS = 10000;
+
+export type SfuTransportOptions = {
+  url: string;
+  roomId: string;
+  userId: string;
+  rtcConfig: RTCConfiguration;
+  // Remote streams are identified by the publishing participant's user ID
+  onRemoteStream: (peerId: string, stream: MediaStream) => void;
+  onParticipantLeft: (peerId: string) => void;
+  onStateChange: (state: RTCPeerConnectionState) => void;
+};
+
+export type SfuTransport = {
+  connect: (stream: MediaStream) => Promise<void>;
+  // Connections carrying our media, for replaceTrack, setParameters and getStats
+  getConnections: () => RTCPeerConnection[];
+  close: () => void;
+};
+
+// Plug point for other SFUs (e.g. a LiveKit or mediasoup client wrapped to this shape)
+export type SfuTransportFactory = (options: SfuTransportOptions) => SfuTransport;
+
+export type SfuConfig = {
+  url: string;
+  // Participant count (including us) at which calls switch from mesh to the SFU
+  minParticipants?: number;
+  createTransport?: SfuTransportFactory;
+};
+
+export function getSfuConfig(): SfuConfig | null {
+  const url = import.meta.env.VITE_SFU_URL;
+  if (!url) return null;
+  const minParticipants = Number(import.meta.env.VITE_SFU_MIN_PARTICIPANTS);
+  return { url, minParticipants: minParticipants > 1 ? minParticipants : undefined };
+}
+
+export function chooseCallTransport(participantCount: number, sfu: SfuConfig | null | undefined): CallTransportKind {
+  if (!sfu) return 'mesh';
+  return participantCount >= (sfu.minParticipants ?? MESH_MAX_PARTICIPANTS + 1) ? 'sfu' : 'mesh';
+}
+
+type SfuMessage =
+  | { type: 'join'; roomId: string; userId: string }
+  | { type: 'offer' | 'answer'; sdp: RTCSessionDescriptionInit }
+  | { type: 'candidate'; candidate: RTCIceCandidateInit }
+  | { type: 'participant-left'; userId: string };
+
+// Built-in client for a minimal JSON-over-WebSocket SFU protocol:
+//   → join { roomId, userId }, then offer/answer/candidate for a single RTCPeerConnection
+//   ← answer, offer (when the server adds or drops forwarded tracks), candidate, participant-left
+// The server must use each publisher's user ID as the stream id of the tracks it forwards.
+export function createWebSocketSfuTransport({
+  url,
+  roomId,
+  userId,
+  rtcConfig,
+  onRemoteStream,
+  onParticipantLeft,
+  onStateChange,
+}: SfuTransportOptions): SfuTransport {
+  let ws: WebSocket | null = null;
+  let pc: RTCPeerConnection | null = null;
+  let closed = false;
+  const pendingCandidates: RTCIceCandidateInit[] = [];
+
+  const send = (msg: SfuMessage) => {
+    if (ws?.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+  };
+
+  const negotiate = async (iceRestart = false) => {
+    if (!pc || pc.signalingState !== 'stable') return;
+    const offer = await pc.createOffer({ iceRestart });
+    await pc.setLocalDescription(offer);
+    send({ type: 'offer', sdp: offer });
+  };
+
+  const flushCandidates = async () => {
+    while (pc && pendingCandidates.length > 0) {
+      await pc.addIceCandidate(pendingCandidates.shift()).catch(err => console.warn('[SFU] Candidate error:', err));
+    }
+  };
+
+  const handleMessage = async (msg: SfuMessage) => {
+    if (!pc) return;
+    switch (msg.type) {
+      case 'answer':
+        await pc.setRemoteDescription(msg.sdp);
+        await flushCandidates();
+        break;
+      case 'offer': {
+        // The SFU always wins glare; our offer goes out again once this exchange settles
+        const rolledBack = pc.signalingState === 'have-local-offer';
+        if (rolledBack) {
+          console.log('[SFU] Glare: rolling back my offer');
+          await pc.setLocalDescription({ type: 'rollback' });
+        }
+        await pc.setRemoteDescription(msg.sdp);
+        await flushCandidates();
+        const answer = await pc.createAnswer();
+        await pc.setLocalDescription(answer);
+        send({ type: 'answer', sdp: answer });
+        if (rolledBack) await negotiate();
+        break;
+      }
+      case 'candidate':
+        if (pc.remoteDescription) await pc.addIceCandidate(msg.candidate);
+        else pendingCandidates.push(msg.candidate);
+        break;
+      case 'participant-left':
+        onParticipantLeft(msg.userId);
+        break;
+    }
+  };
+
+  return {
+    connect(stream) {
+      return new Promise((resolve, reject) => {
+        const timeout = setTimeout(() => reject(new Error('SFU connection timeout')), SFU_CONNECT_TIMEOUT_MS);
+        const socket = new WebSocket(url);
+        ws = socket;
+
+        socket.onopen = async () => {
+          send({ type: 'join', roomId, userId });
+
+          const conn = new RTCPeerConnection(rtcConfig);
+          pc = conn;
+          stream.getTracks().forEach(track => conn.addTrack(track, stream));
+          conn.onicecandidate = (ev) => {
+            if (ev.candidate) send({ type: 'candidate', candidate: ev.candidate.toJSON() });
+          };
+          conn.ontrack = (ev) => {
+            const remoteStream = ev.streams[0];
+            if (remoteStream && remoteStream.id !== userId) onRemoteStream(remoteStream.id, remoteStream);
+          };
+          conn.onconnectionstatechange = () => {
+            console.log('[SFU] Connection state:', conn.connectionState);
+            onStateChange(conn.connectionState);
+            if (conn.connectionState === 'failed' && !closed) {
+              negotiate(true).catch(err => console.warn('[SFU] ICE restart failed:', err));
+            }
+          };
+
+          try {
+            await negotiate();
+            clearTimeout(timeout);
+            resolve();
+          } catch (err) {
+            clearTimeout(timeout);
+            reject(err);
+          }
+        };
+
+        socket.onmessage = (ev) => {
+          try {
+            handleMessage(JSON.parse(ev.data) as SfuMessage).catch(err => console.error('[SFU] Message error:', err));
+          } catch (err) {
+            console.warn('[SFU] Bad message:', err);
+          }
+        };
+
+        socket.onerror = () => {
+          clearTimeout(timeout);
+          reject(new Error('SFU connection failed'));
+        };
+
+        socket.onclose = () => {
+          console.log('[SFU] Socket closed');
+          if (!closed) onStateChange('failed');
+        };
+      });
+    },
+
+    getConnections() {
+      return pc ? [pc] : [];
+    },
+
+    close() {
+      closed = true;
+      pc?.close();
+      pc = null;
+      ws?.close();
+      ws = null;
+    },
+  };
+}
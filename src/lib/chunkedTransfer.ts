@@ -0,0 +1,65 @@
+// Splits large broadcast payloads (e.g. voice notes encoded as data URLs) into
+// pieces small enough for a realtime broadcast, and reassembles them on arrival.
+
+export const CHUNK_SIZE = 32 * 1024;
+
+// Payloads above this size are sent chunked instead of as a single event
+export const CHUNK_THRESHOLD = 48 * 1024;
+
+// Pause between chunks to stay under the realtime client's events-per-second limit
+export const CHUNK_INTERVAL_MS = 120;
+
+export type PayloadChunk = {
+  transferId: string;
+  index: number;
+  total: number;
+  data: string;
+};
+
+export function splitPayload(transferId: string, serialized: string, size = CHUNK_SIZE): PayloadChunk[] {
+  const total = Math.max(1, Math.ceil(serialized.length / size));
+  return Array.from({ length: total }, (_, index) => ({
+    transferId,
+    index,
+    total,
+    data: serialized.slice(index * size, (index + 1) * size),
+  }));
+}
+
+// Collects chunks per transfer. `add` returns the full serialized payload once every
+// chunk has arrived; incomplete transfers are dropped after `ttlMs`.
+export function createChunkAssembler(ttlMs = 60000) {
+  const transfers = new Map<string, { parts: string[]; received: number; timer: ReturnType<typeof setTimeout> }>();
+
+  const drop = (transferId: string) => {
+    const transfer = transfers.get(transferId);
+    if (transfer) clearTimeout(transfer.timer);
+    transfers.delete(transferId);
+  };
+
+  return {
+    add(chunk: PayloadChunk): string | null {
+      let transfer = transfers.get(chunk.transferId);
+      if (!transfer) {
+        transfer = {
+          parts: new Array(chunk.total),
+          received: 0,
+          timer: setTimeout(() => drop(chunk.transferId), ttlMs),
+        };
+        transfers.set(chunk.transferId, transfer);
+      }
+      if (transfer.parts[chunk.index] === undefined) {
+        transfer.parts[chunk.index] = chunk.data;
+        transfer.received++;
+      }
+      if (transfer.received < chunk.total) return null;
+
+      drop(chunk.transferId);
+      return transfer.parts.join('');
+    },
+
+    clear() {
+      Array.from(transfers.keys()).forEach(drop);
+    },
+  };
+}
@@ -0,0 +1,43 @@
+// Drives canvas pipelines that have to keep producing frames while the tab is hidden.
+// requestAnimationFrame stops in background tabs and page timers are throttled to about
+// once a second, but a worker's timers keep their rate, so the ticks come from one.
+
+export type FrameTimer = {
+  stop: () => void;
+};
+
+export function createFrameTimer(onFrame: () => void, frameRate: number): FrameTimer {
+  const intervalMs = 1000 / frameRate;
+  let fallback: ReturnType<typeof setInterval> | null = null;
+  let worker: Worker | null = null;
+  let workerUrl: string | null = null;
+
+  const useFallback = () => {
+    worker?.terminate();
+    worker = null;
+    if (!fallback) fallback = setInterval(onFrame, intervalMs);
+  };
+
+  try {
+    workerUrl = URL.createObjectURL(new Blob([`setInterval(() => postMessage(0), ${intervalMs});`], { type: 'text/javascript' }));
+    worker = new Worker(workerUrl);
+    worker.onmessage = () => onFrame();
+    // e.g. a content security policy that doesn't allow blob: workers
+    worker.onerror = () => {
+      console.warn('[FRAMES] Worker timer unavailable, falling back to setInterval');
+      useFallback();
+    };
+  } catch {
+    useFallback();
+  }
+
+  return {
+    stop() {
+      worker?.terminate();
+      worker = null;
+      if (fallback) clearInterval(fallback);
+      fallback = null;
+      if (workerUrl) URL.revokeObjectURL(workerUrl);
+    },
+  };
+}
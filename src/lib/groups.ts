@@ -0,0 +1,83 @@
+import { supabase } from '@/lib/supabase';
+import { getDirectRoomId } from '@/lib/messageStore';
+import { ChatGroup, Conversation, Friend } from '@/types';
+
+const GROUPS_STORAGE_KEY = 'callie_groups';
+
+// Membership changes are pushed to each member's personal group inbox
+export const GROUP_INBOX_EVENT = 'group-event';
+
+export type GroupEventType = 'group-created' | 'member-added' | 'member-removed';
+
+export type GroupEvent = {
+  type: GroupEventType;
+  // Snapshot of the group after the change
+  group: ChatGroup;
+  actorId: string;
+  // Members added or removed by this event
+  memberIds: string[];
+};
+
+export function getGroupInboxChannel(userId: string): string {
+  return `groups-${userId}`;
+}
+
+// Group room ids are namespaced so they can never collide with a direct room
+export function createGroupId(uuid: string): string {
+  return `group:${uuid}`;
+}
+
+export function loadGroups(userId: string): ChatGroup[] {
+  try {
+    const stored = localStorage.getItem(`${GROUPS_STORAGE_KEY}_${userId}`);
+    if (stored) {
+      return (JSON.parse(stored) as ChatGroup[]).map(g => ({ ...g, createdAt: new Date(g.createdAt) }));
+    }
+  } catch {
+    // ignore
+  }
+  return [];
+}
+
+export function saveGroups(userId: string, groups: ChatGroup[]) {
+  localStorage.setItem(`${GROUPS_STORAGE_KEY}_${userId}`, JSON.stringify(groups));
+}
+
+export function deserializeGroupEvent(raw: GroupEvent): GroupEvent {
+  return { ...raw, group: { ...raw.group, createdAt: new Date(raw.group.createdAt) } };
+}
+
+// Fire-and-forget delivery to each recipient's inbox, mirroring how call invites are sent
+export function sendGroupEvent(recipientIds: string[], event: GroupEvent) {
+  for (const recipientId of recipientIds) {
+    const inbox = supabase.channel(getGroupInboxChannel(recipientId), {
+      config: { broadcast: { self: false } }
+    });
+    inbox.subscribe(async (status) => {
+      if (status !== 'SUBSCRIBED') return;
+      const result = await inbox.send({ type: 'broadcast', event: GROUP_INBOX_EVENT, payload: event });
+      if (result !== 'ok') console.warn('[GROUPS] Failed to notify', recipientId, 'of', event.type);
+      setTimeout(() => supabase.removeChannel(inbox), 5000);
+    });
+  }
+}
+
+export function toDirectConversation(userId: string, friend: Friend): Conversation {
+  return {
+    id: getDirectRoomId(userId, friend.id),
+    kind: 'direct',
+    name: friend.displayName,
+    memberIds: [friend.id],
+    friend,
+  };
+}
+
+export function toGroupConversation(userId: string, group: ChatGroup): Conversation {
+  return {
+    id: group.id,
+    kind: 'group',
+    name: group.name,
+    memberIds: group.members.map(m => m.id).filter(id => id !== userId),
+    group,
+  };
+}
@@ -0,0 +1,214 @@
+// ICE configuration for calls and P2P transfers. Precedence: per-user settings
+// override, then build-time env (VITE_ICE_SERVERS / VITE_TURN_TOKEN_URL), then
+// the public fallback servers below.
+
+export type IceOverride = {
+  iceServers?: RTCIceServer[];
+  turnTokenUrl?: string;
+  relayOnly?: boolean;
+};
+
+export type IceCandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+export type IceDiagnostics = {
+  found: Record<IceCandidateType, number>;
+  candidates: { type: IceCandidateType; protocol: string; address: string; url?: string }[];
+  durationMs: number;
+  error?: string;
+};
+
+// Used only when nothing is configured; openrelay is a shared public TURN for development
+export const FALLBACK_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+  { urls: 'stun:stun2.l.google.com:19302' },
+  {
+    urls: 'turn:openrelay.metered.ca:80',
+    username: 'openrelayproject',
+    credential: 'openrelayproject',
+  },
+  {
+    urls: 'turn:openrelay.metered.ca:443',
+    username: 'openrelayproject',
+    credential: 'openrelayproject',
+  },
+  {
+    urls: 'turn:openrelay.metered.ca:443?transport=tcp',
+    username: 'openrelayproject',
+    credential: 'openrelayproject',
+  },
+];
+
+const ICE_OVERRIDE_STORAGE_KEY = 'callie_ice_config';
+export const ICE_CANDIDATE_POOL_SIZE = 10;
+// Refresh TURN credentials this long before they expire
+const CREDENTIAL_REFRESH_MARGIN_MS = 60000;
+const DEFAULT_CREDENTIAL_TTL_S = 3600;
+const TOKEN_FETCH_TIMEOUT_MS = 5000;
+
+export function loadIceOverride(userId: string): IceOverride {
+  try {
+    const stored = localStorage.getItem(`${ICE_OVERRIDE_STORAGE_KEY}_${userId}`);
+    if (stored) return JSON.parse(stored) as IceOverride;
+  } catch {
+    // ignore
+  }
+  return {};
+}
+
+export function saveIceOverride(userId: string, override: IceOverride) {
+  localStorage.setItem(`${ICE_OVERRIDE_STORAGE_KEY}_${userId}`, JSON.stringify(override));
+}
+
+// Accepts a single server or an array; throws on anything that isn't shaped like RTCIceServer
+export function parseIceServers(json: string): RTCIceServer[] {
+  const parsed = JSON.parse(json) as unknown;
+  const list = Array.isArray(parsed) ? parsed : [parsed];
+  list.forEach((server, i) => {
+    const urls = (server as RTCIceServer | null)?.urls;
+    const valid = typeof urls === 'string' || (Array.isArray(urls) && urls.every(u => typeof u === 'string'));
+    if (!valid) throw new Error(`Server ${i + 1} needs a "urls" string or array`);
+  });
+  return list as RTCIceServer[];
+}
+
+function readEnvIceServers(): RTCIceServer[] | null {
+  const raw = import.meta.env.VITE_ICE_SERVERS;
+  if (!raw) return null;
+  try {
+    return parseIceServers(raw);
+  } catch (err) {
+    console.error('[ICE] Ignoring invalid VITE_ICE_SERVERS:', err);
+    return null;
+  }
+}
+
+// Understands both { iceServers, ttl } and the TURN REST API shape { username, password, ttl, uris }
+function parseTokenResponse(body: Record<string, unknown>): { iceServers: RTCIceServer[]; ttl: number } {
+  const ttl = typeof body.ttl === 'number' ? body.ttl : DEFAULT_CREDENTIAL_TTL_S;
+  if (Array.isArray(body.iceServers)) return { iceServers: body.iceServers as RTCIceServer[], ttl };
+  const urls = (body.uris ?? body.urls) as string | string[] | undefined;
+  if (!urls) throw new Error('Token response has no servers');
+  return {
+    iceServers: [{ urls, username: body.username as string, credential: (body.credential ?? body.password) as string }],
+    ttl,
+  };
+}
+
+type IceConfigResolverOptions = {
+  userId: string;
+  getOverride: () => IceOverride;
+};
+
+// Builds RTCConfiguration on demand, caching short-lived TURN credentials until they near expiry
+export function createIceConfigResolver({ userId, getOverride }: IceConfigResolverOptions) {
+  let fetched: { url: string; iceServers: RTCIceServer[]; expiresAt: number } | null = null;
+  let lastResolved: RTCConfiguration | null = null;
+
+  const getStaticServers = (override: IceOverride) =>
+    override.iceServers?.length ? override.iceServers : readEnvIceServers() ?? FALLBACK_ICE_SERVERS;
+
+  const buildConfig = (override: IceOverride, iceServers: RTCIceServer[]): RTCConfiguration => {
+    const relayOnly = override.relayOnly ?? import.meta.env.VITE_ICE_TRANSPORT_POLICY === 'relay';
+    return {
+      iceServers,
+      iceCandidatePoolSize: ICE_CANDIDATE_POOL_SIZE,
+      iceTransportPolicy: relayOnly ? 'relay' : 'all',
+    };
+  };
+
+  const fetchCredentials = async (url: string): Promise<RTCIceServer[]> => {
+    if (fetched && fetched.url === url && fetched.expiresAt - CREDENTIAL_REFRESH_MARGIN_MS > Date.now()) {
+      return fetched.iceServers;
+    }
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), TOKEN_FETCH_TIMEOUT_MS);
+    try {
+      const endpoint = new URL(url, window.location.href);
+      endpoint.searchParams.set('userId', userId);
+      const res = await fetch(endpoint, { signal: controller.signal });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const { iceServers, ttl } = parseTokenResponse(await res.json());
+      fetched = { url, iceServers, expiresAt: Date.now() + ttl * 1000 };
+      console.log('[ICE] Fetched TURN credentials, ttl', ttl);
+      return iceServers;
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  return {
+    // Fetches fresh TURN credentials when a token endpoint is configured
+    async resolve(): Promise<RTCConfiguration> {
+      const override = getOverride();
+      const staticServers = getStaticServers(override);
+      const tokenUrl = override.turnTokenUrl || import.meta.env.VITE_TURN_TOKEN_URL;
+      let iceServers = staticServers;
+      if (tokenUrl) {
+        try {
+          iceServers = [...staticServers, ...(await fetchCredentials(tokenUrl))];
+        } catch (err) {
+          console.error('[ICE] TURN credential fetch failed, continuing without:', err);
+        }
+      }
+      lastResolved = buildConfig(override, iceServers);
+      return lastResolved;
+    },
+
+    // Synchronous best effort for callers that can't wait: the last resolved config
+    current(): RTCConfiguration {
+      return lastResolved ?? buildConfig(getOverride(), getStaticServers(getOverride()));
+    },
+
+    invalidate() {
+      fetched = null;
+      lastResolved = null;
+    },
+  };
+}
+
+export type IceConfigResolver = ReturnType<typeof createIceConfigResolver>;
+
+// Gather candidates against the given servers without a remote peer, to see which paths work
+export async function runIceDiagnostics(config: RTCConfiguration, timeoutMs = 8000): Promise<IceDiagnostics> {
+  const started = Date.now();
+  const result: IceDiagnostics = {
+    found: { host: 0, srflx: 0, prflx: 0, relay: 0 },
+    candidates: [],
+    durationMs: 0,
+  };
+  // Always gather everything here, so a relay-only policy doesn't hide host/srflx results
+  const pc = new RTCPeerConnection({ ...config, iceTransportPolicy: 'all', iceCandidatePoolSize: 0 });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, timeoutMs);
+      pc.onicecandidate = (ev) => {
+        if (!ev.candidate) { clearTimeout(timer); resolve(); return; }
+        const type = ev.candidate.type as IceCandidateType | null;
+        if (!type) return;
+        result.found[type]++;
+        result.candidates.push({
+          type,
+          protocol: ev.candidate.protocol ?? 'udp',
+          address: ev.candidate.address ?? '(hidden)',
+          url: (ev as RTCPeerConnectionIceEvent & { url?: string }).url ?? undefined,
+        });
+      };
+      pc.onicecandidateerror = (ev) => {
+        const err = ev as RTCPeerConnectionIceErrorEvent;
+        console.warn('[ICE] Candidate error:', err.url, err.errorCode, err.errorText);
+        result.error = `${err.url || 'ICE server'}: ${err.errorText || err.errorCode}`;
+      };
+      pc.createDataChannel('ice-diagnostics');
+      pc.createOffer().then(offer => pc.setLocalDescription(offer)).catch(reject);
+    });
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : String(err);
+  } finally {
+    pc.close();
+  }
+
+  result.durationMs = Date.now() - started;
+  return result;
+}
@@ -0,0 +1,73 @@
+// Preferred camera/microphone/speaker per user. An empty id means the system default.
+export type DevicePreferences = Record<MediaDeviceKind, string>;
+
+export type DeviceLists = Record<MediaDeviceKind, MediaDeviceInfo[]>;
+
+export const DEFAULT_DEVICE_PREFERENCES: DevicePreferences = {
+  audioinput: '',
+  videoinput: '',
+  audiooutput: '',
+};
+
+const DEVICE_PREFERENCES_STORAGE_KEY = 'callie_devices';
+
+export function loadDevicePreferences(userId: string): DevicePreferences {
+  try {
+    const stored = localStorage.getItem(`${DEVICE_PREFERENCES_STORAGE_KEY}_${userId}`);
+    if (stored) return { ...DEFAULT_DEVICE_PREFERENCES, ...(JSON.parse(stored) as Partial<DevicePreferences>) };
+  } catch {
+    // ignore
+  }
+  return { ...DEFAULT_DEVICE_PREFERENCES };
+}
+
+export function saveDevicePreferences(userId: string, preferences: DevicePreferences) {
+  localStorage.setItem(`${DEVICE_PREFERENCES_STORAGE_KEY}_${userId}`, JSON.stringify(preferences));
+}
+
+export function isMobileDevice() {
+  return /iPhone|iPad|iPod|Android/i.test(navigator.userAgent);
+}
+
+export function buildAudioConstraints(deviceId: string): MediaTrackConstraints {
+  return {
+    ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+  };
+}
+
+// A specific camera replaces the front-facing default
+export function buildVideoConstraints(deviceId: string): MediaTrackConstraints {
+  const isMobile = isMobileDevice();
+  return {
+    width: isMobile ? { ideal: 720 } : { ideal: 1280 },
+    height: isMobile ? { ideal: 1280 } : { ideal: 720 },
+    ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'user' }),
+  };
+}
+
+// Browsers hide labels until media permission is granted
+export function getDeviceLabel(device: MediaDeviceInfo, index: number): string {
+  if (device.label) return device.label;
+  switch (device.kind) {
+    case 'audioinput':
+      return `Microphone ${index + 1}`;
+    case 'videoinput':
+      return `Camera ${index + 1}`;
+    default:
+      return `Speaker ${index + 1}`;
+  }
+}
+
+// Drop preferences for devices that are no longer plugged in
+export function resolveDevicePreferences(preferences: DevicePreferences, devices: DeviceLists): DevicePreferences {
+  const resolve = (kind: MediaDeviceKind) =>
+    devices[kind].some(d => d.deviceId === preferences[kind]) ? preferences[kind] : '';
+  return {
+    audioinput: resolve('audioinput'),
+    videoinput: resolve('videoinput'),
+    audiooutput: resolve('audiooutput'),
+  };
+}
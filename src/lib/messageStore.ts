@@ -0,0 +1,303 @@
+import { supabase } from '@/lib/supabase';
+import { Message, Reaction } from '@/types';
+
+export const MESSAGE_PAGE_SIZE = 30;
+
+export type MessageStoreKind = 'indexeddb' | 'supabase' | 'memory';
+
+// Position in a room's history. Messages can share a timestamp, so the id breaks ties.
+export type MessageCursor = {
+  createdAt: Date;
+  id: string;
+};
+
+export type MessagePageQuery = {
+  // Only return messages ordered strictly before this one
+  before?: MessageCursor;
+  limit?: number;
+};
+
+// Storage backend for chat history. Pages are returned oldest-first.
+export type MessageStoreAdapter = {
+  kind: MessageStoreKind;
+  loadMessages: (roomId: string, query?: MessagePageQuery) => Promise<Message[]>;
+  saveMessage: (roomId: string, message: Message) => Promise<void>;
+  deleteMessage: (roomId: string, messageId: string) => Promise<void>;
+};
+
+type StoredMessage = Omit<Message, 'createdAt'> & {
+  roomId: string;
+  createdAt: number;
+};
+
+function toStored(roomId: string, message: Message): StoredMessage {
+  return { ...message, roomId, createdAt: message.createdAt.getTime() };
+}
+
+function fromStored(stored: StoredMessage): Message {
+  const { roomId: _roomId, ...message } = stored;
+  return { ...message, createdAt: new Date(stored.createdAt) };
+}
+
+// Room id for a 1:1 conversation, identical on both sides
+export function getDirectRoomId(userId: string, friendId: string): string {
+  return [userId, friendId].sort().join(':');
+}
+
+// Rebuild a Message from its JSON form (broadcast payloads, localStorage)
+export function deserializeMessage(raw: Record<string, unknown>): Message {
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt as string),
+    editedAt: raw.editedAt ? new Date(raw.editedAt as string) : undefined,
+    deletedAt: raw.deletedAt ? new Date(raw.deletedAt as string) : undefined,
+  } as Message;
+}
+
+// Short one-line description of a message, used for reply quotes
+export function getMessagePreview(message: Message): string {
+  if (message.deletedAt) return 'Message deleted';
+  switch (message.type) {
+    case 'voice':
+      return '🎤 Voice message';
+    case 'file':
+      return `📎 ${message.attachment?.name || 'File'}`;
+    case 'gif':
+      return 'GIF';
+    default:
+      return message.content;
+  }
+}
+
+// Add or remove one user's emoji on a message. A user can react with several
+// different emojis but only once with each.
+export function applyMessageReaction(message: Message, reaction: Reaction, action: 'add' | 'remove'): Message {
+  const others = (message.reactions || []).filter(
+    r => !(r.userId === reaction.userId && r.emoji === reaction.emoji)
+  );
+  return { ...message, reactions: action === 'add' ? [...others, reaction] : others };
+}
+
+// History order: by creation time, then by id; every store pages in this order
+export function compareMessages(a: MessageCursor, b: MessageCursor): number {
+  const byTime = a.createdAt.getTime() - b.createdAt.getTime();
+  if (byTime !== 0) return byTime;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+// Merge two message lists, de-duplicating by id and keeping chronological order.
+// Entries from `incoming` win over existing ones with the same id.
+export function mergeMessages(existing: Message[], incoming: Message[]): Message[] {
+  if (incoming.length === 0) return existing;
+  const byId = new Map<string, Message>();
+  existing.forEach(m => byId.set(m.id, m));
+  incoming.forEach(m => byId.set(m.id, m));
+  return Array.from(byId.values()).sort(compareMessages);
+}
+
+// ─── INDEXEDDB ─────────────────────────────────────────────────
+const DB_VERSION = 1;
+const STORE_NAME = 'messages';
+const ROOM_INDEX = 'roomId_createdAt';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createIndexedDBAdapter(dbName: string): MessageStoreAdapter {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            store.createIndex(ROOM_INDEX, ['roomId', 'createdAt']);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return dbPromise;
+  };
+
+  return {
+    kind: 'indexeddb',
+
+    async loadMessages(roomId, query = {}) {
+      const db = await openDb();
+      const limit = query.limit ?? MESSAGE_PAGE_SIZE;
+      const { before } = query;
+      // The cursor's own timestamp is included; ties are settled by id below
+      const upper = before ? before.createdAt.getTime() : Infinity;
+      const range = IDBKeyRange.bound([roomId, -Infinity], [roomId, upper]);
+
+      return new Promise<Message[]>((resolve, reject) => {
+        const results: Message[] = [];
+        const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index(ROOM_INDEX);
+        const request = index.openCursor(range, 'prev');
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor && results.length < limit) {
+            const message = fromStored(cursor.value as StoredMessage);
+            if (!before || compareMessages(message, before) < 0) results.push(message);
+            cursor.continue();
+          } else {
+            resolve(results.reverse());
+          }
+        };
+        request.onerror = () => reject(request.error);
+      });
+    },
+
+    async saveMessage(roomId, message) {
+      const db = await openDb();
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await requestToPromise(store.put(toStored(roomId, message)));
+    },
+
+    async deleteMessage(_roomId, messageId) {
+      const db = await openDb();
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await requestToPromise(store.delete(messageId));
+    },
+  };
+}
+
+// ─── SUPABASE TABLE ────────────────────────────────────────────
+// Expects a `messages` table with snake_case columns matching the Message type
+// plus a `room_id` text column.
+type MessageRow = {
+  id: string;
+  room_id: string;
+  sender_id: string;
+  receiver_id: string;
+  content: string;
+  type: Message['type'];
+  file_url: string | null;
+  reply_to_id: string | null;
+  created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  reactions: Reaction[] | null;
+  read: boolean;
+};
+
+export function createSupabaseAdapter(table = 'messages'): MessageStoreAdapter {
+  return {
+    kind: 'supabase',
+
+    async loadMessages(roomId, query = {}) {
+      let request = supabase
+        .from(table)
+        .select('*')
+        .eq('room_id', roomId)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(query.limit ?? MESSAGE_PAGE_SIZE);
+      if (query.before) {
+        const at = query.before.createdAt.toISOString();
+        request = request.or(`created_at.lt.${at},and(created_at.eq.${at},id.lt.${query.before.id})`);
+      }
+      const { data, error } = await request;
+      if (error) throw new Error(error.message);
+      return (data as MessageRow[]).reverse().map(row => ({
+        id: row.id,
+        senderId: row.sender_id,
+        receiverId: row.receiver_id,
+        content: row.content,
+        type: row.type,
+        fileUrl: row.file_url ?? undefined,
+        replyToId: row.reply_to_id ?? undefined,
+        createdAt: new Date(row.created_at),
+        editedAt: row.edited_at ? new Date(row.edited_at) : undefined,
+        deletedAt: row.deleted_at ? new Date(row.deleted_at) : undefined,
+        reactions: row.reactions ?? undefined,
+        read: row.read,
+      }));
+    },
+
+    async saveMessage(roomId, message) {
+      const row: MessageRow = {
+        id: message.id,
+        room_id: roomId,
+        sender_id: message.senderId,
+        receiver_id: message.receiverId,
+        content: message.content,
+        type: message.type,
+        file_url: message.fileUrl ?? null,
+        reply_to_id: message.replyToId ?? null,
+        created_at: message.createdAt.toISOString(),
+        edited_at: message.editedAt?.toISOString() ?? null,
+        deleted_at: message.deletedAt?.toISOString() ?? null,
+        reactions: message.reactions ?? null,
+        read: message.read,
+      };
+      const { error } = await supabase.from(table).upsert(row);
+      if (error) throw new Error(error.message);
+    },
+
+    // Rows are shared by both participants, so "delete for me" only hides it locally
+    async deleteMessage() {},
+  };
+}
+
+// ─── IN-MEMORY ─────────────────────────────────────────────────
+// Non-persistent fallback, also handy as a mock when IndexedDB is unavailable
+export function createMemoryAdapter(): MessageStoreAdapter {
+  const rooms = new Map<string, Message[]>();
+
+  return {
+    kind: 'memory',
+
+    async loadMessages(roomId, query = {}) {
+      const limit = query.limit ?? MESSAGE_PAGE_SIZE;
+      const all = rooms.get(roomId) || [];
+      const eligible = query.before
+        ? all.filter(m => compareMessages(m, query.before!) < 0)
+        : all;
+      return eligible.slice(-limit);
+    },
+
+    async saveMessage(roomId, message) {
+      rooms.set(roomId, mergeMessages(rooms.get(roomId) || [], [message]));
+    },
+
+    async deleteMessage(roomId, messageId) {
+      rooms.set(roomId, (rooms.get(roomId) || []).filter(m => m.id !== messageId));
+    },
+  };
+}
+
+// Backend picked at build time; IndexedDB unless VITE_MESSAGE_STORE says otherwise
+export function getMessageStoreKind(): MessageStoreKind {
+  const kind = import.meta.env.VITE_MESSAGE_STORE;
+  if (kind === 'supabase' || kind === 'memory' || kind === 'indexeddb') return kind;
+  if (kind) console.warn('[STORE] Unknown VITE_MESSAGE_STORE, using indexeddb:', kind);
+  return 'indexeddb';
+}
+
+export function createMessageStore(userId: string, kind: MessageStoreKind = getMessageStoreKind()): MessageStoreAdapter {
+  switch (kind) {
+    case 'supabase':
+      return createSupabaseAdapter();
+    case 'memory':
+      return createMemoryAdapter();
+    case 'indexeddb':
+      if (typeof indexedDB === 'undefined') {
+        console.warn('[STORE] IndexedDB unavailable, falling back to memory');
+        return createMemoryAdapter();
+      }
+      return createIndexedDBAdapter(`callie_messages_${userId}`);
+  }
+}
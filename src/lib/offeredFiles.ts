@@ -0,0 +1,75 @@
+// Files we've offered peer-to-peer, kept in IndexedDB so they can still be served after
+// a reload. Offers expire after a week; storage errors only cost us the persistence.
+
+export type OfferedFileStore = {
+  save: (transferId: string, file: File) => Promise<void>;
+  load: (transferId: string) => Promise<File | null>;
+  prune: () => Promise<void>;
+};
+
+type StoredOffer = {
+  transferId: string;
+  file: File;
+  offeredAt: number;
+};
+
+const DB_VERSION = 1;
+const STORE_NAME = 'offers';
+const OFFER_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createOfferedFileStore(userId: string): OfferedFileStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB is not available'));
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(`callie_offered_files_${userId}`, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'transferId' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return dbPromise;
+  };
+
+  return {
+    async save(transferId, file) {
+      const db = await openDb();
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      const offer: StoredOffer = { transferId, file, offeredAt: Date.now() };
+      await requestToPromise(store.put(offer));
+    },
+
+    async load(transferId) {
+      const db = await openDb();
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      const offer = await requestToPromise(store.get(transferId)) as StoredOffer | undefined;
+      if (!offer || Date.now() - offer.offeredAt > OFFER_TTL_MS) return null;
+      return offer.file;
+    },
+
+    async prune() {
+      const db = await openDb();
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      const offers = await requestToPromise(store.getAll()) as StoredOffer[];
+      const expired = offers.filter(o => Date.now() - o.offeredAt > OFFER_TTL_MS);
+      await Promise.all(expired.map(o => requestToPromise(store.delete(o.transferId))));
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { Message } from '@/types';
+import { deserializeMessage } from '@/lib/messageStore';
+
+// Messages waiting to be (re)sent over the chat channel, persisted per user in localStorage
+export type OutboxEntry = {
+  roomId: string;
+  message: Message;
+  attempts: number;
+  nextAttemptAt: number;
+};
+
+// Edits, deletes and reactions queued behind the room's messages, so they reach peers
+// that were offline (or while we were) without having to resend the whole message
+export type OutboxEvent = {
+  id: string;
+  roomId: string;
+  event: 'message-edit' | 'message-delete' | 'message-reaction';
+  payload: Record<string, unknown>;
+  attempts: number;
+  nextAttemptAt: number;
+};
+
+export const MAX_SEND_ATTEMPTS = 5;
+
+const OUTBOX_STORAGE_KEY = 'callie_outbox';
+const OUTBOX_EVENTS_STORAGE_KEY = 'callie_outbox_events';
+
+// Exponential backoff: 1s, 2s, 4s... capped at 30s
+export function getRetryDelay(attempts: number): number {
+  return Math.min(1000 * 2 ** Math.max(0, attempts - 1), 30000);
+}
+
+export function loadOutbox(userId: string): OutboxEntry[] {
+  try {
+    const stored = localStorage.getItem(`${OUTBOX_STORAGE_KEY}_${userId}`);
+    if (stored) {
+      const parsed = JSON.parse(stored) as OutboxEntry[];
+      return parsed.map(entry => ({
+        ...entry,
+        message: deserializeMessage(entry.message as unknown as Record<string, unknown>),
+      }));
+    }
+  } catch {
+    // ignore
+  }
+  return [];
+}
+
+// Queued voice notes are large data URLs and can exceed the storage quota; the queue
+// still lives in memory, it just won't survive a reload
+export function saveOutbox(userId: string, entries: OutboxEntry[]) {
+  try {
+    localStorage.setItem(`${OUTBOX_STORAGE_KEY}_${userId}`, JSON.stringify(entries));
+  } catch (err) {
+    console.warn('Failed to persist outbox:', err);
+  }
+}
+
+export function loadOutboxEvents(userId: string): OutboxEvent[] {
+  try {
+    const stored = localStorage.getItem(`${OUTBOX_EVENTS_STORAGE_KEY}_${userId}`);
+    if (stored) return JSON.parse(stored) as OutboxEvent[];
+  } catch {
+    // ignore
+  }
+  return [];
+}
+
+export function saveOutboxEvents(userId: string, events: OutboxEvent[]) {
+  try {
+    localStorage.setItem(`${OUTBOX_EVENTS_STORAGE_KEY}_${userId}`, JSON.stringify(events));
+  } catch (err) {
+    console.warn('Failed to persist outbox events:', err);
+  }
+}
@@ -0,0 +1,314 @@
+import { v4 as uuidv4 } from 'uuid';
+import { OfferedFileStore } from '@/lib/offeredFiles';
+
+// Direct peer-to-peer file transfer over an RTCDataChannel.
+//
+// The sender keeps offered files in memory; the receiver asks for one with a
+// `request` signal carrying the byte offset it already has, which is how an
+// interrupted download resumes. Signals are `file-signal` broadcasts on the
+// recipient's own channel, so offers are served whichever chat the sender has
+// open; with a store, they also survive a reload.
+
+export const FILE_SIGNAL_EVENT = 'file-signal';
+
+export function getFileSignalChannel(userId: string): string {
+  return `files-${userId}`;
+}
+
+export type FileSignal = {
+  type: 'request' | 'offer' | 'answer' | 'candidate' | 'unavailable';
+  from: string;
+  to: string;
+  transferId: string;
+  requestId: string;
+  offset?: number;
+  sdp?: RTCSessionDescriptionInit;
+  candidate?: RTCIceCandidateInit;
+};
+
+export type TransferProgress = {
+  transferId: string;
+  received: number;
+  total: number;
+};
+
+type P2PFileTransferOptions = {
+  myUserId: string;
+  // Read per connection so ICE settings changed after creation still apply
+  getRtcConfig: () => RTCConfiguration;
+  sendSignal: (signal: FileSignal) => void;
+  onProgress: (progress: TransferProgress) => void;
+  store?: OfferedFileStore;
+};
+
+type PartialDownload = {
+  parts: ArrayBuffer[];
+  received: number;
+  total: number;
+};
+
+const SLICE_SIZE = 16 * 1024;
+const BUFFERED_HIGH_WATER = 1024 * 1024;
+const MAX_RESUME_ATTEMPTS = 3;
+const REQUEST_TIMEOUT_MS = 20000;
+
+export function createP2PFileTransfer({ myUserId, getRtcConfig, sendSignal, onProgress, store }: P2PFileTransferOptions) {
+  const offeredFiles = new Map<string, File>();
+  const partials = new Map<string, PartialDownload>();
+  const connections = new Map<string, RTCPeerConnection>();
+  const pendingCandidates = new Map<string, RTCIceCandidateInit[]>();
+
+  const closeConnection = (requestId: string) => {
+    connections.get(requestId)?.close();
+    connections.delete(requestId);
+    pendingCandidates.delete(requestId);
+  };
+
+  const createConnection = (requestId: string, transferId: string, peerId: string) => {
+    const pc = new RTCPeerConnection(getRtcConfig());
+    pc.onicecandidate = (ev) => {
+      if (ev.candidate) {
+        sendSignal({
+          type: 'candidate',
+          from: myUserId,
+          to: peerId,
+          transferId,
+          requestId,
+          candidate: ev.candidate.toJSON(),
+        });
+      }
+    };
+    connections.set(requestId, pc);
+    return pc;
+  };
+
+  const flushCandidates = async (requestId: string, pc: RTCPeerConnection) => {
+    const queued = pendingCandidates.get(requestId) || [];
+    pendingCandidates.delete(requestId);
+    for (const c of queued) {
+      try { await pc.addIceCandidate(new RTCIceCandidate(c)); } catch (e) { console.warn('[FILE] ICE flush error:', e); }
+    }
+  };
+
+  // ─── SENDER ──────────────────────────────────────────────────
+  const findFile = async (transferId: string) => {
+    const offered = offeredFiles.get(transferId);
+    if (offered || !store) return offered ?? null;
+    const stored = await store.load(transferId).catch(err => {
+      console.warn('[FILE] Could not read stored offer:', err);
+      return null;
+    });
+    if (stored) offeredFiles.set(transferId, stored);
+    return stored;
+  };
+
+  const serveRequest = async (signal: FileSignal) => {
+    const file = await findFile(signal.transferId);
+    if (!file) {
+      sendSignal({ type: 'unavailable', from: myUserId, to: signal.from, transferId: signal.transferId, requestId: signal.requestId });
+      return;
+    }
+
+    const pc = createConnection(signal.requestId, signal.transferId, signal.from);
+    const channel = pc.createDataChannel('file', { ordered: true });
+    channel.binaryType = 'arraybuffer';
+    channel.bufferedAmountLowThreshold = BUFFERED_HIGH_WATER / 2;
+
+    channel.onopen = async () => {
+      let offset = Math.min(signal.offset || 0, file.size);
+      console.log('[FILE] Sending', file.name, 'from byte', offset);
+      try {
+        while (offset < file.size && channel.readyState === 'open') {
+          if (channel.bufferedAmount > BUFFERED_HIGH_WATER) {
+            await new Promise<void>(resolve => {
+              channel.onbufferedamountlow = () => {
+                channel.onbufferedamountlow = null;
+                resolve();
+              };
+            });
+          }
+          const slice = await file.slice(offset, offset + SLICE_SIZE).arrayBuffer();
+          channel.send(slice);
+          offset += slice.byteLength;
+          onProgress({ transferId: signal.transferId, received: offset, total: file.size });
+        }
+      } catch (err) {
+        console.error('[FILE] Send error:', err);
+      }
+    };
+    channel.onclose = () => closeConnection(signal.requestId);
+
+    const offer = await pc.createOffer();
+    await pc.setLocalDescription(offer);
+    sendSignal({
+      type: 'offer',
+      from: myUserId,
+      to: signal.from,
+      transferId: signal.transferId,
+      requestId: signal.requestId,
+      sdp: offer,
+    });
+  };
+
+  // ─── RECEIVER ────────────────────────────────────────────────
+  const requestFile = (transferId: string, senderId: string, total: number): Promise<Blob> => {
+    return new Promise((resolve, reject) => {
+      let partial = partials.get(transferId);
+      if (!partial) {
+        partial = { parts: [], received: 0, total };
+        partials.set(transferId, partial);
+      }
+      let attempts = 0;
+
+      const attempt = () => {
+        const current = partials.get(transferId)!;
+        const requestId = uuidv4();
+        attempts++;
+
+        const timeout = setTimeout(() => fail(new Error('Sender did not respond')), REQUEST_TIMEOUT_MS);
+        const finishAttempt = () => {
+          clearTimeout(timeout);
+          resolvers.delete(requestId);
+        };
+
+        const fail = (err: Error) => {
+          finishAttempt();
+          closeConnection(requestId);
+          // Retry from where we stopped; the sender skips bytes we already have
+          if (attempts < MAX_RESUME_ATTEMPTS && current.received > 0) {
+            console.log('[FILE] Resuming', transferId, 'at byte', current.received);
+            attempt();
+          } else {
+            reject(err);
+          }
+        };
+
+        resolvers.set(requestId, {
+          onUnavailable: () => {
+            finishAttempt();
+            reject(new Error('File is no longer available from the sender'));
+          },
+          onChannel: (channel) => {
+            clearTimeout(timeout);
+            channel.binaryType = 'arraybuffer';
+            channel.onmessage = (ev) => {
+              const data = ev.data as ArrayBuffer;
+              current.parts.push(data);
+              current.received += data.byteLength;
+              onProgress({ transferId, received: current.received, total: current.total });
+              if (current.received >= current.total) {
+                finishAttempt();
+                partials.delete(transferId);
+                closeConnection(requestId);
+                resolve(new Blob(current.parts));
+              }
+            };
+            channel.onclose = () => {
+              if (current.received < current.total) fail(new Error('Transfer interrupted'));
+            };
+          },
+        });
+
+        sendSignal({
+          type: 'request',
+          from: myUserId,
+          to: senderId,
+          transferId,
+          requestId,
+          offset: current.received,
+        });
+      };
+
+      attempt();
+    });
+  };
+
+  const resolvers = new Map<string, {
+    onUnavailable: () => void;
+    onChannel: (channel: RTCDataChannel) => void;
+  }>();
+
+  const acceptOffer = async (signal: FileSignal) => {
+    const handlers = resolvers.get(signal.requestId);
+    if (!handlers) return;
+    const pc = createConnection(signal.requestId, signal.transferId, signal.from);
+    pc.ondatachannel = (ev) => handlers.onChannel(ev.channel);
+    await pc.setRemoteDescription(new RTCSessionDescription(signal.sdp!));
+    await flushCandidates(signal.requestId, pc);
+    const answer = await pc.createAnswer();
+    await pc.setLocalDescription(answer);
+    sendSignal({
+      type: 'answer',
+      from: myUserId,
+      to: signal.from,
+      transferId: signal.transferId,
+      requestId: signal.requestId,
+      sdp: answer,
+    });
+  };
+
+  return {
+    // Make a file downloadable by peers; returns the transfer id to put on the message
+    offer(file: File): string {
+      const transferId = uuidv4();
+      offeredFiles.set(transferId, file);
+      store?.save(transferId, file).catch(err => console.warn('[FILE] Could not store offer:', err));
+      return transferId;
+    },
+
+    hasFile(transferId: string) {
+      return offeredFiles.has(transferId);
+    },
+
+    getFile: findFile,
+
+    download: requestFile,
+
+    async handleSignal(signal: FileSignal) {
+      if (signal.to !== myUserId) return;
+      try {
+        switch (signal.type) {
+          case 'request':
+            await serveRequest(signal);
+            break;
+          case 'unavailable':
+            resolvers.get(signal.requestId)?.onUnavailable();
+            break;
+          case 'offer':
+            await acceptOffer(signal);
+            break;
+          case 'answer': {
+            const pc = connections.get(signal.requestId);
+            if (pc && pc.signalingState === 'have-local-offer') {
+              await pc.setRemoteDescription(new RTCSessionDescription(signal.sdp!));
+              await flushCandidates(signal.requestId, pc);
+            }
+            break;
+          }
+          case 'candidate': {
+            const pc = connections.get(signal.requestId);
+            if (pc && pc.remoteDescription) {
+              await pc.addIceCandidate(new RTCIceCandidate(signal.candidate!));
+            } else {
+              const queued = pendingCandidates.get(signal.requestId) || [];
+              queued.push(signal.candidate!);
+              pendingCandidates.set(signal.requestId, queued);
+            }
+            break;
+          }
+        }
+      } catch (err) {
+        console.error('[FILE] Signal error:', signal.type, err);
+      }
+    },
+
+    close() {
+      Array.from(connections.keys()).forEach(closeConnection);
+      offeredFiles.clear();
+      partials.clear();
+      resolvers.clear();
+    },
+  };
+}
+
+export type P2PFileTransfer = ReturnType<typeof createP2PFileTransfer>;
@@ -0,0 +1,31 @@
+// Token bucket keyed per sender: allows short bursts, then settles to one event per refill interval
+export type RateLimiter = {
+  tryTake: (key: string) => boolean;
+  reset: () => void;
+};
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+export function createRateLimiter(capacity: number, refillIntervalMs: number): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+
+  return {
+    tryTake(key) {
+      const now = Date.now();
+      const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+      const refilled = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) / refillIntervalMs);
+      if (refilled < 1) {
+        buckets.set(key, { tokens: refilled, updatedAt: now });
+        return false;
+      }
+      buckets.set(key, { tokens: refilled - 1, updatedAt: now });
+      return true;
+    },
+    reset() {
+      buckets.clear();
+    },
+  };
+}
@@ -0,0 +1,85 @@
+// Person/background segmentation for the camera effects pipeline. Anything that can
+// turn a small RGBA frame into a foreground mask can be plugged in (e.g. a WASM portrait
+// model); the built-in segmenter is a lightweight CPU fallback that needs no model file.
+
+// One value per pixel of the input frame: 1 = person, 0 = background
+export type SegmentationMask = Float32Array;
+
+export type Segmenter = {
+  // Frames arrive downscaled (around 160px wide); async models may resolve later,
+  // in which case the previous mask is reused in the meantime
+  segment: (frame: ImageData) => SegmentationMask | Promise<SegmentationMask>;
+  close?: () => void;
+};
+
+export type SegmenterFactory = () => Segmenter;
+
+// 3 bits per channel keeps the colour histograms small and forgiving of camera noise
+const COLOR_BINS = 512;
+const PRIOR_WEIGHT = 0.6;
+// Share of the new mask mixed into the previous one, to keep edges from flickering
+const TEMPORAL_BLEND = 0.5;
+
+function smoothstep(edge0: number, edge1: number, x: number) {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+function colorBin(data: Uint8ClampedArray, i: number) {
+  return ((data[i] >> 5) << 6) | ((data[i + 1] >> 5) << 3) | (data[i + 2] >> 5);
+}
+
+// Where a webcam user usually is: a head over a pair of shoulders, centred in frame.
+// Distances are in frame-height units so the shape holds for portrait and landscape.
+function headAndShouldersPrior(width: number, height: number): Float32Array {
+  const prior = new Float32Array(width * height);
+  const aspect = width / height;
+  for (let y = 0; y < height; y++) {
+    const v = (y + 0.5) / height;
+    for (let x = 0; x < width; x++) {
+      const dx = ((x + 0.5) / width - 0.5) * aspect;
+      const head = Math.hypot(dx / 0.2, (v - 0.4) / 0.28);
+      const body = Math.hypot(dx / 0.55, (v - 1.05) / 0.42);
+      prior[y * width + x] = 1 - smoothstep(0.8, 1.25, Math.min(head, body));
+    }
+  }
+  return prior;
+}
+
+// Combines the silhouette prior with a per-frame colour model: colours seen in the
+// middle of the silhouette count as person, colours seen well outside it as background
+export function createHeuristicSegmenter(): Segmenter {
+  let prior: Float32Array | null = null;
+  let previous: SegmentationMask | null = null;
+
+  return {
+    segment({ data, width, height }) {
+      const size = width * height;
+      if (!prior || prior.length !== size) {
+        prior = headAndShouldersPrior(width, height);
+        previous = null;
+      }
+
+      const fg = new Float32Array(COLOR_BINS).fill(1);
+      const bg = new Float32Array(COLOR_BINS).fill(1);
+      let fgTotal = COLOR_BINS;
+      let bgTotal = COLOR_BINS;
+      for (let p = 0; p < size; p++) {
+        if (prior[p] > 0.8) { fg[colorBin(data, p * 4)]++; fgTotal++; }
+        else if (prior[p] < 0.05) { bg[colorBin(data, p * 4)]++; bgTotal++; }
+      }
+
+      const mask = new Float32Array(size);
+      for (let p = 0; p < size; p++) {
+        const bin = colorBin(data, p * 4);
+        const pf = fg[bin] / fgTotal;
+        const pb = bg[bin] / bgTotal;
+        const score = PRIOR_WEIGHT * prior[p] + (1 - PRIOR_WEIGHT) * (pf / (pf + pb));
+        const value = smoothstep(0.35, 0.65, score);
+        mask[p] = previous ? previous[p] * (1 - TEMPORAL_BLEND) + value * TEMPORAL_BLEND : value;
+      }
+      previous = mask;
+      return mask;
+    },
+  };
+}
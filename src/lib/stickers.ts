@@ -0,0 +1,131 @@
+// Sticker / GIF sources for the chat picker. Providers are searched in order;
+// the bundled pack works fully offline and external APIs can be registered later.
+
+export type StickerItem = {
+  id: string;
+  providerId: string;
+  title: string;
+  url: string;
+  tags: string[];
+};
+
+export type StickerProvider = {
+  id: string;
+  name: string;
+  // Empty query returns the provider's featured / trending items
+  search: (query: string) => Promise<StickerItem[]>;
+};
+
+const FAVORITES_STORAGE_KEY = 'callie_sticker_favorites';
+const RECENTS_STORAGE_KEY = 'callie_sticker_recents';
+const MAX_RECENTS = 24;
+
+// ─── BUNDLED PACK ──────────────────────────────────────────────
+type BundledSticker = {
+  id: string;
+  emoji: string;
+  label: string;
+  tags: string[];
+  from: string;
+  to: string;
+};
+
+const bundledStickers: BundledSticker[] = [
+  { id: 'hi', emoji: '👋', label: 'HI!', tags: ['hello', 'hey', 'wave', 'greeting'], from: '#8B5CF6', to: '#EC4899' },
+  { id: 'lol', emoji: '😂', label: 'LOL', tags: ['laugh', 'funny', 'haha'], from: '#F59E0B', to: '#F97316' },
+  { id: 'love', emoji: '😍', label: 'LOVE', tags: ['heart', 'cute', 'adore'], from: '#EC4899', to: '#EF4444' },
+  { id: 'yes', emoji: '👍', label: 'YES', tags: ['ok', 'agree', 'thumbs', 'like'], from: '#22C55E', to: '#14B8A6' },
+  { id: 'nope', emoji: '🙅', label: 'NOPE', tags: ['no', 'disagree'], from: '#EF4444', to: '#F97316' },
+  { id: 'party', emoji: '🥳', label: 'PARTY', tags: ['celebrate', 'birthday', 'yay'], from: '#A855F7', to: '#06B6D4' },
+  { id: 'fire', emoji: '🔥', label: 'LIT', tags: ['hot', 'fire', 'amazing'], from: '#F97316', to: '#EF4444' },
+  { id: 'wow', emoji: '😮', label: 'WOW', tags: ['surprised', 'omg', 'shock'], from: '#06B6D4', to: '#3B82F6' },
+  { id: 'sad', emoji: '😭', label: 'NOO', tags: ['cry', 'sad', 'tears'], from: '#3B82F6', to: '#6366F1' },
+  { id: 'cool', emoji: '😎', label: 'COOL', tags: ['chill', 'sunglasses', 'nice'], from: '#14B8A6', to: '#22C55E' },
+  { id: 'think', emoji: '🤔', label: 'HMM', tags: ['thinking', 'wonder', 'question'], from: '#6366F1', to: '#8B5CF6' },
+  { id: 'thanks', emoji: '🙏', label: 'THANKS', tags: ['thank you', 'please', 'grateful'], from: '#F59E0B', to: '#84CC16' },
+  { id: 'gg', emoji: '🏆', label: 'GG', tags: ['win', 'victory', 'trophy', 'congrats'], from: '#EAB308', to: '#F97316' },
+  { id: 'brb', emoji: '🏃', label: 'BRB', tags: ['be right back', 'later', 'run'], from: '#06B6D4', to: '#8B5CF6' },
+  { id: 'sleep', emoji: '😴', label: 'ZZZ', tags: ['tired', 'sleep', 'night', 'bored'], from: '#6366F1', to: '#1E293B' },
+  { id: 'mindblown', emoji: '🤯', label: 'WHAT', tags: ['mind blown', 'crazy', 'omg'], from: '#EC4899', to: '#8B5CF6' },
+  { id: 'dead', emoji: '💀', label: 'DEAD', tags: ['lmao', 'dying', 'funny'], from: '#64748B', to: '#1E293B' },
+  { id: 'hug', emoji: '🤗', label: 'HUGS', tags: ['hug', 'care', 'support'], from: '#F472B6', to: '#FB923C' },
+  { id: 'clap', emoji: '👏', label: 'BRAVO', tags: ['applause', 'clap', 'well done'], from: '#22C55E', to: '#06B6D4' },
+  { id: 'coffee', emoji: '☕', label: 'COFFEE?', tags: ['coffee', 'break', 'morning'], from: '#92400E', to: '#F59E0B' },
+];
+
+// Animated SVG (gentle bounce) so the pack behaves like lightweight GIFs without any network
+function renderStickerSvg(sticker: BundledSticker): string {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="200" height="200" viewBox="0 0 200 200">
+<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${sticker.from}"/><stop offset="1" stop-color="${sticker.to}"/></linearGradient></defs>
+<rect x="10" y="10" width="180" height="180" rx="48" fill="url(#g)"/>
+<g><animateTransform attributeName="transform" type="translate" values="0 0;0 -8;0 0" dur="1.2s" repeatCount="indefinite"/>
+<text x="100" y="112" font-size="84" text-anchor="middle">${sticker.emoji}</text></g>
+<text x="100" y="170" font-size="26" font-weight="800" font-family="Inter, sans-serif" fill="#fff" text-anchor="middle">${sticker.label}</text>
+</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+const bundledItems: StickerItem[] = bundledStickers.map(sticker => ({
+  id: `bundled:${sticker.id}`,
+  providerId: 'bundled',
+  title: sticker.label,
+  url: renderStickerSvg(sticker),
+  tags: [sticker.label.toLowerCase(), ...sticker.tags],
+}));
+
+export const bundledStickerProvider: StickerProvider = {
+  id: 'bundled',
+  name: 'Callie Pack',
+  async search(query) {
+    const q = query.trim().toLowerCase();
+    if (!q) return bundledItems;
+    return bundledItems.filter(item => item.tags.some(tag => tag.includes(q)));
+  },
+};
+
+// ─── PROVIDER REGISTRY ─────────────────────────────────────────
+const providers: StickerProvider[] = [bundledStickerProvider];
+
+export function registerStickerProvider(provider: StickerProvider) {
+  if (!providers.some(p => p.id === provider.id)) providers.push(provider);
+}
+
+export function getStickerProviders(): StickerProvider[] {
+  return [...providers];
+}
+
+// Search every provider; one failing (e.g. offline) doesn't hide the others
+export async function searchStickers(query: string): Promise<StickerItem[]> {
+  const results = await Promise.allSettled(providers.map(p => p.search(query)));
+  return results.flatMap(r => (r.status === 'fulfilled' ? r.value : []));
+}
+
+// ─── FAVORITES & RECENTS ───────────────────────────────────────
+function loadList(key: string): StickerItem[] {
+  try {
+    const stored = localStorage.getItem(key);
+    if (stored) return JSON.parse(stored) as StickerItem[];
+  } catch {
+    // ignore
+  }
+  return [];
+}
+
+export function loadFavoriteStickers(userId: string): StickerItem[] {
+  return loadList(`${FAVORITES_STORAGE_KEY}_${userId}`);
+}
+
+export function saveFavoriteStickers(userId: string, items: StickerItem[]) {
+  localStorage.setItem(`${FAVORITES_STORAGE_KEY}_${userId}`, JSON.stringify(items));
+}
+
+export function loadRecentStickers(userId: string): StickerItem[] {
+  return loadList(`${RECENTS_STORAGE_KEY}_${userId}`);
+}
+
+// Move the item to the front of the recents list, returning the new list
+export function pushRecentSticker(userId: string, item: StickerItem): StickerItem[] {
+  const next = [item, ...loadRecentStickers(userId).filter(r => r.id !== item.id)].slice(0, MAX_RECENTS);
+  localStorage.setItem(`${RECENTS_STORAGE_KEY}_${userId}`, JSON.stringify(next));
+  return next;
+}
@@ -0,0 +1,315 @@
+// Camera effects: a canvas pipeline that sits between the camera track and everything
+// that consumes it (senders, self-view, recorder). Segmentation runs on a small copy of
+// each frame; the mask is scaled up to cut the person out of the full-size frame.
+import { createFrameTimer } from './frameTimer';
+import { createHeuristicSegmenter, SegmenterFactory } from './segmentation';
+
+export type BackgroundMode = 'none' | 'blur' | 'image';
+
+export type VideoEffectSettings = {
+  background: BackgroundMode;
+  blur: 'light' | 'strong';
+  // A preset id, or CUSTOM_BACKGROUND_ID for the user's own image
+  backgroundImage: string;
+  // Uploaded image as a downscaled JPEG data URL
+  customBackground: string | null;
+  // Soft-light pass that lifts shadows on the face
+  lightCorrection: boolean;
+};
+
+export type VideoEffectsProcessor = {
+  // Processed output; stopping the processor stops it along with the source
+  track: MediaStreamTrack;
+  source: MediaStreamTrack;
+  setSettings: (settings: VideoEffectSettings) => void;
+  stop: () => void;
+};
+
+export const CUSTOM_BACKGROUND_ID = 'custom';
+
+export const BACKGROUND_PRESETS: { id: string; label: string; colors: string[] }[] = [
+  { id: 'aurora', label: 'Aurora', colors: ['#0f172a', '#6d28d9', '#22d3ee'] },
+  { id: 'sunset', label: 'Sunset', colors: ['#f97316', '#ec4899', '#7c3aed'] },
+  { id: 'ocean', label: 'Ocean', colors: ['#0c4a6e', '#0891b2', '#5eead4'] },
+  { id: 'forest', label: 'Forest', colors: ['#052e16', '#15803d', '#a3e635'] },
+  { id: 'studio', label: 'Studio', colors: ['#1f2937', '#4b5563', '#9ca3af'] },
+];
+
+export const DEFAULT_VIDEO_EFFECTS: VideoEffectSettings = {
+  background: 'none',
+  blur: 'light',
+  backgroundImage: BACKGROUND_PRESETS[0].id,
+  customBackground: null,
+  lightCorrection: false,
+};
+
+const VIDEO_EFFECTS_STORAGE_KEY = 'callie_video_effects';
+
+const FRAME_RATE = 30;
+const MASK_WIDTH = 160;
+// Radius at 1280px wide; scaled with the frame
+const BLUR_RADIUS = { light: 8, strong: 20 };
+const LIGHT_TINT = 'rgba(255, 244, 230, 0.45)';
+const BACKDROP_WIDTH = 1280;
+const BACKDROP_HEIGHT = 720;
+
+export function loadVideoEffects(userId: string): VideoEffectSettings {
+  try {
+    const stored = localStorage.getItem(`${VIDEO_EFFECTS_STORAGE_KEY}_${userId}`);
+    if (stored) return { ...DEFAULT_VIDEO_EFFECTS, ...(JSON.parse(stored) as Partial<VideoEffectSettings>) };
+  } catch {
+    // ignore
+  }
+  return { ...DEFAULT_VIDEO_EFFECTS };
+}
+
+// Custom backgrounds can be large; a full quota shouldn't break the settings screen
+export function saveVideoEffects(userId: string, settings: VideoEffectSettings) {
+  try {
+    localStorage.setItem(`${VIDEO_EFFECTS_STORAGE_KEY}_${userId}`, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('[EFFECTS] Could not save settings:', err);
+  }
+}
+
+export function hasVideoEffects(settings: VideoEffectSettings) {
+  return settings.background !== 'none' || settings.lightCorrection;
+}
+
+export function isVideoEffectsSupported() {
+  return typeof HTMLCanvasElement !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+}
+
+export function presetGradient(colors: string[]) {
+  return `linear-gradient(135deg, ${colors.join(', ')})`;
+}
+
+function makeCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function get2d(canvas: HTMLCanvasElement, willReadFrequently = false) {
+  const ctx = canvas.getContext('2d', { willReadFrequently });
+  if (!ctx) throw new Error('Canvas is not available');
+  return ctx;
+}
+
+function drawCover(
+  ctx: CanvasRenderingContext2D,
+  image: CanvasImageSource,
+  imageWidth: number,
+  imageHeight: number,
+  width: number,
+  height: number
+) {
+  const scale = Math.max(width / imageWidth, height / imageHeight);
+  const sw = width / scale;
+  const sh = height / scale;
+  ctx.drawImage(image, (imageWidth - sw) / 2, (imageHeight - sh) / 2, sw, sh, 0, 0, width, height);
+}
+
+function drawPresetBackdrop(colors: string[]) {
+  const canvas = makeCanvas(BACKDROP_WIDTH, BACKDROP_HEIGHT);
+  const ctx = get2d(canvas);
+  const gradient = ctx.createLinearGradient(0, 0, BACKDROP_WIDTH, BACKDROP_HEIGHT);
+  colors.forEach((color, i) => gradient.addColorStop(i / (colors.length - 1), color));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, BACKDROP_WIDTH, BACKDROP_HEIGHT);
+  return canvas;
+}
+
+function applySoftLight(ctx: CanvasRenderingContext2D, width: number, height: number) {
+  ctx.globalCompositeOperation = 'soft-light';
+  ctx.fillStyle = LIGHT_TINT;
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalCompositeOperation = 'source-over';
+}
+
+// Downscales an uploaded picture so it fits comfortably in localStorage
+export async function prepareBackgroundImage(file: File): Promise<string> {
+  if (!file.type.startsWith('image/')) throw new Error('Choose an image file');
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const canvas = makeCanvas(BACKDROP_WIDTH, BACKDROP_HEIGHT);
+    drawCover(get2d(canvas), image, image.naturalWidth, image.naturalHeight, BACKDROP_WIDTH, BACKDROP_HEIGHT);
+    return canvas.toDataURL('image/jpeg', 0.85);
+  } catch {
+    throw new Error('Could not read that image');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function createVideoEffectsProcessor(
+  source: MediaStreamTrack,
+  initialSettings: VideoEffectSettings,
+  createSegmenter: SegmenterFactory = createHeuristicSegmenter
+): VideoEffectsProcessor {
+  if (!isVideoEffectsSupported()) throw new Error('Video effects are not supported in this browser');
+
+  const { width: sourceWidth = 1280, height: sourceHeight = 720 } = source.getSettings();
+  const canvas = makeCanvas(sourceWidth, sourceHeight);
+  const ctx = get2d(canvas);
+  const person = makeCanvas(sourceWidth, sourceHeight);
+  const personCtx = get2d(person);
+  const frame = makeCanvas(MASK_WIDTH, Math.round(MASK_WIDTH * sourceHeight / sourceWidth));
+  const frameCtx = get2d(frame, true);
+  const mask = makeCanvas(frame.width, frame.height);
+  const maskCtx = get2d(mask);
+  const blurred = makeCanvas(1, 1);
+  const blurredCtx = get2d(blurred);
+  const supportsFilter = 'filter' in CanvasRenderingContext2D.prototype;
+
+  // The processor decides what peers see, so a disabled source would only ever yield black
+  source.enabled = true;
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = new MediaStream([source]);
+  video.play().catch(() => {});
+
+  const segmenter = createSegmenter();
+  let settings = initialSettings;
+  let backdrop: { image: CanvasImageSource; width: number; height: number } | null = null;
+  let backdropKey = '';
+  let hasMask = false;
+  let segmenting = false;
+  let stopped = false;
+
+  const loadBackdrop = () => {
+    const custom = settings.backgroundImage === CUSTOM_BACKGROUND_ID ? settings.customBackground : null;
+    const key = custom ?? settings.backgroundImage;
+    if (key === backdropKey) return;
+    backdropKey = key;
+    backdrop = null;
+    if (custom) {
+      const image = new Image();
+      image.onload = () => {
+        if (backdropKey === key) backdrop = { image, width: image.naturalWidth, height: image.naturalHeight };
+      };
+      image.src = custom;
+      return;
+    }
+    const preset = BACKGROUND_PRESETS.find(p => p.id === settings.backgroundImage) ?? BACKGROUND_PRESETS[0];
+    backdrop = { image: drawPresetBackdrop(preset.colors), width: BACKDROP_WIDTH, height: BACKDROP_HEIGHT };
+  };
+
+  // The camera may deliver a different size than it advertised, or change it mid-stream
+  const fitToVideo = () => {
+    const { videoWidth: w, videoHeight: h } = video;
+    if (!w || !h || (canvas.width === w && canvas.height === h)) return;
+    canvas.width = person.width = w;
+    canvas.height = person.height = h;
+    frame.height = mask.height = Math.round(MASK_WIDTH * h / w);
+    hasMask = false;
+  };
+
+  const segment = () => {
+    if (segmenting) return;
+    segmenting = true;
+    frameCtx.drawImage(video, 0, 0, frame.width, frame.height);
+    const input = frameCtx.getImageData(0, 0, frame.width, frame.height);
+    Promise.resolve(segmenter.segment(input)).then(values => {
+      if (stopped || values.length !== input.width * input.height) return;
+      const image = maskCtx.createImageData(input.width, input.height);
+      values.forEach((value, i) => { image.data[i * 4 + 3] = value * 255; });
+      if (mask.width !== input.width || mask.height !== input.height) {
+        mask.width = input.width;
+        mask.height = input.height;
+      }
+      maskCtx.putImageData(image, 0, 0);
+      hasMask = true;
+    }).catch(err => {
+      console.warn('[EFFECTS] Segmentation failed:', err);
+    }).finally(() => {
+      segmenting = false;
+    });
+  };
+
+  const drawBackground = (w: number, h: number) => {
+    if (settings.background === 'image' && backdrop) {
+      drawCover(ctx, backdrop.image, backdrop.width, backdrop.height, w, h);
+      return;
+    }
+    const radius = BLUR_RADIUS[settings.blur] * w / 1280;
+    if (supportsFilter) {
+      ctx.filter = `blur(${radius}px)`;
+      // Overdraw so the blur doesn't fade in from transparent edges
+      ctx.drawImage(video, -radius, -radius, w + radius * 2, h + radius * 2);
+      ctx.filter = 'none';
+      return;
+    }
+    // Without canvas filters, scaling down and back up is a passable blur
+    const bw = Math.max(16, Math.round(w / radius));
+    const bh = Math.max(9, Math.round(h / radius));
+    if (blurred.width !== bw || blurred.height !== bh) {
+      blurred.width = bw;
+      blurred.height = bh;
+    }
+    blurredCtx.drawImage(video, 0, 0, bw, bh);
+    ctx.drawImage(blurred, 0, 0, w, h);
+  };
+
+  const draw = () => {
+    // Camera off: peers get nothing anyway, so skip the work
+    if (!output.enabled || video.readyState < 2) return;
+    fitToVideo();
+    const { width: w, height: h } = canvas;
+
+    if (settings.background === 'none') {
+      ctx.drawImage(video, 0, 0, w, h);
+      if (settings.lightCorrection) applySoftLight(ctx, w, h);
+      return;
+    }
+
+    segment();
+    personCtx.globalCompositeOperation = 'source-over';
+    personCtx.drawImage(video, 0, 0, w, h);
+    if (settings.lightCorrection) applySoftLight(personCtx, w, h);
+    if (!hasMask) {
+      ctx.drawImage(person, 0, 0);
+      return;
+    }
+    personCtx.globalCompositeOperation = 'destination-in';
+    personCtx.drawImage(mask, 0, 0, w, h);
+    personCtx.globalCompositeOperation = 'source-over';
+
+    drawBackground(w, h);
+    ctx.drawImage(person, 0, 0);
+  };
+
+  loadBackdrop();
+  const output = canvas.captureStream(FRAME_RATE).getVideoTracks()[0];
+  // Peers would otherwise get a frame a second whenever this tab isn't the visible one
+  const frameTimer = createFrameTimer(draw, FRAME_RATE);
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    frameTimer.stop();
+    video.srcObject = null;
+    segmenter.close?.();
+    source.stop();
+    output.stop();
+  };
+  // An unplugged camera ends the output too, so device recovery sees a dead track
+  source.addEventListener('ended', stop);
+
+  return {
+    track: output,
+    source,
+
+    setSettings(next) {
+      settings = next;
+      loadBackdrop();
+    },
+
+    stop,
+  };
+}
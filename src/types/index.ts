@@ -83,6 +83,51 @@ export type StoredFriend = {
   addedAt: number;
 };
 
+// Profile snapshot of a group member; members aren't necessarily our friends
+export type GroupMember = {
+  id: string;
+  displayName: string;
+  avatarColor: string;
+};
+
+export type ChatGroup = {
+  id: string;
+  name: string;
+  ownerId: string;
+  // Everyone in the group, including the current user
+  members: GroupMember[];
+  createdAt: Date;
+};
+
+export type ConversationKind = 'direct' | 'group';
+
+// A chat the user can open: a 1:1 thread with a friend or a named group
+export type Conversation = {
+  // Room id shared by every participant (message store key and `chat:` channel suffix)
+  id: string;
+  kind: ConversationKind;
+  name: string;
+  // Other participants, excluding the current user
+  memberIds: string[];
+  friend?: Friend;
+  group?: ChatGroup;
+};
+
+// Delivery state of an outgoing message, tracked locally by the sender
+export type MessageStatus = 'pending' | 'sent' | 'failed';
+
+export type AttachmentBackendKind = 'storage' | 'p2p';
+
+export type Attachment = {
+  name: string;
+  size: number;
+  mimeType: string;
+  backend: AttachmentBackendKind;
+  thumbnailUrl?: string;
+  // Peer-to-peer transfers are requested from the sender by this id
+  transferId?: string;
+};
+
 export type Message = {
   id: string;
   senderId: string;
@@ -90,10 +135,23 @@ export type Message = {
   content: string;
   type: 'text' | 'gif' | 'voice' | 'file' | 'emoji';
   fileUrl?: string;
+  // Voice notes: clip length in seconds and normalised (0..1) waveform bars
+  duration?: number;
+  waveform?: number[];
+  attachment?: Attachment;
+  replyToId?: string;
+  editedAt?: Date;
+  // Set when the sender deleted the message for everyone; content is cleared
+  deletedAt?: Date;
+  reactions?: Reaction[];
   createdAt: Date;
   read: boolean;
+  delivered?: boolean;
+  status?: MessageStatus;
 };
 
+export type ReceiptKind = 'delivered' | 'read';
+
 export type CallState = 'idle' | 'ringing' | 'connecting' | 'connected' | 'ended';
 
 export type Reaction = {
@@ -0,0 +1,20 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // JSON array of RTCIceServer entries, e.g. your own STUN/TURN (coturn) servers
+  readonly VITE_ICE_SERVERS?: string;
+  // Endpoint handing out short-lived TURN credentials
+  readonly VITE_TURN_TOKEN_URL?: string;
+  // 'relay' forces all media through TURN
+  readonly VITE_ICE_TRANSPORT_POLICY?: string;
+  // WebSocket URL of the SFU used for larger group calls; without it every call is a mesh
+  readonly VITE_SFU_URL?: string;
+  // Participant count (including the caller) at which calls go through the SFU
+  readonly VITE_SFU_MIN_PARTICIPANTS?: string;
+  // Chat history backend: 'indexeddb' (default), 'supabase' or 'memory'
+  readonly VITE_MESSAGE_STORE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}